@@ -1,4 +1,5 @@
 import ms from 'ms';
+import { v4 as uuidv4 } from 'uuid';
 import _ from 'lodash';
 import Bottleneck from 'bottleneck';
 import {
@@ -7,18 +8,27 @@ import {
     TradeEvent,
     PolymarketUserWSEvent
 } from './types/PolymarketWebSocket';
-import { UserSubscriptionManagerOptions, ApiCredentials } from './types/WebSocketSubscriptions';
+import { UserSubscriptionManagerOptions, ApiCredentials, WebSocketStatus, UserSubscriptionManagerStatus } from './types/WebSocketSubscriptions';
+import { Logger } from './types/Logger';
 
 import { UserGroupRegistry } from './modules/UserGroupRegistry';
 import { UserGroupSocket } from './modules/UserGroupSocket';
+import { ExponentialBackoffPolicy, ReconnectScheduler } from './modules/ReconnectPolicy';
+import { createSubscriptionMetrics, SubscriptionMetrics } from './modules/SubscriptionMetrics';
+import { ManagerLifecycle } from './modules/ManagerLifecycle';
+import { callDetached } from './modules/callDetached';
+import { NORMAL_CLOSURE_CODE } from './modules/closeWebSocket';
 
-import { logger } from './logger';
+import { ConnectionError } from './errors';
+import { defaultLogger } from './logger';
 
 // Keeping a burst limit under 10/s to avoid rate limiting
 // See https://docs.polymarket.com/quickstart/introduction/rate-limits#api-rate-limits
 const BURST_LIMIT_PER_SECOND = 5;
 
 const DEFAULT_RECONNECT_AND_CLEANUP_INTERVAL_MS = ms('10s');
+// How long stop() waits for a closing handshake before terminating the socket
+const CLOSE_TIMEOUT_MS = ms('5s');
 // Polymarket removed the 100 token subscription limit on May 28, 2025
 // See: https://docs.polymarket.com/changelog/changelog
 const DEFAULT_MAX_MARKETS_PER_WS = Number.MAX_SAFE_INTEGER;
@@ -27,13 +37,20 @@ export class UserWSSubscriptionManager {
     private handlers: UserWebSocketHandlers;
     private burstLimiter: Bottleneck;
     private groupRegistry: UserGroupRegistry;
+    private reconnectScheduler: ReconnectScheduler;
+    private metrics?: SubscriptionMetrics;
+    private logger: Logger;
     private reconnectAndCleanupIntervalMs: number;
     private maxMarketsPerWS: number;
     private options: UserSubscriptionManagerOptions;
+    private ownsBurstLimiter: boolean;
+    private lifecycle: ManagerLifecycle;
 
     constructor(userHandlers: UserWebSocketHandlers, options: UserSubscriptionManagerOptions) {
         this.options = options;
-        this.groupRegistry = new UserGroupRegistry();
+        this.logger = (options.logger ?? defaultLogger).child({ managerId: uuidv4() });
+        this.groupRegistry = new UserGroupRegistry(this.logger);
+        this.ownsBurstLimiter = !options?.burstLimiter;
         this.burstLimiter = options?.burstLimiter || new Bottleneck({
             reservoir: BURST_LIMIT_PER_SECOND,
             reservoirRefreshAmount: BURST_LIMIT_PER_SECOND,
@@ -43,24 +60,132 @@ export class UserWSSubscriptionManager {
 
         this.reconnectAndCleanupIntervalMs = options?.reconnectAndCleanupIntervalMs || DEFAULT_RECONNECT_AND_CLEANUP_INTERVAL_MS;
         this.maxMarketsPerWS = options?.maxMarketsPerWS || DEFAULT_MAX_MARKETS_PER_WS;
+        this.lifecycle = new ManagerLifecycle('UserWSSubscriptionManager', this.reconnectAndCleanupIntervalMs, {
+            tick: () => this.reconnectAndCleanupGroups(),
+            cancel: () => this.reconnectScheduler.cancelAll(),
+            closeAll: () => this.groupRegistry.closeAllGroups(CLOSE_TIMEOUT_MS),
+            clearState: () => this.clearState(),
+            release: async () => {
+                if (this.ownsBurstLimiter) {
+                    await this.burstLimiter.stop({ dropWaitingJobs: true });
+                }
+            },
+        });
 
+        this.metrics = createSubscriptionMetrics(options.metrics, 'user');
+        userHandlers = this.metrics?.instrumentHandlers(userHandlers) ?? userHandlers;
+
+        const onWSClose = this.lifecycle.tracked(userHandlers.onWSClose);
         this.handlers = {
             onOrder: async (events: OrderEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onOrder);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onOrder));
             },
             onTrade: async (events: TradeEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onTrade);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onTrade));
+            },
+            // Schedules the reconnect of the closed group, instead of waiting for the next loop tick
+            onWSClose: async (groupId: string, ...closeArgs: [code: number, reason: string]) => {
+                this.lifecycle.track(() => this.reconnectDueGroup(groupId));
+                await onWSClose?.(groupId, ...closeArgs);
             },
-            onWSClose: userHandlers.onWSClose,
-            onWSOpen: userHandlers.onWSOpen,
-            onError: userHandlers.onError
+            onWSOpen: this.lifecycle.tracked(userHandlers.onWSOpen),
+            onReconnectScheduled: this.lifecycle.tracked(userHandlers.onReconnectScheduled),
+            onPingLatency: this.lifecycle.tracked(userHandlers.onPingLatency),
+            onError: this.lifecycle.tracked(userHandlers.onError)
         };
 
+        this.reconnectScheduler = new ReconnectScheduler(
+            options?.reconnectPolicy || new ExponentialBackoffPolicy(),
+            (groupId, attempt, delayMs) => {
+                this.metrics?.reconnectAttempted();
+                callDetached(this.logger, 'onReconnectScheduled', this.handlers.onReconnectScheduled, groupId, attempt, delayMs);
+            },
+            (groupId, attempts) => {
+                callDetached(this.logger, 'onError', this.handlers.onError, new ConnectionError(
+                    `Gave up reconnecting user group ${groupId} after ${attempts} attempt(s)`,
+                    { groupId, retryable: false },
+                ));
+            },
+            (groupId) => {
+                this.lifecycle.track(() => this.reconnectDueGroup(groupId));
+            },
+            this.logger,
+        );
+
         this.burstLimiter.on('error', (err: Error) => {
-            this.handlers.onError?.(err);
+            callDetached(this.logger, 'onError', this.handlers.onError, err);
         });
 
-        setInterval(this.reconnectAndCleanupGroups.bind(this), this.reconnectAndCleanupIntervalMs);
+        if (options?.autoStart ?? true) {
+            this.start();
+        }
+    }
+
+    /**
+     * Starts the periodic reconnect and cleanup loop.
+     *
+     * Called by the constructor unless `autoStart` is false. Groups that were
+     * closed by `stop()` or added while stopped are connected on the next tick.
+     */
+    public start(): void {
+        this.lifecycle.start();
+    }
+
+    /**
+     * Stops the manager and resolves once everything is quiet.
+     *
+     * This will:
+     *
+     * 1. Cancel the reconnect and cleanup loop
+     * 2. Wait for in-flight reconnects and handler calls
+     * 3. Close all WebSocket connections with a normal close code
+     *
+     * Subscriptions are kept, calling `start()` reconnects them. When called from
+     * a handler, the handler calls it was made from are not waited for.
+     */
+    public async stop(): Promise<void> {
+        await this.lifecycle.stop();
+    }
+
+    /**
+     * Stops the manager, clears all state and stops the internal rate limiter.
+     *
+     * A limiter passed in through `burstLimiter` is left running since it may be
+     * shared. The manager can not be started again afterwards.
+     */
+    public async dispose(): Promise<void> {
+        await this.lifecycle.dispose();
+    }
+
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.dispose();
+    }
+
+    /**
+     * Status of the manager and of each connection group.
+     */
+    public getStatus(): UserSubscriptionManagerStatus {
+        return {
+            running: this.lifecycle.running,
+            groups: this.groupRegistry.getGroupStatuses(),
+        };
+    }
+
+    /**
+     * Metrics in the Prometheus text exposition format, empty unless the `metrics` option is set.
+     */
+    public async getMetricsText(): Promise<string> {
+        return this.metrics ? await this.metrics.registry.metrics() : '';
+    }
+
+    /**
+     * Whether the manager is running and every group is connected, e.g. for a readiness probe.
+     *
+     * Groups that are connecting, waiting to reconnect or failed make the manager unhealthy.
+     */
+    public isHealthy(): boolean {
+        const status = this.getStatus();
+        return status.running && status.groups.every(group => group.status === WebSocketStatus.ALIVE);
     }
 
     /**
@@ -76,7 +201,7 @@ export class UserWSSubscriptionManager {
         for (const group of removedGroups) {
             try {
                 if (group.wsClient) {
-                    group.wsClient.close();
+                    group.wsClient.close(NORMAL_CLOSURE_CODE);
                 }
             } catch (error) {
                 await this.handlers.onError?.(new Error(`Error closing WebSocket for group ${group.groupId}: ${error instanceof Error ? error.message : String(error)}`));
@@ -123,9 +248,17 @@ export class UserWSSubscriptionManager {
     */
     public async addSubscriptions(marketIdsToAdd: string[] = []) {
         try {
+            this.lifecycle.throwIfDisposed();
+
             const groupIdsToConnect = await this.groupRegistry.addMarkets(marketIdsToAdd, this.maxMarketsPerWS, this.options.auth);
+
+            // While stopped, new groups stay pending until the manager is started
+            if (!this.lifecycle.running) {
+                return;
+            }
+
             for (const groupId of groupIdsToConnect) {
-                await this.createWebSocketClient(groupId, this.handlers);
+                await this.lifecycle.track(() => this.createWebSocketClient(groupId, this.handlers));
             }
         } catch (error) {
             const msg = `Error adding user subscriptions: ${error instanceof Error ? error.message : String(error)}`;
@@ -147,6 +280,30 @@ export class UserWSSubscriptionManager {
         }
     }
 
+    /*
+        Replaces the API credentials used by every group.
+        Groups that failed on the old credentials are reconnected with the new ones,
+        open connections keep running and pick up the new credentials when they reconnect.
+    */
+    public async updateAuth(auth: ApiCredentials) {
+        try {
+            this.options = { ...this.options, auth };
+            const groupIdsToConnect = await this.groupRegistry.updateAuth(auth);
+
+            // While stopped, the groups stay pending until the manager is started
+            if (!this.lifecycle.running) {
+                return;
+            }
+
+            for (const groupId of groupIdsToConnect) {
+                await this.lifecycle.track(() => this.createWebSocketClient(groupId, this.handlers));
+            }
+        } catch (error) {
+            const msg = `Error updating user credentials: ${error instanceof Error ? error.message : String(error)}`;
+            await this.handlers.onError?.(new Error(msg));
+        }
+    }
+
     /*
         This function runs periodically and:
         - Tries to reconnect groups that have markets and are disconnected
@@ -164,6 +321,17 @@ export class UserWSSubscriptionManager {
         }
     }
 
+    /*
+        Called by the reconnect scheduler once the backoff delay of a dead group has passed.
+    */
+    private async reconnectDueGroup(groupId: string) {
+        const group = this.groupRegistry.findGroupById(groupId);
+        if (!this.lifecycle.running || group?.status !== WebSocketStatus.DEAD) {
+            return;
+        }
+        await this.createWebSocketClient(groupId, this.handlers);
+    }
+
     private async createWebSocketClient(groupId: string, handlers: UserWebSocketHandlers) {
         const group = this.groupRegistry.findGroupById(groupId);
 
@@ -175,7 +343,19 @@ export class UserWSSubscriptionManager {
             return;
         }
 
-        const groupSocket = new UserGroupSocket(group, this.burstLimiter, handlers);
+        // Dead groups are reconnected according to the reconnect policy
+        if (group.status === WebSocketStatus.DEAD && !this.reconnectScheduler.isDue(group)) {
+            return;
+        }
+
+        const groupSocket = new UserGroupSocket(group, this.burstLimiter, handlers, {
+            url: this.options.wsUrl,
+            wsClientOptions: this.options.wsClientOptions,
+            pongTimeoutMs: this.options.pongTimeoutMs,
+            messageSilenceTimeoutMs: this.options.messageSilenceTimeoutMs,
+            metrics: this.metrics,
+            logger: this.logger,
+        });
         try {
             await groupSocket.connect();
         } catch (error) {
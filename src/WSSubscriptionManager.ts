@@ -1,4 +1,5 @@
 import ms from 'ms';
+import { v4 as uuidv4 } from 'uuid';
 import _ from 'lodash';
 import Bottleneck from 'bottleneck';
 import {
@@ -9,15 +10,35 @@ import {
     TickSizeChangeEvent,
     PolymarketWSEvent,
     PolymarketPriceUpdateEvent,
+    BestBidAskEvent,
+    BookDeltaEvent,
+    BookMetricsEvent,
+    MarketPriceUpdateEvent,
+    PolymarketDerivedEvent,
+    Side,
     isPriceChangeEvent
 } from './types/PolymarketWebSocket';
-import { SubscriptionManagerOptions } from './types/WebSocketSubscriptions';
+import { SubscriptionManagerOptions, SubscriptionManagerStatus, WebSocketStatus } from './types/WebSocketSubscriptions';
+import { Logger } from './types/Logger';
 
 import { GroupRegistry } from './modules/GroupRegistry';
 import { OrderBookCache } from './modules/OrderBookCache';
 import { GroupSocket } from './modules/GroupSocket';
+import { ExponentialBackoffPolicy, ReconnectScheduler } from './modules/ReconnectPolicy';
+import { createSubscriptionMetrics, SubscriptionMetrics } from './modules/SubscriptionMetrics';
+import { ManagerLifecycle } from './modules/ManagerLifecycle';
+import { callDetached } from './modules/callDetached';
+import { createBookSnapshotProvider } from './modules/ClobBookSnapshotProvider';
+import { BookMetricsStream } from './modules/BookMetricsStream';
+import { createMarketMetadataProvider } from './modules/GammaMarketMetadataProvider';
+import { isEmptyQuery, MarketMetadataCache } from './modules/MarketMetadataCache';
+import { MarketMetadataEnricher } from './modules/MarketMetadataEnricher';
+import { BookSnapshotProvider } from './types/BookSnapshot';
+import { AssetMetadata, MarketMetadata, MarketMetadataProvider, MarketQuery } from './types/MarketMetadata';
+import { BestBidAsk, BookMetrics, DecimalFormat, DepthLevel, FillAmount, FillEstimate, MarketBook, OrderBook } from './types/OrderBook';
 
-import { logger } from './logger';
+import { ConnectionError } from './errors';
+import { defaultLogger } from './logger';
 
 
 // Keeping a burst limit under 10/s to avoid rate limiting
@@ -25,6 +46,8 @@ import { logger } from './logger';
 const BURST_LIMIT_PER_SECOND = 5;
 
 const DEFAULT_RECONNECT_AND_CLEANUP_INTERVAL_MS = ms('10s');
+// How long stop() waits for a closing handshake before terminating the socket
+const CLOSE_TIMEOUT_MS = ms('5s');
 // Polymarket removed the 100 token subscription limit on May 28, 2025
 // See: https://docs.polymarket.com/changelog/changelog
 const DEFAULT_MAX_MARKETS_PER_WS = Number.MAX_SAFE_INTEGER;
@@ -33,14 +56,33 @@ class WSSubscriptionManager {
     private handlers: WebSocketHandlers;
     private burstLimiter: Bottleneck;
     private groupRegistry: GroupRegistry;
+    private reconnectScheduler: ReconnectScheduler;
+    private metrics?: SubscriptionMetrics;
+    private bookSnapshotProvider?: BookSnapshotProvider;
+    private bookMetricsStream?: BookMetricsStream;
+    private marketMetadataProvider: MarketMetadataProvider;
+    private marketMetadataCache = new MarketMetadataCache();
+    private metadataEnricher?: MarketMetadataEnricher;
+    private logger: Logger;
     private bookCache: OrderBookCache;
     private reconnectAndCleanupIntervalMs: number;
     private maxMarketsPerWS: number;
     private initialDump: boolean;
+    private liveSubscriptionUpdates: boolean;
+    private options?: SubscriptionManagerOptions;
+    private groupSockets = new Map<string, GroupSocket>();
+    private ownsBurstLimiter: boolean;
+    private lifecycle: ManagerLifecycle;
 
     constructor(userHandlers: WebSocketHandlers, options?: SubscriptionManagerOptions) {
-        this.groupRegistry = new GroupRegistry();
-        this.bookCache = new OrderBookCache();
+        this.options = options;
+        this.logger = (options?.logger ?? defaultLogger).child({ managerId: uuidv4() });
+        this.groupRegistry = new GroupRegistry(this.logger);
+        this.bookCache = new OrderBookCache(this.logger, {
+            verifyBestBidAsk: options?.verifyBestBidAsk,
+            bookHash: options?.bookHash,
+        });
+        this.ownsBurstLimiter = !options?.burstLimiter;
         this.burstLimiter = options?.burstLimiter || new Bottleneck({
             reservoir: BURST_LIMIT_PER_SECOND,
             reservoirRefreshAmount: BURST_LIMIT_PER_SECOND,
@@ -50,37 +92,288 @@ class WSSubscriptionManager {
 
         this.reconnectAndCleanupIntervalMs = options?.reconnectAndCleanupIntervalMs || DEFAULT_RECONNECT_AND_CLEANUP_INTERVAL_MS;
         this.maxMarketsPerWS = options?.maxMarketsPerWS || DEFAULT_MAX_MARKETS_PER_WS;
+        this.lifecycle = new ManagerLifecycle('WSSubscriptionManager', this.reconnectAndCleanupIntervalMs, {
+            // Checks for dead groups and reconnects them if needed
+            tick: () => this.reconnectAndCleanupGroups(),
+            cancel: () => this.reconnectScheduler.cancelAll(),
+            closeAll: () => this.groupRegistry.closeAllGroups(CLOSE_TIMEOUT_MS),
+            // Handlers settling during stop() still change books and schedule their metrics
+            afterDrain: () => this.bookMetricsStream?.cancelAll(),
+            clearState: () => this.clearState(),
+            release: async () => {
+                if (this.ownsBurstLimiter) {
+                    await this.burstLimiter.stop({ dropWaitingJobs: true });
+                }
+            },
+        });
         this.initialDump = options?.initialDump ?? true;
+        this.liveSubscriptionUpdates = options?.liveSubscriptionUpdates ?? true;
 
+        this.metrics = createSubscriptionMetrics(options?.metrics, 'market');
+        this.bookSnapshotProvider = createBookSnapshotProvider(options?.bookSnapshots);
+        this.marketMetadataProvider = createMarketMetadataProvider(options?.marketMetadata);
+        userHandlers = this.metrics?.instrumentHandlers(userHandlers) ?? userHandlers;
+
+        const onWSClose = this.lifecycle.tracked(userHandlers.onWSClose);
         this.handlers = {
             onBook: async (events: BookEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onBook);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onBook));
             },
             onLastTradePrice: async (events: LastTradePriceEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onLastTradePrice);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onLastTradePrice));
             },
             onTickSizeChange: async (events: TickSizeChangeEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onTickSizeChange);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onTickSizeChange));
             },
             onPriceChange: async (events: PriceChangeEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onPriceChange);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onPriceChange));
             },
             onPolymarketPriceUpdate: async (events: PolymarketPriceUpdateEvent[]) => {
-                await this.actOnSubscribedEvents(events, userHandlers.onPolymarketPriceUpdate);
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onPolymarketPriceUpdate));
+            },
+            onBestBidAsk: async (events: BestBidAskEvent[]) => {
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onBestBidAsk));
+            },
+            // Only set with a user handler, deltas are not computed otherwise
+            onBookDelta: userHandlers.onBookDelta && (async (events: BookDeltaEvent[]) => {
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onBookDelta));
+            }),
+            onBookMetrics: userHandlers.onBookMetrics && (async (events: BookMetricsEvent[]) => {
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onBookMetrics));
+            }),
+            onMarketPriceUpdate: userHandlers.onMarketPriceUpdate && (async (events: MarketPriceUpdateEvent[]) => {
+                await this.lifecycle.track(() => this.actOnSubscribedEvents(events, userHandlers.onMarketPriceUpdate));
+            }),
+            // Schedules the reconnect of the closed group, instead of waiting for the next loop tick
+            onWSClose: async (groupId: string, ...closeArgs: [code: number, reason: string]) => {
+                this.lifecycle.track(() => this.reconnectDueGroup(groupId));
+                await onWSClose?.(groupId, ...closeArgs);
             },
-            onWSClose: userHandlers.onWSClose,
-            onWSOpen: userHandlers.onWSOpen,
-            onError: userHandlers.onError
+            onWSOpen: this.lifecycle.tracked(userHandlers.onWSOpen),
+            onReconnectScheduled: this.lifecycle.tracked(userHandlers.onReconnectScheduled),
+            onPingLatency: this.lifecycle.tracked(userHandlers.onPingLatency),
+            onBookDesync: this.lifecycle.tracked(userHandlers.onBookDesync),
+            onError: this.lifecycle.tracked(userHandlers.onError)
         };
 
+        // Metrics are only computed for a user handler
+        if (this.handlers.onBookMetrics) {
+            this.bookMetricsStream = new BookMetricsStream(this.bookCache, this.handlers, options?.bookMetrics);
+        }
+
+        if (options?.metadataEnrichment) {
+            this.metadataEnricher = new MarketMetadataEnricher(
+                this.marketMetadataCache,
+                this.marketMetadataProvider,
+                this.bookCache,
+                this.handlers,
+                options.metadataEnrichment === true ? {} : options.metadataEnrichment,
+            );
+        }
+
+        this.reconnectScheduler = new ReconnectScheduler(
+            options?.reconnectPolicy || new ExponentialBackoffPolicy(),
+            (groupId, attempt, delayMs) => {
+                this.metrics?.reconnectAttempted();
+                callDetached(this.logger, 'onReconnectScheduled', this.handlers.onReconnectScheduled, groupId, attempt, delayMs);
+            },
+            (groupId, attempts) => {
+                callDetached(this.logger, 'onError', this.handlers.onError, new ConnectionError(
+                    `Gave up reconnecting group ${groupId} after ${attempts} attempt(s)`,
+                    { groupId, retryable: false },
+                ));
+            },
+            (groupId) => {
+                this.lifecycle.track(() => this.reconnectDueGroup(groupId));
+            },
+            this.logger,
+        );
+
         this.burstLimiter.on('error', (err: Error) => {
-            this.handlers.onError?.(err);
+            callDetached(this.logger, 'onError', this.handlers.onError, err);
         });
 
-        // Check for dead groups every 10s and reconnect them if needed
-        setInterval(() => {
-            this.reconnectAndCleanupGroups();
-        }, this.reconnectAndCleanupIntervalMs);
+        if (options?.autoStart ?? true) {
+            this.start();
+        }
+    }
+
+    /**
+     * Starts the periodic reconnect and cleanup loop.
+     *
+     * Called by the constructor unless `autoStart` is false. Groups that were
+     * closed by `stop()` or added while stopped are connected on the next tick.
+     */
+    public start(): void {
+        this.lifecycle.start();
+    }
+
+    /**
+     * Stops the manager and resolves once everything is quiet.
+     *
+     * This will:
+     *
+     * 1. Cancel the reconnect and cleanup loop
+     * 2. Wait for in-flight reconnects and handler calls
+     * 3. Close all WebSocket connections with a normal close code
+     *
+     * Subscriptions are kept, calling `start()` reconnects them. When called from
+     * a handler, the handler calls it was made from are not waited for.
+     */
+    public async stop(): Promise<void> {
+        await this.lifecycle.stop();
+    }
+
+    /**
+     * Stops the manager, clears all state and stops the internal rate limiter.
+     *
+     * A limiter passed in through `burstLimiter` is left running since it may be
+     * shared. The manager can not be started again afterwards.
+     */
+    public async dispose(): Promise<void> {
+        await this.lifecycle.dispose();
+    }
+
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.dispose();
+    }
+
+    /**
+     * Status of the manager and of each connection group.
+     */
+    public getStatus(): SubscriptionManagerStatus {
+        return {
+            running: this.lifecycle.running,
+            groups: this.groupRegistry.getGroupStatuses(),
+        };
+    }
+
+    /**
+     * Metrics in the Prometheus text exposition format, empty unless the `metrics` option is set.
+     */
+    public async getMetricsText(): Promise<string> {
+        return this.metrics ? await this.metrics.registry.metrics() : '';
+    }
+
+    /**
+     * Whether the manager is running and every group is connected, e.g. for a readiness probe.
+     *
+     * Groups that are connecting, waiting to reconnect or failed make the manager unhealthy.
+     */
+    public isHealthy(): boolean {
+        const status = this.getStatus();
+        return status.running && status.groups.every(group => group.status === WebSocketStatus.ALIVE);
+    }
+
+    /**
+     * Immutable copy of the cached book of an asset, null if no book was received for it.
+     *
+     * Prices and sizes are strings as sent by Polymarket, or numbers or exact bigint
+     * fixed-point values depending on `format`.
+     *
+     * Check `stale` before trusting the levels, see "Book integrity".
+     */
+    public getBook<F extends DecimalFormat = 'string'>(assetId: string, format?: F): OrderBook<F> | null {
+        return this.bookCache.snapshot(assetId, format);
+    }
+
+    /**
+     * Best bid and ask of the cached book of an asset, null if no book was received for it.
+     */
+    public getBestBidAsk<F extends DecimalFormat = 'string'>(assetId: string, format?: F): BestBidAsk<F> | null {
+        return this.bookCache.bestBidAsk(assetId, format);
+    }
+
+    /**
+     * Midpoint of the best bid and ask of an asset, rounded to one decimal more than the tick size (3 while unknown).
+     *
+     * Returns null if no book was received for the asset or either side is empty.
+     */
+    public getMidpoint(assetId: string): string | null {
+        return this.bookCache.currentMidpoint(assetId);
+    }
+
+    /**
+     * Spread between the best ask and bid of an asset, rounded like the midpoint.
+     *
+     * Returns null if no book was received for the asset or either side is empty.
+     */
+    public getSpread(assetId: string): string | null {
+        return this.bookCache.currentSpread(assetId);
+    }
+
+    /**
+     * Last price emitted with onPolymarketPriceUpdate for an asset, null before the first update.
+     */
+    public getPrice(assetId: string): string | null {
+        return this.bookCache.getBookEntry(assetId)?.price ?? null;
+    }
+
+    /**
+     * Estimated execution of an order of `amount` shares or USDC against the cached book of an
+     * asset: filled size, notional, average and worst price, levels consumed and slippage from
+     * the midpoint. A BUY walks the asks and a SELL the bids.
+     *
+     * Returns null if no book was received for the asset.
+     * Throws if the amount is not a positive decimal.
+     */
+    public estimateFill<F extends DecimalFormat = 'string'>(assetId: string, side: Side, amount: FillAmount, format?: F): FillEstimate<F> | null {
+        return this.bookCache.estimateFill(assetId, side, amount, format);
+    }
+
+    /**
+     * Levels of one side of the cached book of an asset (BUY for the bids) within `priceBand` of
+     * the best price, best price first, with the cumulative size and notional up to each level.
+     *
+     * Returns null if no book was received for the asset.
+     * Throws if the band is not a decimal.
+     */
+    public cumulativeDepth<F extends DecimalFormat = 'string'>(assetId: string, side: Side, priceBand: string | number, format?: F): ReadonlyArray<DepthLevel<F>> | null {
+        return this.bookCache.cumulativeDepth(assetId, side, priceBand, format);
+    }
+
+    /**
+     * Merged book of the two tokens of a binary market (condition id), in the prices of `assetId`
+     * (default: the token with the lowest asset id). The levels of the other token at p appear
+     * at 1 - p, so the best bid and ask are the effective ones across both tokens.
+     *
+     * Returns null unless the books of both tokens, and only two, were received.
+     */
+    public getMarketBook<F extends DecimalFormat = 'string'>(market: string, assetId?: string, format?: F): MarketBook<F> | null {
+        return this.bookCache.marketBook(market, assetId, format);
+    }
+
+    /**
+     * Imbalance, liquidity within a band of the midpoint, microprice and weighted midpoint of
+     * the cached book of an asset, computed with the `bookMetrics` option.
+     *
+     * Returns null if no book was received for the asset.
+     */
+    public getBookMetrics<F extends DecimalFormat = 'string'>(assetId: string, format?: F): BookMetrics<F> | null {
+        return this.bookCache.bookMetrics(assetId, this.options?.bookMetrics, format);
+    }
+
+    /**
+     * Metadata of a market (condition id) resolved by addMarketSubscriptions, null if unknown.
+     */
+    public getMarketMetadata(conditionId: string): MarketMetadata | null {
+        return this.marketMetadataCache.getMarket(conditionId);
+    }
+
+    /**
+     * Market and outcome of a token of a market resolved by addMarketSubscriptions, null if unknown.
+     */
+    public getAssetMetadata(assetId: string): AssetMetadata | null {
+        return this.marketMetadataCache.getAsset(assetId);
+    }
+
+    /**
+     * Immutable copies of all cached books.
+     */
+    public listBooks<F extends DecimalFormat = 'string'>(format?: F): OrderBook<F>[] {
+        return this.bookCache.assetIds()
+            .map(assetId => this.bookCache.snapshot(assetId, format))
+            .filter((book): book is OrderBook<F> => book !== null);
     }
 
     /*
@@ -90,10 +383,11 @@ class WSSubscriptionManager {
 
         1. Remove all subscriptions and groups
         2. Close all WebSocket connections
-        3. Clear the order book cache
+        3. Clear the order book and market metadata caches
     */
     public async clearState() {
         const previousGroups = await this.groupRegistry.clearAllGroups();
+        this.groupSockets.clear();
 
         // Close sockets outside the lock
         for (const group of previousGroups) {
@@ -102,6 +396,9 @@ class WSSubscriptionManager {
 
         // Also clear the order book cache
         this.bookCache.clear();
+        this.bookMetricsStream?.clear();
+        this.marketMetadataCache.clear();
+        this.metrics?.setBookCacheSize(0);
     }
 
     /* 
@@ -111,8 +408,9 @@ class WSSubscriptionManager {
         depending on the current bid-ask spread (see https://docs.polymarket.com/polymarket-learn/trading/how-are-prices-calculated)
 
         The user handlers will be called **ONLY** for assets that are actively subscribed to by any groups.
+        With the `metadataEnrichment` option, events are annotated with the market and outcome of their token.
     */
-    private async actOnSubscribedEvents<T extends PolymarketWSEvent | PolymarketPriceUpdateEvent>(events: T[], action?: (events: T[]) => Promise<void>) {
+    private async actOnSubscribedEvents<T extends PolymarketWSEvent | PolymarketDerivedEvent>(events: T[], action?: (events: T[]) => Promise<void>) {
 
         // Filter out events that are not subscribed to by any groups
         events = _.filter(events, (event: T) => {
@@ -122,7 +420,7 @@ class WSSubscriptionManager {
                 return event.price_changes.some(price_change_item => {
                     const groupIndices = this.groupRegistry.getGroupIndicesForAsset(price_change_item.asset_id);
                     if (groupIndices.length > 1) {
-                        logger.warn({
+                        this.logger.warn({
                             message: 'Found multiple groups for asset',
                             asset_id: price_change_item.asset_id,
                             group_indices: groupIndices
@@ -137,7 +435,7 @@ class WSSubscriptionManager {
                 const groupIndices = this.groupRegistry.getGroupIndicesForAsset(event.asset_id);
 
                 if (groupIndices.length > 1) {
-                    logger.warn({
+                    this.logger.warn({
                         message: 'Found multiple groups for asset',
                         asset_id: event.asset_id,
                         group_indices: groupIndices
@@ -149,6 +447,13 @@ class WSSubscriptionManager {
             return false;
         });
 
+        // Unknown and expired markets are fetched in the background, without delaying the events
+        const metadataEnricher = this.metadataEnricher;
+        if (action && metadataEnricher) {
+            events = metadataEnricher.enrich(events);
+            this.lifecycle.track(() => metadataEnricher.refreshQueued());
+        }
+
         await action?.(events);
     }
 
@@ -156,14 +461,26 @@ class WSSubscriptionManager {
         Edits wsGroups: Adds new subscriptions.
 
         - Filters out assets that are already subscribed
-        - Finds a group with capacity or creates a new one
+        - Subscribes on the socket of a connected group with capacity, if the server accepts it
+        - Otherwise finds a group with capacity or creates a new one
         - Creates a new WebSocket client and adds it to the group
     */
     public async addSubscriptions(assetIdsToAdd: string[]) {
         try {
-            const groupIdsToConnect = await this.groupRegistry.addAssets(assetIdsToAdd, this.maxMarketsPerWS);
+            this.lifecycle.throwIfDisposed();
+
+            const liveAssetIds = new Set(await this.subscribeOnLiveGroup(assetIdsToAdd));
+            const remainingAssetIds = assetIdsToAdd.filter(id => !liveAssetIds.has(id));
+
+            const groupIdsToConnect = await this.groupRegistry.addAssets(remainingAssetIds, this.maxMarketsPerWS);
+
+            // While stopped, new groups stay pending until the manager is started
+            if (!this.lifecycle.running) {
+                return;
+            }
+
             for (const groupId of groupIdsToConnect) {
-                await this.createWebSocketClient(groupId, this.handlers);
+                await this.lifecycle.track(() => this.createWebSocketClient(groupId, this.handlers));
             }
         } catch (error) {
             const msg = `Error adding subscriptions: ${error instanceof Error ? error.message : String(error)}`;
@@ -171,20 +488,98 @@ class WSSubscriptionManager {
         }
     }
 
+    /**
+     * Subscribe to the tokens of markets given by condition id, market slug or event slug.
+     *
+     * Markets are resolved with the `marketMetadata` provider and cached, so later calls and
+     * getMarketMetadata / getAssetMetadata don't fetch them again. Identifiers that are not
+     * found are reported with onError, the markets that are found are still subscribed.
+     *
+     * Returns the resolved markets, empty if the provider failed.
+     */
+    public async addMarketSubscriptions(query: MarketQuery): Promise<MarketMetadata[]> {
+        try {
+            let { markets, missing } = this.marketMetadataCache.resolve(query);
+            if (!isEmptyQuery(missing)) {
+                this.marketMetadataCache.add(await this.marketMetadataProvider.getMarkets(missing), missing.eventSlugs);
+                ({ markets, missing } = this.marketMetadataCache.resolve(query));
+            }
+
+            if (!isEmptyQuery(missing)) {
+                const notFound = [...missing.conditionIds, ...missing.marketSlugs, ...missing.eventSlugs];
+                await this.handlers.onError?.(new Error(`Markets not found: ${notFound.join(', ')}`));
+            }
+
+            const assetIds = markets.flatMap(market => market.outcomes.map(outcome => outcome.assetId));
+            if (assetIds.length > 0) {
+                await this.addSubscriptions(assetIds);
+            }
+            return markets;
+        } catch (error) {
+            const msg = `Error adding market subscriptions: ${error instanceof Error ? error.message : String(error)}`;
+            await this.handlers.onError?.(new Error(msg));
+            return [];
+        }
+    }
+
     /*  
         Edits wsGroups: Removes subscriptions.
-        The group will use the updated subscriptions when it reconnects.
+        Connected groups are sent an unsubscribe operation, otherwise the group
+        will use the updated subscriptions when it reconnects.
         We do that because we don't want to miss events by reconnecting.
     */
     public async removeSubscriptions(assetIdsToRemove: string[]) {
         try {
+            const assetIdsByGroup = this.groupRegistry.getAssetIdsByGroup(assetIdsToRemove);
             await this.groupRegistry.removeAssets(assetIdsToRemove, this.bookCache);
+            this.bookMetricsStream?.remove(assetIdsToRemove);
+            this.metrics?.setBookCacheSize(this.bookCache.size());
+
+            if (this.liveSubscriptionUpdates) {
+                for (const [groupId, assetIds] of assetIdsByGroup) {
+                    // Events for removed assets are filtered out, so there is nothing to wait for
+                    void this.groupSockets.get(groupId)?.unsubscribe(assetIds);
+                }
+            }
         } catch (error) {
             const errMsg = `Error removing subscriptions: ${error instanceof Error ? error.message : String(error)}`;
             await this.handlers.onError?.(new Error(errMsg));
         }
     }
 
+    /*
+        Adds the assets to a connected group and subscribes to them on its socket.
+
+        If the server rejects the operation the assets are taken out of the group again,
+        and the caller falls back to connecting a new group for them.
+
+        Returns the assetIds that were subscribed on a live socket.
+    */
+    private async subscribeOnLiveGroup(assetIds: string[]): Promise<string[]> {
+        if (!this.liveSubscriptionUpdates || !this.lifecycle.running) {
+            return [];
+        }
+
+        const added = await this.groupRegistry.addAssetsToLiveGroup(assetIds, this.maxMarketsPerWS);
+        if (!added) {
+            return [];
+        }
+
+        const groupSocket = this.groupSockets.get(added.groupId);
+        if (groupSocket && await groupSocket.subscribe(added.assetIds)) {
+            return added.assetIds;
+        }
+
+        this.logger.warn({
+            message: 'Live subscribe failed, falling back to reconnecting',
+            groupId: added.groupId,
+            assetIdsLength: added.assetIds.length,
+        });
+        await this.groupRegistry.removeAssets(added.assetIds, this.bookCache);
+        this.bookMetricsStream?.remove(added.assetIds);
+        return [];
+    }
+
     /*
         This function runs periodically and:
 
@@ -198,11 +593,29 @@ class WSSubscriptionManager {
             for (const groupId of reconnectIds) {
                 await this.createWebSocketClient(groupId, this.handlers);
             }
+
+            // Forget sockets of groups that were cleaned up
+            for (const groupId of Array.from(this.groupSockets.keys())) {
+                if (!this.groupRegistry.findGroupById(groupId)) {
+                    this.groupSockets.delete(groupId);
+                }
+            }
         } catch (err) {
             await this.handlers.onError?.(err as Error);
         }
     }
 
+    /*
+        Called by the reconnect scheduler once the backoff delay of a dead group has passed.
+    */
+    private async reconnectDueGroup(groupId: string) {
+        const group = this.groupRegistry.findGroupById(groupId);
+        if (!this.lifecycle.running || group?.status !== WebSocketStatus.DEAD) {
+            return;
+        }
+        await this.createWebSocketClient(groupId, this.handlers);
+    }
+
     private async createWebSocketClient(groupId: string, handlers: WebSocketHandlers) {
         const group = this.groupRegistry.findGroupById(groupId);
 
@@ -214,7 +627,24 @@ class WSSubscriptionManager {
             return;
         }
 
-        const groupSocket = new GroupSocket(group, this.burstLimiter, this.bookCache, handlers, this.initialDump);
+        // Dead groups are reconnected according to the reconnect policy
+        if (group.status === WebSocketStatus.DEAD && !this.reconnectScheduler.isDue(group)) {
+            return;
+        }
+
+        const groupSocket = new GroupSocket(group, this.burstLimiter, this.bookCache, handlers, this.initialDump, {
+            url: this.options?.wsUrl,
+            wsClientOptions: this.options?.wsClientOptions,
+            pongTimeoutMs: this.options?.pongTimeoutMs,
+            messageSilenceTimeoutMs: this.options?.messageSilenceTimeoutMs,
+            metrics: this.metrics,
+            logger: this.logger,
+            resyncOnDesync: this.options?.resyncOnDesync,
+            bookSnapshotProvider: this.bookSnapshotProvider,
+            priceCalculator: this.options?.priceCalculator,
+            bookMetrics: this.bookMetricsStream,
+        });
+        this.groupSockets.set(groupId, groupSocket);
         try {
             await groupSocket.connect();
         } catch (error) {
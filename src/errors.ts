@@ -0,0 +1,84 @@
+export type PolyWebSocketErrorOptions = {
+    groupId?: string;
+    cause?: unknown;
+    retryable?: boolean;
+};
+
+/**
+ * Base class of the errors passed to `onError`.
+ */
+export class PolyWebSocketError extends Error {
+    public readonly groupId?: string;
+    public readonly cause?: unknown;
+
+    // False when the group stopped reconnecting and was parked as FAILED
+    public readonly retryable: boolean;
+
+    constructor(message: string, options: PolyWebSocketErrorOptions = {}) {
+        super(message);
+        this.name = 'PolyWebSocketError';
+        this.groupId = options.groupId;
+        this.cause = options.cause;
+        this.retryable = options.retryable ?? true;
+    }
+}
+
+export type ConnectionErrorOptions = PolyWebSocketErrorOptions & {
+    code?: number;
+    reason?: string;
+};
+
+/**
+ * The connection failed or was closed by the server.
+ */
+export class ConnectionError extends PolyWebSocketError {
+    public readonly code?: number;
+    public readonly reason?: string;
+
+    constructor(message: string, options: ConnectionErrorOptions = {}) {
+        super(message, options);
+        this.name = 'ConnectionError';
+        this.code = options.code;
+        this.reason = options.reason;
+    }
+}
+
+/**
+ * The server rejected the credentials. Never retried with the same credentials.
+ */
+export class AuthError extends ConnectionError {
+    constructor(message: string, options: ConnectionErrorOptions = {}) {
+        super(message, { ...options, retryable: false });
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * The server sent a message that does not follow the expected protocol.
+ */
+export class ProtocolError extends PolyWebSocketError {
+    constructor(message: string, options: PolyWebSocketErrorOptions = {}) {
+        super(message, options);
+        this.name = 'ProtocolError';
+    }
+}
+
+/**
+ * A message could not be parsed.
+ */
+export class ParseError extends PolyWebSocketError {
+    constructor(message: string, options: PolyWebSocketErrorOptions = {}) {
+        super(message, options);
+        this.name = 'ParseError';
+    }
+}
+
+/**
+ * A user handler threw while processing events.
+ */
+export class HandlerError extends PolyWebSocketError {
+    constructor(message: string, options: PolyWebSocketErrorOptions = {}) {
+        super(message, options);
+        this.name = 'HandlerError';
+    }
+}
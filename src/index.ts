@@ -1,4 +1,18 @@
 export { WSSubscriptionManager, WebSocketHandlers } from './WSSubscriptionManager';
 export { UserWSSubscriptionManager, UserWebSocketHandlers, ApiCredentials, UserSubscriptionManagerOptions } from './UserWSSubscriptionManager';
+export { ExponentialBackoffPolicy, ExponentialBackoffOptions } from './modules/ReconnectPolicy';
+export { PolymarketPriceCalculator, PolymarketPriceCalculatorOptions } from './modules/PriceCalculator';
+export * from './types/PriceCalculator';
+export * from './errors';
+export { PrometheusRegistry } from './modules/PrometheusRegistry';
+export { ClobBookSnapshotProvider, ClobBookSnapshotProviderOptions, CLOB_REST_URL } from './modules/ClobBookSnapshotProvider';
+export * from './types/BookSnapshot';
+export { GammaMarketMetadataProvider, GammaMarketMetadataProviderOptions, GAMMA_API_URL } from './modules/GammaMarketMetadataProvider';
+export * from './types/MarketMetadata';
+export * from './types/OrderBook';
+export { DECIMAL_SCALE, parseDecimal, formatDecimal } from './modules/Decimal';
+export * from './types/Metrics';
+export * from './types/Logger';
+export { fromWinston } from './logger';
 export * from './types/PolymarketWebSocket';
 export * from './types/WebSocketSubscriptions'; 
\ No newline at end of file
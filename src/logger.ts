@@ -1,7 +1,21 @@
 import winston from 'winston';
+import { Logger } from './types/Logger';
+
+/**
+ * Adapt a winston logger to the `Logger` interface.
+ */
+export function fromWinston(winstonLogger: winston.Logger): Logger {
+    return {
+        debug: (entry) => { winstonLogger.debug(entry); },
+        info: (entry) => { winstonLogger.info(entry); },
+        warn: (entry) => { winstonLogger.warn(entry); },
+        error: (entry) => { winstonLogger.error(entry); },
+        child: (fields) => fromWinston(winstonLogger.child(fields)),
+    };
+}
 
 // Override with LOG_LEVEL environment variable (e.g., LOG_LEVEL=info npm start)
-export const logger = winston.createLogger({
+const winstonLogger = winston.createLogger({
     level: process.env.LOG_LEVEL || 'warn',
     format: winston.format.combine(
         winston.format.timestamp(),
@@ -33,4 +47,9 @@ export const logger = winston.createLogger({
             )
         })
     ]
-});
\ No newline at end of file
+});
+
+/**
+ * Used when no `logger` is passed in the manager options.
+ */
+export const defaultLogger: Logger = fromWinston(winstonLogger);
@@ -0,0 +1,99 @@
+import { HandlerError } from '../errors';
+import { BookMetricsOptions } from '../types/OrderBook';
+import { BookMetricsEvent, WebSocketHandlers } from '../types/PolymarketWebSocket';
+import { OrderBookCache } from './OrderBookCache';
+
+const DEFAULT_THROTTLE_MS = 1000;
+
+/**
+ * Emits the metrics of changed books with onBookMetrics, at most once per
+ * `throttleMs` per asset.
+ *
+ * A change within the interval is emitted at its end, with the metrics of the
+ * book at that time, so the metrics are only computed for emitted events.
+ * Shared by the groups of a manager.
+ */
+export class BookMetricsStream {
+    private lastEmittedAt = new Map<string, number>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private throttleMs: number;
+
+    constructor(
+        private bookCache: OrderBookCache,
+        private handlers: Pick<WebSocketHandlers, 'onBookMetrics' | 'onError'>,
+        private options: BookMetricsOptions = {},
+    ) {
+        this.throttleMs = options.throttleMs ?? DEFAULT_THROTTLE_MS;
+    }
+
+    /**
+     * Emit the metrics of a changed book now, or at the end of the current interval.
+     */
+    public async bookChanged(assetId: string): Promise<void> {
+        if (this.timers.has(assetId)) {
+            return;
+        }
+
+        const delayMs = (this.lastEmittedAt.get(assetId) ?? -Infinity) + this.throttleMs - Date.now();
+        if (delayMs <= 0) {
+            await this.emit(assetId);
+            return;
+        }
+
+        this.timers.set(assetId, setTimeout(() => {
+            this.timers.delete(assetId);
+            this.emit(assetId).catch((err) => this.handlers.onError?.(
+                new HandlerError(`Error handling book metrics: ${err}`, { cause: err }),
+            ));
+        }, delayMs));
+    }
+
+    /**
+     * Cancel every pending emission.
+     */
+    public cancelAll(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    /**
+     * Forget the throttling state of removed assets, cancelling their pending emission.
+     */
+    public remove(assetIds: string[]): void {
+        for (const assetId of assetIds) {
+            clearTimeout(this.timers.get(assetId));
+            this.timers.delete(assetId);
+            this.lastEmittedAt.delete(assetId);
+        }
+    }
+
+    /**
+     * Forget the throttling state of every asset, cancelling every pending emission.
+     */
+    public clear(): void {
+        this.cancelAll();
+        this.lastEmittedAt.clear();
+    }
+
+    /*
+        Stale and removed books are skipped, a new snapshot emits their metrics.
+    */
+    private async emit(assetId: string): Promise<void> {
+        const metrics = this.bookCache.bookMetrics(assetId, this.options);
+        if (!metrics || metrics.stale) {
+            return;
+        }
+
+        this.lastEmittedAt.set(assetId, Date.now());
+        const event: BookMetricsEvent = {
+            event_type: 'book_metrics',
+            asset_id: assetId,
+            market: metrics.market,
+            timestamp: metrics.timestamp,
+            metrics,
+        };
+        await this.handlers.onBookMetrics?.([event]);
+    }
+}
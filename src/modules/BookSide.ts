@@ -0,0 +1,175 @@
+import { PriceLevel } from '../types/PolymarketWebSocket';
+import { parseDecimal } from './Decimal';
+
+/**
+ * One side of an order book, sorted so that the best price is last.
+ *
+ * The numeric price of each level is parsed once and kept in `prices`, in the
+ * same order as `levels`. Updates find their level with a binary search, and
+ * inserting or removing a level only moves the levels with a better price,
+ * which are few since most updates happen near the top of the book.
+ *
+ * Numbers compare prices exactly: distinct decimal strings of up to 15 significant
+ * digits parse to distinct numbers, in the same order. Arithmetic on prices uses
+ * the fixed-point values of Decimal instead.
+ */
+export class BookSide {
+    public readonly levels: PriceLevel[] = [];
+    private prices: number[] = [];
+    private parsedBest?: { price: string, units: bigint | null };
+
+    /**
+     * @param descending - Whether prices decrease towards the best price (asks) or increase (bids).
+     * @param levels - Initial levels in any order. Zero-size levels are dropped, the last of duplicated prices wins.
+     */
+    constructor(private descending: boolean, levels: PriceLevel[] = []) {
+        const sorted = levels
+            .filter(level => !isEmptySize(level.size))
+            .map(level => ({ level, price: parseFloat(level.price) }))
+            .sort((a, b) => descending ? b.price - a.price : a.price - b.price);
+
+        for (const { level, price } of sorted) {
+            const last = this.prices.length - 1;
+            if (last >= 0 && this.prices[last] === price) {
+                this.levels[last] = { price: level.price, size: level.size };
+                continue;
+            }
+            // Levels are copied, updates must not modify the event they came from
+            this.levels.push({ price: level.price, size: level.size });
+            this.prices.push(price);
+        }
+    }
+
+    public get length(): number {
+        return this.levels.length;
+    }
+
+    /**
+     * Set the size of a price level, removing the level when the size is zero.
+     * Prices are compared numerically, so '0.5' and '0.50' are the same level.
+     * 
+     * Returns a copy of the level before the update, null if there was none.
+     */
+    public set(price: string, size: string): PriceLevel | null {
+        const value = parseFloat(price);
+        const i = this.search(value);
+        const found = i < this.prices.length && this.prices[i] === value;
+        const previous = found ? { price: this.levels[i].price, size: this.levels[i].size } : null;
+
+        if (isEmptySize(size)) {
+            if (found) {
+                this.levels.splice(i, 1);
+                this.prices.splice(i, 1);
+            }
+            return previous;
+        }
+
+        if (found) {
+            this.levels[i].size = size;
+        } else {
+            this.levels.splice(i, 0, { price, size });
+            this.prices.splice(i, 0, value);
+        }
+        return previous;
+    }
+
+    /**
+     * Levels that differ between this side and `next`, worst price first.
+     * 
+     * The sizes are null for a level that is missing from one of the sides.
+     */
+    public diff(next: BookSide): { price: string, oldSize: string | null, newSize: string | null }[] {
+        const changes: { price: string, oldSize: string | null, newSize: string | null }[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < this.levels.length || j < next.levels.length) {
+            const order = i >= this.levels.length ? 1
+                : j >= next.levels.length ? -1
+                : this.compare(this.prices[i], next.prices[j]);
+
+            if (order < 0) {
+                changes.push({ price: this.levels[i].price, oldSize: this.levels[i].size, newSize: null });
+                i++;
+            } else if (order > 0) {
+                changes.push({ price: next.levels[j].price, oldSize: null, newSize: next.levels[j].size });
+                j++;
+            } else {
+                if (this.levels[i].size !== next.levels[j].size) {
+                    changes.push({ price: next.levels[j].price, oldSize: this.levels[i].size, newSize: next.levels[j].size });
+                }
+                i++;
+                j++;
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Best level, or null if the side is empty.
+     */
+    public best(): PriceLevel | null {
+        return this.levels[this.levels.length - 1] ?? null;
+    }
+
+    /**
+     * Numeric price of the best level, NaN if the side is empty.
+     */
+    public bestPrice(): number {
+        return this.prices.length > 0 ? this.prices[this.prices.length - 1] : NaN;
+    }
+
+    /**
+     * Fixed-point price of the best level, null if the side is empty or the price is not a decimal.
+     */
+    public bestDecimal(): bigint | null {
+        const best = this.best();
+        if (!best) {
+            return null;
+        }
+        // The best price changes far less often than it is read
+        if (this.parsedBest?.price !== best.price) {
+            this.parsedBest = { price: best.price, units: parseDecimal(best.price) };
+        }
+        return this.parsedBest.units;
+    }
+
+    /**
+     * The best `n` levels, best price first.
+     */
+    public top(n: number): PriceLevel[] {
+        if (n <= 0) {
+            return [];
+        }
+        return this.levels.slice(-n).reverse();
+    }
+
+    /*
+        Negative if price `a` is worse than `b`, positive if it is better.
+    */
+    private compare(a: number, b: number): number {
+        return this.descending ? b - a : a - b;
+    }
+
+    /*
+        Index of the first level that is not worse than `price`, i.e. where a level
+        with this price is or would be inserted.
+    */
+    private search(price: number): number {
+        let low = 0;
+        let high = this.prices.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            const worse = this.descending ? this.prices[mid] > price : this.prices[mid] < price;
+            if (worse) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+}
+
+function isEmptySize(size: string): boolean {
+    return parseFloat(size) === 0;
+}
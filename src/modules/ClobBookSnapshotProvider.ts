@@ -0,0 +1,90 @@
+import ms from 'ms';
+import { BookSnapshot, BookSnapshotProvider } from '../types/BookSnapshot';
+import { PriceLevel } from '../types/PolymarketWebSocket';
+
+export const CLOB_REST_URL = 'https://clob.polymarket.com';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = ms('10s');
+
+// Fields of a CLOB book, the timestamp is sent as a string or a number
+type ClobBook = {
+    market?: string;
+    asset_id?: string;
+    timestamp?: string | number;
+    hash?: string;
+    bids: PriceLevel[];
+    asks: PriceLevel[];
+    tick_size?: string;
+};
+
+export type ClobBookSnapshotProviderOptions = {
+    // CLOB REST endpoint, e.g. a local stub (default: CLOB_REST_URL)
+    url?: string;
+
+    // Abort requests that take longer (default: 10s)
+    timeoutMs?: number;
+};
+
+/**
+ * Fetches book snapshots from the CLOB REST `/book` endpoint.
+ */
+export class ClobBookSnapshotProvider implements BookSnapshotProvider {
+    private url: string;
+    private timeoutMs: number;
+
+    constructor(options: ClobBookSnapshotProviderOptions = {}) {
+        this.url = (options.url || CLOB_REST_URL).replace(/\/+$/, '');
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    }
+
+    public async getBook(assetId: string): Promise<BookSnapshot> {
+        const response = await fetch(`${this.url}/book?token_id=${encodeURIComponent(assetId)}`, {
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (!response.ok) {
+            throw new Error(`CLOB /book responded with status ${response.status} for asset ${assetId}`);
+        }
+
+        const book: unknown = await response.json();
+        if (!isClobBook(book)) {
+            throw new Error(`CLOB /book responded with an invalid book for asset ${assetId}: ${JSON.stringify(book)}`);
+        }
+        return {
+            asset_id: book.asset_id ?? assetId,
+            market: book.market ?? '',
+            timestamp: String(book.timestamp ?? ''),
+            hash: book.hash ?? '',
+            bids: book.bids,
+            asks: book.asks,
+            tick_size: book.tick_size,
+        };
+    }
+}
+
+/*
+    A corrupt snapshot would replace a cached book, so the levels are checked before it is used.
+*/
+function isClobBook(body: unknown): body is ClobBook {
+    if (typeof body !== 'object' || body === null) {
+        return false;
+    }
+    const { bids, asks, tick_size } = body as Record<string, unknown>;
+    return isPriceLevels(bids) && isPriceLevels(asks) && (tick_size === undefined || typeof tick_size === 'string');
+}
+
+function isPriceLevels(levels: unknown): levels is PriceLevel[] {
+    return Array.isArray(levels) && levels.every(level =>
+        typeof level === 'object' && level !== null &&
+        typeof level.price === 'string' && typeof level.size === 'string'
+    );
+}
+
+/**
+ * Create the snapshot provider of a manager from its `bookSnapshots` option, undefined when disabled.
+ */
+export function createBookSnapshotProvider(option: boolean | BookSnapshotProvider | undefined): BookSnapshotProvider | undefined {
+    if (!option) {
+        return undefined;
+    }
+    return option === true ? new ClobBookSnapshotProvider() : option;
+}
@@ -0,0 +1,171 @@
+import WebSocket from 'ws';
+import ms from 'ms';
+import { ConnectionLiveness } from '../types/WebSocketSubscriptions';
+
+export const DEFAULT_PONG_TIMEOUT_MS = ms('10s');
+
+const MESSAGE_RATE_WINDOW_MS = ms('1m');
+
+export type ConnectionWatchdogOptions = {
+    // Deadline for the pong answering a ping (default: 10s)
+    pongTimeoutMs?: number;
+
+    // Maximum time without any message, disabled when unset
+    messageSilenceTimeoutMs?: number;
+};
+
+/**
+ * Detects half-open connections that stay open but no longer deliver data.
+ *
+ * A connection is stale when a ping is not answered within `pongTimeoutMs`, or
+ * when no message arrived for `messageSilenceTimeoutMs`. Timestamps and the
+ * ping round-trip time are kept on the group.
+ */
+export class ConnectionWatchdog {
+    private pongTimeoutMs: number;
+    private pingSentAt: number | null = null;
+    private pongTimeout?: NodeJS.Timeout;
+    private silenceTimeout?: NodeJS.Timeout;
+    private startedAt = 0;
+    private stopped = true;
+
+    constructor(
+        private group: { groupId: string, liveness?: ConnectionLiveness },
+        private ws: WebSocket,
+        private options: ConnectionWatchdogOptions,
+        private onStale: (reason: string) => void,
+        private onPingLatency: (rttMs: number) => void,
+    ) {
+        this.pongTimeoutMs = options.pongTimeoutMs ?? DEFAULT_PONG_TIMEOUT_MS;
+    }
+
+    public start(): void {
+        this.stopped = false;
+        this.startedAt = Date.now();
+        this.group.liveness = {
+            lastMessageAt: null,
+            lastPongAt: null,
+            pingRttMs: null,
+            messageCount: 0,
+            messageRateWindow: { startedAt: this.startedAt, count: 0, previousCount: null },
+        };
+
+        if (this.options.messageSilenceTimeoutMs) {
+            this.armSilenceCheck(this.options.messageSilenceTimeoutMs);
+        }
+    }
+
+    /**
+     * Send a ping and arm the pong deadline, unless a previous ping is still unanswered.
+     */
+    public ping(): void {
+        if (this.stopped) {
+            return;
+        }
+
+        this.ws.ping();
+
+        if (this.pingSentAt === null) {
+            this.pingSentAt = Date.now();
+            this.pongTimeout = setTimeout(() => {
+                this.stale(`no pong within ${this.pongTimeoutMs}ms`);
+            }, this.pongTimeoutMs);
+        }
+    }
+
+    public recordPong(): void {
+        if (this.stopped) {
+            return;
+        }
+
+        const now = Date.now();
+        this.group.liveness!.lastPongAt = now;
+
+        if (this.pingSentAt !== null) {
+            const rttMs = now - this.pingSentAt;
+            this.pingSentAt = null;
+            clearTimeout(this.pongTimeout);
+            this.group.liveness!.pingRttMs = rttMs;
+            this.onPingLatency(rttMs);
+        }
+    }
+
+    public recordMessage(): void {
+        if (this.stopped) {
+            return;
+        }
+
+        const now = Date.now();
+        const liveness = this.group.liveness!;
+        liveness.lastMessageAt = now;
+        liveness.messageCount++;
+        rollMessageRateWindow(liveness.messageRateWindow, now);
+        liveness.messageRateWindow.count++;
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        this.pingSentAt = null;
+        clearTimeout(this.pongTimeout);
+        clearTimeout(this.silenceTimeout);
+    }
+
+    /*
+        Messages only update a timestamp. The check re-arms itself for the remaining
+        window instead of resetting a timer on every message.
+    */
+    private armSilenceCheck(delayMs: number) {
+        this.silenceTimeout = setTimeout(() => {
+            const thresholdMs = this.options.messageSilenceTimeoutMs!;
+            const silentForMs = Date.now() - (this.group.liveness!.lastMessageAt ?? this.startedAt);
+
+            if (silentForMs >= thresholdMs) {
+                this.stale(`no message for ${silentForMs}ms`);
+                return;
+            }
+            this.armSilenceCheck(thresholdMs - silentForMs);
+        }, delayMs);
+    }
+
+    private stale(reason: string) {
+        if (this.stopped) {
+            return;
+        }
+        this.stop();
+        this.onStale(reason);
+    }
+}
+
+function rollMessageRateWindow(window: ConnectionLiveness['messageRateWindow'], now: number) {
+    const elapsedMs = now - window.startedAt;
+    if (elapsedMs < MESSAGE_RATE_WINDOW_MS) {
+        return;
+    }
+    window.previousCount = elapsedMs < 2 * MESSAGE_RATE_WINDOW_MS ? window.count : 0;
+    window.count = 0;
+    window.startedAt = now - (elapsedMs % MESSAGE_RATE_WINDOW_MS);
+}
+
+/**
+ * Messages per second over the last minute.
+ *
+ * Approximates a sliding window by weighting the previous fixed window by how
+ * much of it still overlaps the last minute.
+ */
+export function messagesPerSecond(liveness: ConnectionLiveness | undefined, now = Date.now()): number {
+    if (!liveness) {
+        return 0;
+    }
+
+    const window = { ...liveness.messageRateWindow };
+    rollMessageRateWindow(window, now);
+    const elapsedMs = Math.max(now - window.startedAt, 0);
+
+    // Young connections are averaged over their lifetime
+    if (window.previousCount === null) {
+        return window.count / Math.max(elapsedMs / 1000, 1);
+    }
+
+    const previousWeight = 1 - elapsedMs / MESSAGE_RATE_WINDOW_MS;
+    return (window.previousCount * previousWeight + window.count) / (MESSAGE_RATE_WINDOW_MS / 1000);
+}
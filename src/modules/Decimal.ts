@@ -0,0 +1,125 @@
+/*
+ * Exact decimal arithmetic on prices and sizes.
+ *
+ * A value is a bigint number of units of 10^-DECIMAL_SCALE, e.g. '0.5' is
+ * 5 * 10^17 units. Sums and differences are exact, products and quotients are
+ * rounded half away from zero at the last unit, far below any tick size.
+ */
+
+// Decimal places of fixed-point values, enough for prices and USDC sizes (6 decimals)
+export const DECIMAL_SCALE = 18;
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+const ONE = TEN ** BigInt(DECIMAL_SCALE);
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Parse a decimal string, e.g. '0.52' or '1000', into fixed-point units.
+ * 
+ * Digits beyond DECIMAL_SCALE are rounded. Returns null if the string is not a decimal number.
+ */
+export function parseDecimal(value: string): bigint | null {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) {
+        return null;
+    }
+    const [, sign, integer, fraction = ''] = match;
+
+    const digits = fraction.padEnd(DECIMAL_SCALE + 1, '0');
+    let units = BigInt(integer || '0') * ONE + BigInt(digits.slice(0, DECIMAL_SCALE));
+    if (digits.slice(DECIMAL_SCALE) >= '5') {
+        units += BigInt(1);
+    }
+    return sign === '-' ? -units : units;
+}
+
+/**
+ * Format fixed-point units as a decimal string without trailing zeros,
+ * rounded half away from zero to `decimals` places if given.
+ */
+export function formatDecimal(units: bigint, decimals = DECIMAL_SCALE): string {
+    const rounded = roundDecimal(units, decimals);
+    const negative = rounded < ZERO;
+    const digits = (negative ? -rounded : rounded).toString().padStart(DECIMAL_SCALE + 1, '0');
+
+    const integer = digits.slice(0, -DECIMAL_SCALE);
+    const fraction = digits.slice(-DECIMAL_SCALE).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Round fixed-point units half away from zero to `decimals` places.
+ */
+export function roundDecimal(units: bigint, decimals: number): bigint {
+    if (decimals >= DECIMAL_SCALE) {
+        return units;
+    }
+    const step = TEN ** BigInt(DECIMAL_SCALE - Math.max(decimals, 0));
+    return divideRounded(units, step) * step;
+}
+
+/**
+ * Round fixed-point units half away from zero to a multiple of `step` units.
+ */
+export function roundToMultiple(units: bigint, step: bigint): bigint {
+    return divideRounded(units, step) * step;
+}
+
+/**
+ * Convert a number, e.g. an option value, to fixed-point units.
+ * 
+ * Returns null for NaN and infinities.
+ */
+export function numberToDecimal(value: number): bigint | null {
+    const text = String(value);
+    return parseDecimal(/e/i.test(text) ? value.toFixed(DECIMAL_SCALE) : text);
+}
+
+export function multiplyDecimal(a: bigint, b: bigint): bigint {
+    return divideRounded(a * b, ONE);
+}
+
+/**
+ * Quotient of two fixed-point values. Throws a RangeError when dividing by zero.
+ */
+export function divideDecimal(a: bigint, b: bigint): bigint {
+    return divideRounded(a * ONE, b);
+}
+
+/**
+ * Midpoint of two fixed-point values.
+ */
+export function meanDecimal(a: bigint, b: bigint): bigint {
+    return divideRounded(a + b, BigInt(2));
+}
+
+/**
+ * Mean of two fixed-point values weighted by `weightA` and `weightB`.
+ * Throws a RangeError when both weights are zero.
+ */
+export function weightedMeanDecimal(a: bigint, weightA: bigint, b: bigint, weightB: bigint): bigint {
+    return divideDecimal(multiplyDecimal(a, weightA) + multiplyDecimal(b, weightB), weightA + weightB);
+}
+
+/**
+ * Nearest number to fixed-point units, for callers that prefer numbers.
+ */
+export function decimalToNumber(units: bigint): number {
+    return Number(formatDecimal(units));
+}
+
+/*
+    Integer division rounded half away from zero, bigint division truncates.
+*/
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+    const quotient = dividend / divisor;
+    const remainder = dividend % divisor;
+    const absRemainder = remainder < ZERO ? -remainder : remainder;
+    const absDivisor = divisor < ZERO ? -divisor : divisor;
+    if (absRemainder * BigInt(2) >= absDivisor) {
+        return (dividend < ZERO) !== (divisor < ZERO) ? quotient - BigInt(1) : quotient + BigInt(1);
+    }
+    return quotient;
+}
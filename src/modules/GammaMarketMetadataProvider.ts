@@ -0,0 +1,134 @@
+import ms from 'ms';
+import _ from 'lodash';
+import { MarketMetadata, MarketMetadataProvider, MarketQuery } from '../types/MarketMetadata';
+
+export const GAMMA_API_URL = 'https://gamma-api.polymarket.com';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = ms('10s');
+// Keeps URLs short and under the page size of the API
+const DEFAULT_BATCH_SIZE = 50;
+
+// Fields of a Gamma market used here. Lists are sent as JSON encoded strings.
+type GammaMarket = {
+    conditionId?: string;
+    question?: string;
+    slug?: string;
+    outcomes?: string | string[];
+    clobTokenIds?: string | string[];
+    orderPriceMinTickSize?: number | string | null;
+    endDate?: string | null;
+    negRisk?: boolean;
+    events?: { slug?: string }[];
+};
+
+type GammaEvent = {
+    slug?: string;
+    markets?: GammaMarket[];
+};
+
+export type GammaMarketMetadataProviderOptions = {
+    // Gamma REST endpoint, e.g. a local stub (default: GAMMA_API_URL)
+    url?: string;
+
+    // Abort requests that take longer (default: 10s)
+    timeoutMs?: number;
+
+    // Identifiers per request, larger queries are split (default: 50)
+    batchSize?: number;
+};
+
+/**
+ * Fetches market metadata from the Gamma REST `/markets` and `/events` endpoints.
+ */
+export class GammaMarketMetadataProvider implements MarketMetadataProvider {
+    private url: string;
+    private timeoutMs: number;
+    private batchSize: number;
+
+    constructor(options: GammaMarketMetadataProviderOptions = {}) {
+        this.url = (options.url || GAMMA_API_URL).replace(/\/+$/, '');
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+        this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    }
+
+    public async getMarkets(query: MarketQuery): Promise<MarketMetadata[]> {
+        const markets: MarketMetadata[] = [];
+
+        if (query.conditionIds?.length) {
+            const found = await this.get<GammaMarket>('/markets', 'condition_ids', query.conditionIds);
+            markets.push(...found.map(market => toMarketMetadata(market)));
+        }
+        if (query.marketSlugs?.length) {
+            const found = await this.get<GammaMarket>('/markets', 'slug', query.marketSlugs);
+            markets.push(...found.map(market => toMarketMetadata(market)));
+        }
+        if (query.eventSlugs?.length) {
+            const events = await this.get<GammaEvent>('/events', 'slug', query.eventSlugs);
+            for (const event of events) {
+                markets.push(...(event.markets ?? []).map(market => toMarketMetadata(market, event.slug)));
+            }
+        }
+        return markets;
+    }
+
+    /*
+        One request per batch of identifiers, in sequence, results in the order of the batches
+    */
+    private async get<T>(path: string, key: string, values: string[]): Promise<T[]> {
+        const results: T[] = [];
+        for (const batch of _.chunk(values, this.batchSize)) {
+            const params = new URLSearchParams(batch.map(value => [key, value]));
+            params.set('limit', String(batch.length));
+
+            const response = await fetch(`${this.url}${path}?${params}`, {
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+            if (!response.ok) {
+                throw new Error(`Gamma ${path} responded with status ${response.status}`);
+            }
+            const body: unknown = await response.json();
+            if (Array.isArray(body)) {
+                results.push(...body);
+            }
+        }
+        return results;
+    }
+}
+
+/*
+    Gamma sends the outcomes and token ids as JSON encoded arrays, in the same order
+*/
+function toMarketMetadata(market: GammaMarket, eventSlug?: string): MarketMetadata {
+    const assetIds = parseList(market.clobTokenIds);
+    const names = parseList(market.outcomes);
+    const tickSize = market.orderPriceMinTickSize;
+
+    return {
+        conditionId: market.conditionId ?? '',
+        question: market.question ?? '',
+        slug: market.slug ?? '',
+        eventSlug: eventSlug ?? market.events?.[0]?.slug ?? null,
+        outcomes: assetIds.map((assetId, i) => ({ assetId, name: names[i] ?? '' })),
+        tickSize: tickSize === undefined || tickSize === null ? null : String(tickSize),
+        endDate: market.endDate ?? null,
+        negRisk: market.negRisk === true,
+    };
+}
+
+function parseList(value: unknown): string[] {
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            return [];
+        }
+    }
+    return Array.isArray(value) ? value.map(String) : [];
+}
+
+/**
+ * Create the metadata provider of a manager from its `marketMetadata` option.
+ */
+export function createMarketMetadataProvider(option: MarketMetadataProvider | undefined): MarketMetadataProvider {
+    return option ?? new GammaMarketMetadataProvider();
+}
@@ -1,19 +1,25 @@
 import { Mutex } from 'async-mutex';
 import _ from 'lodash';
 import { v4 as uuidv4 } from 'uuid';
-import { WebSocketGroup, WebSocketStatus } from '../types/WebSocketSubscriptions';
+import WebSocket from 'ws';
+import { GroupStatus, WebSocketGroup, WebSocketStatus } from '../types/WebSocketSubscriptions';
 import { OrderBookCache } from './OrderBookCache';
-import { logger } from '../logger';
-
-/*
- * Global group store and mutex, intentionally **not** exported anymore to prevent
- * accidental external mutation.  All access should go through the helper methods
- * on GroupRegistry instead. 
- */
-const wsGroups: WebSocketGroup[] = [];
-const wsGroupsMutex = new Mutex();
+import { closeWebSocket, NORMAL_CLOSURE_CODE } from './closeWebSocket';
+import { retryFailedGroup } from './ReconnectPolicy';
+import { messagesPerSecond } from './ConnectionWatchdog';
+import { defaultLogger } from '../logger';
+import { Logger } from '../types/Logger';
 
 export class GroupRegistry {
+    /*
+     * Group store and mutex, owned by this registry instance so that several
+     * subscription managers in the same process never share or clobber each
+     * other's groups. All access should go through the helper methods below.
+     */
+    private wsGroups: WebSocketGroup[] = [];
+    private wsGroupsMutex = new Mutex();
+
+    constructor(private logger: Logger = defaultLogger) {}
 
     /** 
      * Atomic mutate helper.
@@ -22,8 +28,8 @@ export class GroupRegistry {
      * @returns The result of the function.
      */
     public async mutate<T>(fn: (groups: WebSocketGroup[]) => T | Promise<T>): Promise<T> {
-        const release = await wsGroupsMutex.acquire();
-        try { return await fn(wsGroups); }
+        const release = await this.wsGroupsMutex.acquire();
+        try { return await fn(this.wsGroups); }
         finally { release(); }
     }
 
@@ -33,19 +39,38 @@ export class GroupRegistry {
      * Only to be used in test suite.
      */
     public snapshot(): WebSocketGroup[] {
-        return wsGroups.map(group => ({
+        return this.wsGroups.map(group => ({
             ...group,
             assetIds: new Set(group.assetIds),
         }));
     }
 
+    /**
+     * Public status of every group, skipping groups that are being cleaned up.
+     */
+    public getGroupStatuses(): GroupStatus[] {
+        const now = Date.now();
+        return this.wsGroups
+            .filter(group => group.status !== WebSocketStatus.CLEANUP && group.assetIds.size > 0)
+            .map(group => ({
+                groupId: group.groupId,
+                status: group.status,
+                assetCount: group.assetIds.size,
+                connectedSince: group.status === WebSocketStatus.ALIVE ? group.reconnect?.openedAt ?? null : null,
+                lastMessageAt: group.liveness?.lastMessageAt ?? null,
+                reconnectAttempts: group.reconnect?.attempts ?? 0,
+                pingRttMs: group.liveness?.pingRttMs ?? null,
+                messagesPerSecond: messagesPerSecond(group.liveness, now),
+            }));
+    }
+
     /**
      * Find the first group with capacity to hold new assets.
      * 
      * Returns the groupId if found, otherwise null.
      */
     public findGroupWithCapacity(newAssetLen: number, maxPerWS: number): string | null {
-        for (const group of wsGroups) {
+        for (const group of this.wsGroups) {
             if (group.assetIds.size === 0) continue;
             if (group.assetIds.size + newAssetLen <= maxPerWS) return group.groupId;
         }
@@ -59,17 +84,33 @@ export class GroupRegistry {
      */
     public getGroupIndicesForAsset(assetId: string): number[] {
         const indices: number[] = [];
-        for (let i = 0; i < wsGroups.length; i++) {
-            if (wsGroups[i]?.assetIds.has(assetId)) indices.push(i);
+        for (let i = 0; i < this.wsGroups.length; i++) {
+            if (this.wsGroups[i]?.assetIds.has(assetId)) indices.push(i);
         }
         return indices;
     }
 
+    /**
+     * Group the given assets by the id of the group that contains them.
+     * 
+     * Assets that are not subscribed are left out.
+     */
+    public getAssetIdsByGroup(assetIds: string[]): Map<string, string[]> {
+        const assetIdsByGroup = new Map<string, string[]>();
+        for (const group of this.wsGroups) {
+            const contained = assetIds.filter(id => group.assetIds.has(id));
+            if (contained.length > 0) {
+                assetIdsByGroup.set(group.groupId, contained);
+            }
+        }
+        return assetIdsByGroup;
+    }
+
     /**
      * Check if any group contains the asset.
      */
     public hasAsset(assetId: string): boolean {
-        return wsGroups.some(group => group.assetIds.has(assetId));
+        return this.wsGroups.some(group => group.assetIds.has(assetId));
     }
 
     /**
@@ -78,7 +119,7 @@ export class GroupRegistry {
      * Returns the group if found, otherwise undefined.
      */
     public findGroupById(groupId: string): WebSocketGroup | undefined {
-        return wsGroups.find(g => g.groupId === groupId);
+        return this.wsGroups.find(g => g.groupId === groupId);
     }
 
     /**
@@ -97,6 +138,29 @@ export class GroupRegistry {
         return removed;
     }
 
+    /**
+     * Close the socket of every group with a normal close code while keeping
+     * the assets, so that the groups are reconnected once the manager is
+     * started again.
+     * 
+     * Resolves once every socket has closed.
+     */
+    public async closeAllGroups(timeoutMs: number): Promise<void> {
+        const sockets: WebSocket[] = [];
+        await this.mutate(groups => {
+            for (const group of groups) {
+                if (group.wsClient) {
+                    sockets.push(group.wsClient);
+                    group.wsClient = null;
+                }
+                if (group.status === WebSocketStatus.ALIVE) {
+                    group.status = WebSocketStatus.DEAD;
+                }
+            }
+        });
+        await Promise.all(sockets.map(ws => closeWebSocket(ws, timeoutMs)));
+    }
+
     /**
      * Add new asset subscriptions.
      * 
@@ -169,18 +233,52 @@ export class GroupRegistry {
         });
 
         if (newAssetIds.length > 0) {
-            logger.info({
+            this.logger.info({
                 message: `Added ${newAssetIds.length} new asset(s)`
             })
         }
         return groupIdsToConnect;
     }
 
+    /**
+     * Add new asset subscriptions to a connected group, so that they can be
+     * subscribed to on the open socket instead of reconnecting.
+     * 
+     * – Ignores assets that are already subscribed.
+     * – Only considers ALIVE groups with an open socket and enough capacity.
+     * 
+     * @param assetIds - The assetIds to add.
+     * @param maxPerWS - The maximum number of assets per WebSocket group.
+     * @returns The groupId and the assetIds that were added, or null if no connected group has capacity.
+     */
+    public async addAssetsToLiveGroup(assetIds: string[], maxPerWS: number): Promise<{ groupId: string; assetIds: string[] } | null> {
+        return this.mutate(groups => {
+            const newAssetIds = _.uniq(assetIds.filter(id => !groups.some(g => g.assetIds.has(id))));
+            if (newAssetIds.length === 0) return null;
+
+            const liveGroup = groups.find(g =>
+                g.status === WebSocketStatus.ALIVE &&
+                g.wsClient !== null &&
+                g.assetIds.size > 0 &&
+                g.assetIds.size + newAssetIds.length <= maxPerWS
+            );
+            if (!liveGroup) return null;
+
+            newAssetIds.forEach(id => liveGroup.assetIds.add(id));
+
+            this.logger.info({
+                message: `Added ${newAssetIds.length} new asset(s) to live group`,
+                groupId: liveGroup.groupId,
+            });
+            return { groupId: liveGroup.groupId, assetIds: newAssetIds };
+        });
+    }
+
     /**
      * Remove asset subscriptions from every group that contains the asset.
      * 
      * It should be only one group that contains the asset, we search all of them
-     * regardless.
+     * regardless. Failed groups whose assets changed are set back to pending.
      * 
      * Returns the list of assetIds that were removed.
      */
@@ -190,16 +288,21 @@ export class GroupRegistry {
             groups.forEach(group => {
                 if (group.assetIds.size === 0) return;
 
+                const sizeBefore = group.assetIds.size;
                 assetIds.forEach(id => {
                     if (group.assetIds.delete(id)) {
                         bookCache.clear(id);
                         removedAssetIds.push(id)
                     }
                 });
+
+                if (group.status === WebSocketStatus.FAILED && group.assetIds.size !== sizeBefore) {
+                    retryFailedGroup(group);
+                }
             });
         });
         if (removedAssetIds.length > 0) {
-            logger.info({
+            this.logger.info({
                 message: `Removed ${removedAssetIds.length} asset(s)`
             })
         }
@@ -210,10 +313,10 @@ export class GroupRegistry {
      * Disconnect a group.
      */
     public disconnectGroup(group: WebSocketGroup) {
-        group.wsClient?.close();
+        group.wsClient?.close(NORMAL_CLOSURE_CODE);
         group.wsClient = null;
 
-        logger.info({
+        this.logger.info({
             message: 'Disconnected group',
             groupId: group.groupId,
             assetIds: Array.from(group.assetIds),
@@ -223,9 +326,11 @@ export class GroupRegistry {
     /**
      * Check status of groups and reconnect or cleanup as needed.
      * 
-     * – Empty groups are removed from the global array and returned.
-     * – Dead (but non-empty) groups are reset so that caller can reconnect them.
+     * – Empty groups are removed from the registry.
+     * – Dead (but non-empty) groups are reset so that caller can reconnect them,
+     *   unless a reconnect attempt is still connecting.
      * – Pending groups are returned so that caller can connect them.
+     * – Failed groups are left alone until their assets change.
      * 
      * Returns an array of group IDs that need to be reconnected, after cleaning up empty and cleanup-marked groups.
      */
@@ -246,6 +351,10 @@ export class GroupRegistry {
                 }
 
                 if (group.status === WebSocketStatus.DEAD) {
+                    // A reconnect attempt is still in progress
+                    if (group.wsClient?.readyState === WebSocket.CONNECTING) {
+                        continue;
+                    }
                     this.disconnectGroup(group);
                     reconnectIds.push(group.groupId);
                 }
@@ -1,8 +1,20 @@
 import WebSocket from 'ws';
 import Bottleneck from 'bottleneck';
-import { logger } from '../logger';
+import { defaultLogger } from '../logger';
+import { Logger } from '../types/Logger';
 import { WebSocketGroup, WebSocketStatus } from '../types/WebSocketSubscriptions';
-import { BookEntry, OrderBookCache } from './OrderBookCache';
+import { BookDeltaListener, BookDesync, BookEntry, OrderBookCache } from './OrderBookCache';
+import { NORMAL_CLOSURE_CODE } from './closeWebSocket';
+import { markGroupOpened } from './ReconnectPolicy';
+import { ConnectionWatchdog, ConnectionWatchdogOptions } from './ConnectionWatchdog';
+import { classifyClose, classifySocketError } from './classifyClose';
+import { callDetached } from './callDetached';
+import { ConnectionError, HandlerError, ParseError, PolyWebSocketError, ProtocolError } from '../errors';
+import { SubscriptionMetrics } from './SubscriptionMetrics';
+import { BookSnapshotProvider } from '../types/BookSnapshot';
+import { PriceCalculator } from '../types/PriceCalculator';
+import { PolymarketPriceCalculator } from './PriceCalculator';
+import { BookMetricsStream } from './BookMetricsStream';
 import {
     BookEvent,
     isBookEvent,
@@ -15,15 +27,66 @@ import {
     PolymarketWSEvent,
     WebSocketHandlers,
     PolymarketPriceUpdateEvent,
+    BestBidAskEvent,
+    BookDeltaEvent,
+    BookLevelDelta,
+    MarketPriceUpdateEvent,
+    Side,
 } from '../types/PolymarketWebSocket';
+import { formatDecimal, parseDecimal } from './Decimal';
 import _ from 'lodash';
 import ms from 'ms';
 import { randomInt } from 'crypto';
 
-const CLOB_WSS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+export const CLOB_WSS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+
+// An operation that was not rejected within this window is considered accepted
+const OPERATION_ACK_TIMEOUT_MS = ms('2s');
+
+const ONE = parseDecimal('1')!;
+
+type SubscriptionOperation = 'subscribe' | 'unsubscribe';
+
+type PendingOperation = {
+    operation: SubscriptionOperation;
+    assetIds: string[];
+    timeout: NodeJS.Timeout;
+    resolve: (accepted: boolean) => void;
+};
+
+export type GroupSocketOptions = ConnectionWatchdogOptions & {
+    // Market channel endpoint (default: CLOB_WSS_URL)
+    url?: string;
+
+    // Options passed to the `ws` client, e.g. headers, agent or handshakeTimeout
+    wsClientOptions?: WebSocket.ClientOptions;
+
+    metrics?: SubscriptionMetrics;
+
+    logger?: Logger;
+
+    // Reconnect when a cached book diverged from the server, to receive new snapshots (default: true)
+    resyncOnDesync?: boolean;
+
+    // Refreshes stale books without reconnecting (default: none)
+    bookSnapshotProvider?: BookSnapshotProvider;
+
+    // Derives the price of onPolymarketPriceUpdate (default: PolymarketPriceCalculator)
+    priceCalculator?: PriceCalculator;
+
+    // Receives the changed books of the group, for onBookMetrics (default: none)
+    bookMetrics?: BookMetricsStream;
+};
 
 export class GroupSocket {
     private pingInterval?: NodeJS.Timeout;
+    private watchdog?: ConnectionWatchdog;
+    private pendingOperations: PendingOperation[] = [];
+    private operationsRejected = false;
+    private logger: Logger;
+    private priceCalculator: PriceCalculator;
+    // Price changes received while the snapshot of an asset is fetched, replayed on top of it
+    private snapshotBuffers = new Map<string, PriceChangeEvent[]>();
 
     constructor(
         private group: WebSocketGroup,
@@ -31,7 +94,11 @@ export class GroupSocket {
         private bookCache: OrderBookCache,
         private handlers: WebSocketHandlers,
         private initialDump: boolean = true,
-    ) {}
+        private options: GroupSocketOptions = {},
+    ) {
+        this.logger = (options.logger ?? defaultLogger).child({ groupId: group.groupId });
+        this.priceCalculator = options.priceCalculator ?? new PolymarketPriceCalculator();
+    }
 
     /**
      * Establish the websocket connection using the provided Bottleneck limiter.
@@ -44,21 +111,19 @@ export class GroupSocket {
         }
 
         try {
-            logger.info({
+            this.logger.info({
                 message: 'Connecting to CLOB WebSocket',
-                groupId: this.group.groupId,
                 assetIdsLength: this.group.assetIds.size,
             });
             this.group.wsClient = await this.limiter.schedule({ priority: 0 }, async () => { 
-                const ws = new WebSocket(CLOB_WSS_URL);
+                const ws = new WebSocket(this.options.url || CLOB_WSS_URL, this.options.wsClientOptions);
                 /*
                     This handler will be replaced by the handlers in setupEventHandlers
                 */
                 ws.on('error', (err) => {
-                    logger.warn({
+                    this.logger.warn({
                         message: 'Error connecting to CLOB WebSocket',
                         error: err,
-                        groupId: this.group.groupId,
                         assetIdsLength: this.group.assetIds.size,
                     });
                 });
@@ -72,6 +137,90 @@ export class GroupSocket {
         this.setupEventHandlers();
     }
 
+    /**
+     * Subscribe to additional assets on the open connection, without reconnecting.
+     * 
+     * The assets must already be part of the group. Resolves to false if the
+     * message could not be sent or the server rejected it, in which case the
+     * caller should fall back to reconnecting.
+     */
+    public async subscribe(assetIds: string[]): Promise<boolean> {
+        return this.sendOperation('subscribe', assetIds);
+    }
+
+    /**
+     * Unsubscribe from assets on the open connection, without reconnecting.
+     * 
+     * Resolves to false if the message could not be sent or the server rejected it.
+     * The assets are then only dropped when the group reconnects, events for them
+     * are filtered out in the meantime.
+     */
+    public async unsubscribe(assetIds: string[]): Promise<boolean> {
+        return this.sendOperation('unsubscribe', assetIds);
+    }
+
+    private sendOperation(operation: SubscriptionOperation, assetIds: string[]): Promise<boolean> {
+        const ws = this.group.wsClient;
+        if (
+            this.operationsRejected ||
+            assetIds.length === 0 ||
+            this.group.status !== WebSocketStatus.ALIVE ||
+            !ws ||
+            ws.readyState !== WebSocket.OPEN
+        ) {
+            return Promise.resolve(false);
+        }
+
+        try {
+            ws.send(JSON.stringify({ assets_ids: assetIds, operation }));
+        } catch (err) {
+            this.logger.warn({
+                message: `Failed to send ${operation} operation`,
+                error: err,
+                assetIdsLength: assetIds.length,
+            });
+            return Promise.resolve(false);
+        }
+
+        return new Promise<boolean>((resolve) => {
+            const pending: PendingOperation = {
+                operation,
+                assetIds,
+                resolve,
+                timeout: setTimeout(() => this.settleOperation(pending, true), OPERATION_ACK_TIMEOUT_MS),
+            };
+            this.pendingOperations.push(pending);
+        });
+    }
+
+    private settleOperation(pending: PendingOperation, accepted: boolean) {
+        const index = this.pendingOperations.indexOf(pending);
+        if (index === -1) {
+            return;
+        }
+        this.pendingOperations.splice(index, 1);
+        clearTimeout(pending.timeout);
+        pending.resolve(accepted);
+    }
+
+    private settleAllOperations(accepted: boolean) {
+        for (const pending of [...this.pendingOperations]) {
+            this.settleOperation(pending, accepted);
+        }
+    }
+
+    private stopHeartbeat() {
+        clearInterval(this.pingInterval);
+        this.watchdog?.stop();
+    }
+
+    /*
+        Reports an error from a socket or watchdog callback, which can not wait for onError.
+    */
+    private reportError(error: Error): void {
+        callDetached(this.logger, 'onError', this.handlers.onError, error);
+    }
+
     private setupEventHandlers() {
         const group = this.group;
         const handlers = this.handlers;
@@ -85,6 +234,23 @@ export class GroupSocket {
         /*
             Define handlers within this scope to capture 'this' context
         */
+        const handleStale = (reason: string) => {
+            if (currentWebSocket !== group.wsClient) {
+                return;
+            }
+
+            this.logger.warn({
+                message: 'Terminating stale WebSocket',
+                reason,
+            });
+            group.status = WebSocketStatus.DEAD;
+            this.bookCache.markStale(group.assetIds);
+            this.stopHeartbeat();
+            this.settleAllOperations(false);
+            this.reportError(new ConnectionError(`Stale connection for group ${group.groupId}: ${reason}`, { groupId: group.groupId }));
+            currentWebSocket.terminate();
+        };
+
         const handleOpen = async () => {
             if (group.assetIds.size === 0) {
                 group.status = WebSocketStatus.CLEANUP;
@@ -93,24 +259,24 @@ export class GroupSocket {
 
             // Verify this handler is for the current WebSocket instance
             if (currentWebSocket !== group.wsClient) {
-                logger.warn({
+                this.logger.warn({
                     message: 'handleOpen called for stale WebSocket instance',
-                    groupId: group.groupId,
                 });
                 return;
             }
 
             // Additional safety check for readyState
             if (currentWebSocket.readyState !== WebSocket.OPEN) {
-                logger.warn({
+                this.logger.warn({
                     message: 'handleOpen called but WebSocket is not in OPEN state',
-                    groupId: group.groupId,
                     readyState: currentWebSocket.readyState,
                 });
                 return;
             }
 
             group.status = WebSocketStatus.ALIVE;
+            markGroupOpened(group);
+            this.options.metrics?.connectionOpened();
 
             try {
                 currentWebSocket.send(JSON.stringify({ 
@@ -119,40 +285,53 @@ export class GroupSocket {
                     initial_dump: this.initialDump
                 }));
             } catch (err) {
-                logger.warn({
+                this.logger.warn({
                     message: 'Failed to send subscription message on WebSocket open',
                     error: err,
-                    groupId: group.groupId,
                     assetIdsLength: group.assetIds.size,
                 });
                 group.status = WebSocketStatus.DEAD;
                 return;
             }
+
+            this.watchdog = new ConnectionWatchdog(group, currentWebSocket, this.options, handleStale, (rttMs) => {
+                callDetached(this.logger, 'onPingLatency', handlers.onPingLatency, group.groupId, rttMs);
+            });
+            this.watchdog.start();
+
+            // Without the initial dump, the server sends no snapshot of the books
+            if (!this.initialDump) {
+                void this.refreshBooks(Array.from(group.assetIds));
+            }
+
             await handlers.onWSOpen?.(group.groupId, Array.from(group.assetIds));
 
             this.pingInterval = setInterval(() => {
                 if (group.assetIds.size === 0) {
-                    clearInterval(this.pingInterval);
+                    this.stopHeartbeat();
                     group.status = WebSocketStatus.CLEANUP;
                     return;
                 }
 
                 // Verify we're still using the same WebSocket
                 if (currentWebSocket !== group.wsClient) {
-                    clearInterval(this.pingInterval);
+                    this.stopHeartbeat();
                     return;
                 }
 
                 if (!currentWebSocket || currentWebSocket.readyState !== WebSocket.OPEN) {
-                    clearInterval(this.pingInterval);
+                    this.stopHeartbeat();
                     group.status = WebSocketStatus.DEAD;
                     return;
                 }
-                currentWebSocket.ping();
+                this.watchdog?.ping();
             }, randomInt(ms('15s'), ms('25s')));
         };
 
         const handleMessage = async (data: Buffer) => {
+            this.watchdog?.recordMessage();
+            this.options.metrics?.messageReceived();
+
             try {
                 const messageStr = data.toString();
 
@@ -166,7 +345,24 @@ export class GroupSocket {
                     const parsedData: any = JSON.parse(messageStr);
                     events = Array.isArray(parsedData) ? parsedData : [parsedData];
                 } catch (err) {
-                    await handlers.onError?.(new Error(`Not JSON: ${messageStr}`));
+                    /*
+                        The server answers invalid operations with a plain text message,
+                        so treat it as a rejection of the oldest pending operation. Events keep
+                        streaming before the reply, an operation is only accepted once its ack
+                        window passed.
+                    */
+                    const rejected = this.pendingOperations[0];
+                    if (rejected) {
+                        this.logger.warn({
+                            message: `Server rejected ${rejected.operation} operation`,
+                            response: messageStr,
+                        });
+                        this.operationsRejected = true;
+                        this.settleOperation(rejected, false);
+                        return;
+                    }
+                    this.options.metrics?.parseFailed();
+                    await handlers.onError?.(new ParseError(`Not JSON: ${messageStr}`, { groupId: group.groupId, cause: err }));
                     return;
                 }
 
@@ -183,6 +379,10 @@ export class GroupSocket {
                     return _.size(event.asset_id) > 0;
                 });
 
+                for (const event of events) {
+                    this.options.metrics?.eventReceived(event.event_type);
+                }
+
                 const bookEvents: BookEvent[] = [];
                 const lastTradeEvents: LastTradePriceEvent[] = [];
                 const tickEvents: TickSizeChangeEvent[] = [];
@@ -217,7 +417,7 @@ export class GroupSocket {
                         } else if (isTickSizeChangeEvent(event)) {
                             tickEvents.push(event);
                         } else {
-                            await handlers.onError?.(new Error(`Unknown event: ${JSON.stringify(event)}`));
+                            await handlers.onError?.(new ProtocolError(`Unknown event: ${JSON.stringify(event)}`, { groupId: group.groupId }));
                         }
                     }
                 }
@@ -228,24 +428,41 @@ export class GroupSocket {
                 await this.handleLastTradeEvents(lastTradeEvents);
             } catch (err) {
                 // handler-wide error handling
-                await handlers.onError?.(new Error(`Error handling message: ${err}`));
+                await handlers.onError?.(new HandlerError(`Error handling message: ${err}`, { groupId: group.groupId, cause: err }));
             }
         };
 
         const handlePong = () => {
-            group.groupId;
+            this.watchdog?.recordPong();
         };
 
         const handleError = (err: Error) => {
-            group.status = WebSocketStatus.DEAD;
-            clearInterval(this.pingInterval);
-            handlers.onError?.(new Error(`WebSocket error for group ${group.groupId}: ${err.message}`));
+            const error = classifySocketError(group.groupId, err);
+            group.status = error.retryable ? WebSocketStatus.DEAD : WebSocketStatus.FAILED;
+            this.stopHeartbeat();
+            this.settleAllOperations(false);
+            this.reportError(error);
         };
 
         const handleClose = async (code: number, reason?: Buffer) => {
-            group.status = WebSocketStatus.DEAD;
-            clearInterval(this.pingInterval);
-            await handlers.onWSClose?.(group.groupId, code, reason?.toString() || '');
+            const reasonStr = reason?.toString() || '';
+            const error = classifyClose(group.groupId, code, reasonStr, 'market');
+
+            // A failed handshake is followed by a close, keep the group parked
+            if (group.status !== WebSocketStatus.FAILED) {
+                group.status = error.retryable ? WebSocketStatus.DEAD : WebSocketStatus.FAILED;
+                if (!error.retryable) {
+                    this.reportError(error);
+                }
+            }
+            // Updates are missed until the group reconnects, unless a new socket already replaced this one
+            if (group.wsClient === currentWebSocket || group.wsClient === null) {
+                this.bookCache.markStale(group.assetIds);
+            }
+            this.stopHeartbeat();
+            this.settleAllOperations(false);
+            this.options.metrics?.connectionClosed(code);
+            await handlers.onWSClose?.(group.groupId, code, reasonStr);
         };
 
         // Remove any existing handlers
@@ -266,16 +483,29 @@ export class GroupSocket {
 
     private async handleBookEvents(bookEvents: BookEvent[]): Promise<void> {
         if (bookEvents.length) {
-            for (const event of bookEvents) {
-                this.bookCache.replaceBook(event);
-            }
+            const deltas = bookEvents.map(event => {
+                const eventDeltas = new Map<string, BookLevelDelta[]>();
+                this.bookCache.replaceBook(event, this.deltaListener(eventDeltas));
+                return eventDeltas;
+            });
+            this.options.metrics?.setBookCacheSize(this.bookCache.size());
             await this.handlers.onBook?.(bookEvents);
+
+            for (const [i, event] of bookEvents.entries()) {
+                await this.emitBookDeltas(event, deltas[i]);
+                await this.updateBestBidAsk(event.asset_id, event);
+                await this.options.bookMetrics?.bookChanged(event.asset_id);
+            }
         }
     }
 
     private async handleTickEvents(tickEvents: TickSizeChangeEvent[]): Promise<void> {
         if (tickEvents.length) {
             await this.handlers.onTickSizeChange?.(tickEvents);
+
+            for (const event of tickEvents) {
+                this.bookCache.setTickSize(event.asset_id, event.new_tick_size);
+            }
         }
     }
 
@@ -284,78 +514,142 @@ export class GroupSocket {
             await this.handlers.onPriceChange?.(priceChangeEvents);
 
             for (const event of priceChangeEvents) {
-                try {
-                    this.bookCache.upsertPriceChange(event);
-                } catch (err: any) {
-                    logger.debug({ 
-                        message: `Skipping derived future price calculation price_change: book not found for asset`, 
-                        event: event,
-                        error: err?.message
-                    });
-                    continue;
-                }
+                this.bufferForSnapshots(event);
 
-                // Handle price updates per asset
-                const assetIds: string[] = event.price_changes.map(price_change_item => price_change_item.asset_id);
+                const deltas = new Map<string, BookLevelDelta[]>();
+                const desyncs = this.bookCache.upsertPriceChange(event, this.deltaListener(deltas));
+                await this.emitBookDeltas(event, deltas);
+                await this.handleBookDesyncs(desyncs);
 
+                // Handle top of book and price updates per asset
+                const assetIds = new Set(event.price_changes.map(price_change_item => price_change_item.asset_id));
                 for (const assetId of assetIds) {
-                    let spreadOver10Cents: boolean;
-                    try {
-                        spreadOver10Cents = this.bookCache.spreadOver(assetId, 0.1);
-                    } catch (err: any) {
-                        logger.debug({ 
-                            message: 'Skipping derived future price calculation for price_change: error calculating spread', 
-                            asset_id: assetId, 
-                            event: event,
-                            error: err?.message
-                        });
-                        continue;
-                    }
+                    await this.updateBestBidAsk(assetId, event);
+                    await this.updatePrice(assetId, event);
+                    await this.options.bookMetrics?.bookChanged(assetId);
+                }
+                await this.updateMarketPrice(event);
+            }
+        }
+    }
 
-                    if (!spreadOver10Cents) {
-                        let newPrice: string;
-                        try {
-                            newPrice = this.bookCache.midpoint(assetId);
-                        } catch (err: any) {
-                            logger.debug({ 
-                                message: 'Skipping derived future price calculation for price_change: error calculating midpoint', 
-                                asset_id: assetId, 
-                                event: event,
-                                error: err?.message
-                            });
-                            continue;
-                        }
+    /*
+        A diverged book can no longer be patched by price changes. It is marked stale
+        so that no prices are derived from it, and refreshed from the snapshot provider.
+        Without a provider the group reconnects to receive a new snapshot of every
+        book, which requires the initial dump.
+    */
+    private async handleBookDesyncs(desyncs: BookDesync[]): Promise<void> {
+        if (desyncs.length === 0) {
+            return;
+        }
 
-                        const bookEntry: BookEntry | null = this.bookCache.getBookEntry(assetId);
-                        if (!bookEntry) {
-                            logger.debug({ 
-                                message: 'Skipping derived future price calculation price_change: book not found for asset', 
-                                asset_id: assetId, 
-                                event: event,
-                            });
-                            continue;
-                        }
+        for (const { assetId, ...details } of desyncs) {
+            this.logger.warn({
+                message: 'Cached book diverged from the server',
+                asset_id: assetId,
+                field: details.field,
+                expected: details.expected,
+                actual: details.actual,
+            });
+            this.bookCache.markStale([assetId]);
+            await this.handlers.onBookDesync?.(assetId, details);
+        }
 
-                        if (newPrice !== bookEntry.price) {
-                            bookEntry.price = newPrice;
-                            const priceUpdateEvent: PolymarketPriceUpdateEvent = {
-                                asset_id: assetId,
-                                event_type: 'price_update',
-                                triggeringEvent: event,
-                                timestamp: event.timestamp,
-                                book: { bids: bookEntry.bids, asks: bookEntry.asks },
-                                price: newPrice,
-                                midpoint: bookEntry.midpoint || '',
-                                spread: bookEntry.spread || '',
-                            };
-                            await this.handlers.onPolymarketPriceUpdate?.([priceUpdateEvent]);
-                        }
-                    }
+        if (this.options.bookSnapshotProvider) {
+            void this.refreshBooks(desyncs.map(desync => desync.assetId));
+        } else if ((this.options.resyncOnDesync ?? true) && this.initialDump) {
+            this.resync();
+        }
+    }
+
+    /*
+        Replace books with snapshots from the provider. Requests share the burst limiter
+        with connections. A snapshot is dropped if a book event refreshed the book in the
+        meantime, or if the connection was lost since updates would be missed.
+
+        Price changes received while a snapshot is fetched may be newer than it: they are
+        buffered and the ones after the snapshot timestamp are replayed on top of it.
+        An asset whose snapshot is already being fetched is skipped.
+    */
+    private async refreshBooks(assetIds: string[]): Promise<void> {
+        const provider = this.options.bookSnapshotProvider;
+        const ws = this.group.wsClient;
+        if (!provider) {
+            return;
+        }
+
+        await Promise.all(assetIds.filter(assetId => !this.snapshotBuffers.has(assetId)).map(async (assetId) => {
+            const buffered: PriceChangeEvent[] = [];
+            this.snapshotBuffers.set(assetId, buffered);
+            try {
+                const snapshot = await this.limiter.schedule({ priority: 1 }, () => provider.getBook(assetId));
+                this.snapshotBuffers.delete(assetId);
+
+                const entry = this.bookCache.getBookEntry(assetId);
+                if (
+                    (entry && !entry.stale) ||
+                    !this.group.assetIds.has(assetId) ||
+                    this.group.wsClient !== ws ||
+                    this.group.status !== WebSocketStatus.ALIVE
+                ) {
+                    return;
                 }
+
+                const event: BookEvent = { ...snapshot, asset_id: assetId, event_type: 'book' };
+                const deltas = new Map<string, BookLevelDelta[]>();
+                const onDelta = this.deltaListener(deltas);
+
+                // Without awaiting in between, so no other event is applied before the replay
+                this.bookCache.replaceBook(event, onDelta);
+                const snapshotTime = Number(snapshot.timestamp);
+                const desyncs = buffered
+                    .filter(change => !(Number(change.timestamp) <= snapshotTime))
+                    .flatMap(change => this.bookCache.upsertPriceChange(change, onDelta));
+
+                this.options.metrics?.setBookCacheSize(this.bookCache.size());
+                await this.emitBookDeltas(event, deltas);
+                await this.handleBookDesyncs(desyncs);
+                await this.updateBestBidAsk(assetId, event);
+                await this.options.bookMetrics?.bookChanged(assetId);
+            } catch (err) {
+                this.snapshotBuffers.delete(assetId);
+                await this.handlers.onError?.(new PolyWebSocketError(
+                    `Failed to fetch book snapshot for asset ${assetId}: ${err instanceof Error ? err.message : String(err)}`,
+                    { groupId: this.group.groupId, cause: err },
+                ));
+            }
+        }));
+    }
+
+    /*
+        Keep the price changes of assets whose snapshot is being fetched.
+    */
+    private bufferForSnapshots(event: PriceChangeEvent): void {
+        for (const [assetId, buffered] of this.snapshotBuffers) {
+            const changes = event.price_changes.filter(change => change.asset_id === assetId);
+            if (changes.length > 0) {
+                buffered.push({ ...event, price_changes: changes });
             }
         }
     }
 
+    private resync() {
+        const ws = this.group.wsClient;
+        if (!ws || this.group.status !== WebSocketStatus.ALIVE) {
+            return;
+        }
+
+        this.logger.warn({
+            message: 'Reconnecting to resync books',
+        });
+        this.group.status = WebSocketStatus.DEAD;
+        this.bookCache.markStale(this.group.assetIds);
+        this.stopHeartbeat();
+        this.settleAllOperations(false);
+        ws.close(NORMAL_CLOSURE_CODE, 'book resync');
+    }
+
     private async handleLastTradeEvents(lastTradeEvents: LastTradePriceEvent[]): Promise<void> {
         if (lastTradeEvents.length) {
             /*
@@ -367,48 +661,212 @@ export class GroupSocket {
             await this.handlers.onLastTradePrice?.(lastTradeEvents);
 
             for (const event of lastTradeEvents) {
-                let spreadOver10Cents: boolean;
-                try {
-                    spreadOver10Cents = this.bookCache.spreadOver(event.asset_id, 0.1);
-                } catch (err: any) {
-                    logger.debug({ 
-                        message: 'Skipping derived future price calculation for last_trade_price: error calculating spread', 
-                        asset_id: event.asset_id, 
-                        event: event,
-                        error: err?.message
-                    });
-                    
-                    continue;
-                }
-                if (spreadOver10Cents) {
-                    // Ensure no trailing zeros
-                    const newPrice = parseFloat(event.price).toString();
-
-                    const bookEntry: BookEntry | null = this.bookCache.getBookEntry(event.asset_id);
-                    if (!bookEntry) {
-                        logger.debug({ 
-                            message: 'Skipping derived future price calculation last_trade_price: book not found for asset', 
-                            asset_id: event.asset_id, 
-                            event: event,
-                        });
-                        continue;
-                    }
-                    if (newPrice !== bookEntry.price) {
-                        bookEntry.price = newPrice;
-                        const priceUpdateEvent: PolymarketPriceUpdateEvent = {
-                            asset_id: event.asset_id,
-                            event_type: 'price_update',
-                            triggeringEvent: event,
-                            timestamp: event.timestamp,
-                            book: { bids: bookEntry.bids, asks: bookEntry.asks },
-                            price: newPrice,
-                            midpoint: bookEntry.midpoint || '',
-                            spread: bookEntry.spread || '',
-                        };
-                        await this.handlers.onPolymarketPriceUpdate?.([priceUpdateEvent]);
-                    }
+                const bookEntry = this.bookCache.getBookEntry(event.asset_id);
+                if (bookEntry) {
+                    bookEntry.lastTradePrice = event.price;
                 }
+                await this.updatePrice(event.asset_id, event);
+                await this.updateMarketPrice(event);
             }
         }
     }
-} 
\ No newline at end of file
+
+    /*
+        Collects the deltas of an event per asset. Without an onBookDelta handler
+        there is no listener, so the cache does not compute them.
+    */
+    private deltaListener(deltas: Map<string, BookLevelDelta[]>): BookDeltaListener | undefined {
+        if (!this.handlers.onBookDelta) {
+            return undefined;
+        }
+        return (assetId, delta) => {
+            const assetDeltas = deltas.get(assetId);
+            if (assetDeltas) {
+                assetDeltas.push(delta);
+            } else {
+                deltas.set(assetId, [delta]);
+            }
+        };
+    }
+
+    /*
+        Emit the deltas of an event, one event per changed book.
+    */
+    private async emitBookDeltas(event: BookEvent | PriceChangeEvent, deltas: Map<string, BookLevelDelta[]>): Promise<void> {
+        for (const [assetId, assetDeltas] of deltas) {
+            const bookDeltaEvent: BookDeltaEvent = {
+                event_type: 'book_delta',
+                asset_id: assetId,
+                market: event.market,
+                timestamp: event.timestamp,
+                triggeringEvent: event,
+                deltas: assetDeltas,
+            };
+            await this.handlers.onBookDelta?.([bookDeltaEvent]);
+        }
+    }
+
+    /*
+        Emit the top of the book of an asset if it changed. Stale books are skipped,
+        the change is emitted once a new snapshot replaced them.
+    */
+    private async updateBestBidAsk(assetId: string, event: BookEvent | PriceChangeEvent): Promise<void> {
+        if (this.bookCache.getBookEntry(assetId)?.stale ?? true) {
+            return;
+        }
+
+        const top = this.bookCache.topChange(assetId);
+        if (!top) {
+            return;
+        }
+
+        const bestBidAskEvent: BestBidAskEvent = {
+            event_type: 'best_bid_ask',
+            asset_id: assetId,
+            market: event.market,
+            timestamp: event.timestamp,
+            triggeringEvent: event,
+            best_bid: top.bestBid?.price ?? null,
+            best_bid_size: top.bestBid?.size ?? null,
+            best_ask: top.bestAsk?.price ?? null,
+            best_ask_size: top.bestAsk?.size ?? null,
+            spread: this.bookCache.currentSpread(assetId),
+        };
+        await this.handlers.onBestBidAsk?.([bestBidAskEvent]);
+    }
+
+    /*
+        Derive the price of an asset after an event and emit it if it changed.
+        No prices are derived from stale books.
+    */
+    private async updatePrice(assetId: string, event: PriceChangeEvent | LastTradePriceEvent): Promise<void> {
+        const bookEntry: BookEntry | null = this.bookCache.getBookEntry(assetId);
+        if (!bookEntry) {
+            this.logger.debug({ 
+                message: `Skipping derived future price calculation ${event.event_type}: book not found for asset`, 
+                asset_id: assetId, 
+                event: event,
+            });
+            return;
+        }
+        if (bookEntry.stale) {
+            return;
+        }
+
+        let newPrice: string | null;
+        try {
+            newPrice = this.priceCalculator.price({
+                assetId,
+                bids: bookEntry.bids,
+                asks: bookEntry.asks,
+                lastTradePrice: bookEntry.lastTradePrice,
+                tickSize: bookEntry.tickSize,
+                triggeringEvent: event,
+            });
+        } catch (err) {
+            await this.handlers.onError?.(new PolyWebSocketError(
+                `Failed to calculate price for asset ${assetId}: ${err instanceof Error ? err.message : String(err)}`,
+                { groupId: this.group.groupId, cause: err },
+            ));
+            return;
+        }
+
+        if (newPrice === null || newPrice === bookEntry.price) {
+            return;
+        }
+
+        bookEntry.price = newPrice;
+        bookEntry.midpoint = this.bookCache.currentMidpoint(assetId);
+        bookEntry.spread = this.bookCache.currentSpread(assetId);
+        const priceUpdateEvent: PolymarketPriceUpdateEvent = {
+            asset_id: assetId,
+            event_type: 'price_update',
+            triggeringEvent: event,
+            timestamp: event.timestamp,
+            book: { bids: bookEntry.bids, asks: bookEntry.asks },
+            price: newPrice,
+            midpoint: bookEntry.midpoint || '',
+            spread: bookEntry.spread || '',
+        };
+        this.options.metrics?.priceUpdateEmitted();
+        await this.handlers.onPolymarketPriceUpdate?.([priceUpdateEvent]);
+    }
+
+    /*
+        Derive the price of the binary market of an event from the merged book of its two
+        tokens and emit it if it changed. A trade of the other token reaches the calculator
+        as the mirrored trade of the token of the merged book.
+    */
+    private async updateMarketPrice(event: PriceChangeEvent | LastTradePriceEvent): Promise<void> {
+        if (!this.handlers.onMarketPriceUpdate) {
+            return;
+        }
+        const book = this.bookCache.marketBook(event.market);
+        if (!book || book.stale) {
+            return;
+        }
+
+        let newPrice: string | null;
+        try {
+            let triggeringEvent = event;
+            if (event.event_type === 'last_trade_price' && event.asset_id === book.complementAssetId) {
+                triggeringEvent = {
+                    ...event,
+                    asset_id: book.assetId,
+                    price: complementPrice(event.price),
+                    side: event.side === Side.BUY ? Side.SELL : Side.BUY,
+                };
+            }
+            const complementLastTrade = this.bookCache.getBookEntry(book.complementAssetId)?.lastTradePrice ?? null;
+            const lastTradePrice = triggeringEvent.event_type === 'last_trade_price'
+                ? triggeringEvent.price
+                : this.bookCache.getBookEntry(book.assetId)?.lastTradePrice ?? (complementLastTrade && complementPrice(complementLastTrade));
+
+            newPrice = this.priceCalculator.price({
+                assetId: book.assetId,
+                bids: book.bids,
+                asks: book.asks,
+                lastTradePrice,
+                tickSize: book.tickSize,
+                triggeringEvent,
+            });
+        } catch (err) {
+            await this.handlers.onError?.(new PolyWebSocketError(
+                `Failed to calculate price for market ${event.market}: ${err instanceof Error ? err.message : String(err)}`,
+                { groupId: this.group.groupId, cause: err },
+            ));
+            return;
+        }
+
+        if (newPrice === null || newPrice === this.bookCache.marketPrice(event.market)) {
+            return;
+        }
+
+        this.bookCache.setMarketPrice(event.market, newPrice);
+        const marketPriceUpdateEvent: MarketPriceUpdateEvent = {
+            event_type: 'market_price_update',
+            market: event.market,
+            asset_id: book.assetId,
+            complement_asset_id: book.complementAssetId,
+            timestamp: event.timestamp,
+            triggeringEvent: event,
+            book: { bids: [...book.bids], asks: [...book.asks] },
+            price: newPrice,
+            complement_price: complementPrice(newPrice),
+            midpoint: book.midpoint,
+            spread: book.spread,
+        };
+        await this.handlers.onMarketPriceUpdate([marketPriceUpdateEvent]);
+    }
+} 
+
+/*
+    Price of the other outcome of a binary market, the prices of both add up to 1
+*/
+function complementPrice(price: string): string {
+    const units = parseDecimal(price);
+    if (units === null) {
+        throw new Error(`Not a decimal: '${price}'`);
+    }
+    return formatDecimal(ONE - units);
+}
@@ -0,0 +1,160 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// A tracked call, and the tracked call it was made from
+type TrackedCall = { promise?: Promise<unknown>; parent?: TrackedCall };
+
+export type ManagerLifecycleHooks = {
+    // Runs on each tick of the reconnect and cleanup loop
+    tick: () => Promise<void>;
+
+    // Cancels the timers of the manager, before stop() waits for in-flight calls
+    cancel: () => void;
+
+    // Closes every connection, once pending connects settled
+    closeAll: () => Promise<void>;
+
+    // Cancels what the remaining calls scheduled, once they settled
+    afterDrain?: () => void;
+
+    // Clears the subscriptions and caches on dispose()
+    clearState: () => Promise<void>;
+
+    // Stops what the manager owns on dispose(), e.g. its rate limiter
+    release: () => Promise<void>;
+};
+
+/**
+ * Start, stop and dispose sequence of a subscription manager, and the calls
+ * stop() waits for. Shared by the market and user channel managers.
+ *
+ * Calls are tracked with track() or tracked(). The calls a tracked call makes
+ * run in its context, so stop() called from a handler does not wait for the
+ * calls it was made from.
+ */
+export class ManagerLifecycle {
+    private reconnectInterval: NodeJS.Timeout | null = null;
+    private inFlight = new Set<Promise<unknown>>();
+    private currentCall = new AsyncLocalStorage<TrackedCall>();
+    private isDisposed = false;
+
+    constructor(
+        private name: string,
+        private intervalMs: number,
+        private hooks: ManagerLifecycleHooks,
+    ) {}
+
+    /**
+     * Whether the reconnect and cleanup loop runs.
+     */
+    public get running(): boolean {
+        return this.reconnectInterval !== null;
+    }
+
+    public get disposed(): boolean {
+        return this.isDisposed;
+    }
+
+    /**
+     * Throws once the manager has been disposed.
+     */
+    public throwIfDisposed(): void {
+        if (this.isDisposed) {
+            throw new Error(`${this.name} has been disposed`);
+        }
+    }
+
+    /**
+     * Starts the reconnect and cleanup loop, unless it runs already.
+     */
+    public start(): void {
+        this.throwIfDisposed();
+        if (this.reconnectInterval) {
+            return;
+        }
+
+        this.reconnectInterval = setInterval(() => {
+            this.track(() => this.hooks.tick());
+        }, this.intervalMs);
+    }
+
+    /**
+     * Cancels the loop, waits for pending connects, closes every connection
+     * and waits for the remaining calls, then cancels what they scheduled.
+     */
+    public async stop(): Promise<void> {
+        if (this.reconnectInterval) {
+            clearInterval(this.reconnectInterval);
+            this.reconnectInterval = null;
+        }
+        this.hooks.cancel();
+
+        // Let pending connects settle so that no socket is opened after closing
+        await Promise.allSettled(this.othersInFlight());
+        await this.hooks.closeAll();
+
+        // No new messages arrive past this point, wait for the remaining handler calls
+        await this.drainInFlight();
+        this.hooks.afterDrain?.();
+    }
+
+    /**
+     * Stops the manager, clears its state and releases what it owns, once.
+     */
+    public async dispose(): Promise<void> {
+        if (this.isDisposed) {
+            return;
+        }
+        this.isDisposed = true;
+
+        await this.stop();
+        await this.hooks.clearState();
+        await this.hooks.release();
+    }
+
+    /**
+     * Keeps track of a pending call so that stop() can wait for it to settle.
+     */
+    public track<T>(run: () => Promise<T>): Promise<T> {
+        const call: TrackedCall = { parent: this.currentCall.getStore() };
+        const promise = this.currentCall.run(call, run);
+        call.promise = promise;
+        this.inFlight.add(promise);
+        promise.then(
+            () => this.inFlight.delete(promise),
+            () => this.inFlight.delete(promise)
+        );
+        return promise;
+    }
+
+    /**
+     * Wraps a handler so that each of its calls is tracked.
+     */
+    public tracked<A extends unknown[]>(handler?: (...args: A) => Promise<void>): ((...args: A) => Promise<void>) | undefined {
+        if (!handler) {
+            return undefined;
+        }
+        return (...args: A) => this.track(() => Promise.resolve(handler(...args)));
+    }
+
+    /*
+        In-flight calls, without the ones stop() was called from: a handler
+        stopping the manager can not wait for itself to return.
+    */
+    private othersInFlight(): Promise<unknown>[] {
+        const callers = new Set<Promise<unknown>>();
+        for (let call = this.currentCall.getStore(); call; call = call.parent) {
+            if (call.promise) {
+                callers.add(call.promise);
+            }
+        }
+        return Array.from(this.inFlight).filter(promise => !callers.has(promise));
+    }
+
+    private async drainInFlight() {
+        let pending = this.othersInFlight();
+        while (pending.length > 0) {
+            await Promise.allSettled(pending);
+            pending = this.othersInFlight();
+        }
+    }
+}
@@ -0,0 +1,121 @@
+import { AssetMetadata, MarketMetadata, MarketQuery } from '../types/MarketMetadata';
+
+export type ResolvedMarkets = {
+    // Markets found for the query, once each
+    markets: MarketMetadata[];
+
+    // Identifiers of the query that are not cached
+    missing: Required<MarketQuery>;
+};
+
+/**
+ * Market metadata fetched by a manager, indexed by condition id, slugs and token.
+ *
+ * Entries are kept until cleared, the fetch time of each market lets the
+ * metadata enrichment refresh the older ones.
+ */
+export class MarketMetadataCache {
+    private markets = new Map<string, MarketMetadata>();
+    private conditionIdsBySlug = new Map<string, string>();
+    private conditionIdsByEventSlug = new Map<string, string[]>();
+    private assets = new Map<string, AssetMetadata>();
+    private fetchTimes = new Map<string, number>();
+
+    /**
+     * Cache markets returned by a provider.
+     *
+     * An event slug is only indexed when it was queried, as the markets of an
+     * event are complete only then.
+     */
+    public add(markets: MarketMetadata[], eventSlugs: string[] = []): void {
+        for (const market of markets) {
+            if (!market.conditionId) {
+                continue;
+            }
+            this.markets.set(market.conditionId, market);
+            this.fetchTimes.set(market.conditionId, Date.now());
+            if (market.slug) {
+                this.conditionIdsBySlug.set(market.slug, market.conditionId);
+            }
+            for (const outcome of market.outcomes) {
+                this.assets.set(outcome.assetId, { market, outcome });
+            }
+        }
+
+        for (const eventSlug of eventSlugs) {
+            const conditionIds = markets
+                .filter(market => market.conditionId && market.eventSlug === eventSlug)
+                .map(market => market.conditionId);
+            if (conditionIds.length > 0) {
+                this.conditionIdsByEventSlug.set(eventSlug, conditionIds);
+            }
+        }
+    }
+
+    /**
+     * Cached markets matching a query, and the identifiers that are not cached.
+     */
+    public resolve(query: MarketQuery): ResolvedMarkets {
+        const markets = new Map<string, MarketMetadata>();
+        const missing: Required<MarketQuery> = { conditionIds: [], marketSlugs: [], eventSlugs: [] };
+
+        const addMarket = (conditionId: string | undefined): boolean => {
+            const market = conditionId === undefined ? undefined : this.markets.get(conditionId);
+            if (market) {
+                markets.set(market.conditionId, market);
+            }
+            return market !== undefined;
+        };
+
+        for (const conditionId of query.conditionIds ?? []) {
+            if (!addMarket(conditionId)) {
+                missing.conditionIds.push(conditionId);
+            }
+        }
+        for (const slug of query.marketSlugs ?? []) {
+            if (!addMarket(this.conditionIdsBySlug.get(slug))) {
+                missing.marketSlugs.push(slug);
+            }
+        }
+        for (const eventSlug of query.eventSlugs ?? []) {
+            const conditionIds = this.conditionIdsByEventSlug.get(eventSlug);
+            if (conditionIds) {
+                conditionIds.forEach(addMarket);
+            } else {
+                missing.eventSlugs.push(eventSlug);
+            }
+        }
+
+        return { markets: [...markets.values()], missing };
+    }
+
+    public getMarket(conditionId: string): MarketMetadata | null {
+        return this.markets.get(conditionId) ?? null;
+    }
+
+    public getAsset(assetId: string): AssetMetadata | null {
+        return this.assets.get(assetId) ?? null;
+    }
+
+    /**
+     * When the metadata of a market was cached, in milliseconds since the epoch, null if unknown.
+     */
+    public getFetchedAt(conditionId: string): number | null {
+        return this.fetchTimes.get(conditionId) ?? null;
+    }
+
+    public clear(): void {
+        this.markets.clear();
+        this.fetchTimes.clear();
+        this.conditionIdsBySlug.clear();
+        this.conditionIdsByEventSlug.clear();
+        this.assets.clear();
+    }
+}
+
+/**
+ * True when a query has no identifiers left to resolve.
+ */
+export function isEmptyQuery(query: MarketQuery): boolean {
+    return !query.conditionIds?.length && !query.marketSlugs?.length && !query.eventSlugs?.length;
+}
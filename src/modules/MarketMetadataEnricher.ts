@@ -0,0 +1,125 @@
+import ms from 'ms';
+import _ from 'lodash';
+import { MarketMetadataProvider, MetadataEnrichmentOptions, OutcomeMetadata } from '../types/MarketMetadata';
+import { PolymarketDerivedEvent, PolymarketWSEvent, WebSocketHandlers } from '../types/PolymarketWebSocket';
+import { MarketMetadataCache } from './MarketMetadataCache';
+import { OrderBookCache } from './OrderBookCache';
+
+const DEFAULT_TTL_MS = ms('1h');
+// Markets that could not be fetched are retried at most this often
+const RETRY_INTERVAL_MS = ms('1m');
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Attaches the market and outcome of their token to book, price change, last
+ * trade price and price update events.
+ *
+ * Events are annotated with the cached metadata without waiting for a request:
+ * unknown and expired markets are queued by enrich() and fetched in batches by
+ * refreshQueued(), so their later events carry the new metadata.
+ */
+export class MarketMetadataEnricher {
+    private ttlMs: number;
+    private batchSize: number;
+    private queued = new Set<string>();
+    private refreshing = new Set<string>();
+    private lastAttemptAt = new Map<string, number>();
+
+    constructor(
+        private metadataCache: MarketMetadataCache,
+        private provider: MarketMetadataProvider,
+        private bookCache: OrderBookCache,
+        private handlers: Pick<WebSocketHandlers, 'onError'>,
+        options: MetadataEnrichmentOptions = {},
+    ) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+        this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    }
+
+    /**
+     * Copies of the events with a `metadata` field, on each item of price change events.
+     * Events of other types, and of tokens without metadata, are returned as is.
+     */
+    public enrich<T extends PolymarketWSEvent | PolymarketDerivedEvent>(events: T[]): T[] {
+        return events.map((event): T => {
+            const e = event as PolymarketWSEvent | PolymarketDerivedEvent;
+            switch (e.event_type) {
+                case 'book':
+                case 'last_trade_price':
+                    return this.withMetadata(event, e.asset_id, e.market);
+                case 'price_update':
+                    return this.withMetadata(event, e.asset_id, e.triggeringEvent.market);
+                case 'price_change':
+                    return {
+                        ...e,
+                        price_changes: e.price_changes.map(item => this.withMetadata(item, item.asset_id, e.market)),
+                    } as T;
+                default:
+                    return event;
+            }
+        });
+    }
+
+    /**
+     * Fetch the markets queued by enrich(), in batches. Errors are reported with onError,
+     * the markets of a failed batch are retried by a later enrich() after the retry interval.
+     */
+    public async refreshQueued(): Promise<void> {
+        const conditionIds = [...this.queued];
+        this.queued.clear();
+
+        const now = Date.now();
+        for (const conditionId of conditionIds) {
+            this.refreshing.add(conditionId);
+            this.lastAttemptAt.set(conditionId, now);
+        }
+        for (const batch of _.chunk(conditionIds, this.batchSize)) {
+            try {
+                this.metadataCache.add(await this.provider.getMarkets({ conditionIds: batch }));
+            } catch (error) {
+                const msg = `Error refreshing market metadata: ${error instanceof Error ? error.message : String(error)}`;
+                await this.handlers.onError?.(new Error(msg));
+            } finally {
+                batch.forEach(conditionId => this.refreshing.delete(conditionId));
+            }
+        }
+    }
+
+    private withMetadata<E>(event: E, assetId: string, conditionId: string): E {
+        const asset = this.metadataCache.getAsset(assetId);
+        this.queueIfExpired(asset?.market.conditionId ?? conditionId);
+        if (!asset) {
+            return event;
+        }
+
+        const { market, outcome } = asset;
+        const metadata: OutcomeMetadata = {
+            question: market.question,
+            outcome: outcome.name,
+            slug: market.slug,
+            endDate: market.endDate,
+            negRisk: market.negRisk,
+            tickSize: this.bookCache.getBookEntry(assetId)?.tickSize ?? market.tickSize,
+        };
+        return { ...event, metadata };
+    }
+
+    /*
+        Expired markets keep annotating events until the refresh replaces them.
+    */
+    private queueIfExpired(conditionId: string): void {
+        if (!conditionId || this.refreshing.has(conditionId)) {
+            return;
+        }
+        const now = Date.now();
+        const fetchedAt = this.metadataCache.getFetchedAt(conditionId);
+        if (fetchedAt !== null && now - fetchedAt < this.ttlMs) {
+            return;
+        }
+        const lastAttemptAt = this.lastAttemptAt.get(conditionId);
+        if (lastAttemptAt !== undefined && now - lastAttemptAt < Math.min(this.ttlMs, RETRY_INTERVAL_MS)) {
+            return;
+        }
+        this.queued.add(conditionId);
+    }
+}
@@ -1,9 +1,40 @@
-import _ from 'lodash';
 import {
+    BookDesyncDetails,
     BookEvent,
+    BookLevelDelta,
     PriceChangeEvent,
+    PriceChangeItem,
     PriceLevel,
+    Side,
 } from '../types/PolymarketWebSocket';
+import { BookHashFunction } from '../types/WebSocketSubscriptions';
+import {
+    BestBidAsk,
+    BookLevel,
+    BookMetrics,
+    BookMetricsOptions,
+    DecimalFormat,
+    DecimalValue,
+    DepthLevel,
+    FillAmount,
+    FillEstimate,
+    MarketBook,
+    OrderBook,
+} from '../types/OrderBook';
+import { Logger } from '../types/Logger';
+import { defaultLogger } from '../logger';
+import { BookSide } from './BookSide';
+import { isOnTickGrid, midpointDecimals } from './tickSize';
+import {
+    decimalToNumber,
+    divideDecimal,
+    formatDecimal,
+    meanDecimal,
+    multiplyDecimal,
+    numberToDecimal,
+    parseDecimal,
+    weightedMeanDecimal,
+} from './Decimal';
 
 /*
  * Shared book cache store – exported so legacy code paths can keep using it
@@ -15,93 +46,271 @@ export interface BookEntry {
     price: string | null;
     midpoint: string | null;
     spread: string | null;
-}
 
-export 
+    // Price of the last trade, from `last_trade_price` events
+    lastTradePrice: string | null;
 
-function sortDescendingInPlace(bookSide: PriceLevel[]): void {
-    bookSide.sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
-}
+    // Minimum tick size, from `book` events, snapshots or `tick_size_change` events
+    tickSize: string | null;
 
-function sortAscendingInPlace(bookSide: PriceLevel[]): void {
-    bookSide.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
+    // Set when updates may have been missed, e.g. after a disconnect, until a new snapshot replaces the book
+    stale: boolean;
 }
 
+export type BookIntegrityOptions = {
+    // Check the best bid / ask sent with each price change (default: true)
+    verifyBestBidAsk?: boolean;
+
+    // Check the hash sent with each price change (default: disabled)
+    bookHash?: BookHashFunction;
+};
+
+export type BookDesync = BookDesyncDetails & {
+    assetId: string;
+};
+
+/**
+ * Receives the levels changed while applying an event, see replaceBook and upsertPriceChange
+ */
+export type BookDeltaListener = (assetId: string, delta: BookLevelDelta) => void;
+
+/*
+ * Both sides keep the best price last, which is also the order of Polymarket
+ * book events:
+ * - bids (buys) ascending
+ * - asks (sells) descending
+ *
+ * The entry exposes the levels of the sides, so it always reflects the book.
+ */
+type CachedBook = {
+    entry: BookEntry;
+    bids: BookSide;
+    asks: BookSide;
+    market: string;
+
+    // Timestamp of the last applied event
+    timestamp: string;
+
+    // Top of the book when topChange was last called
+    reportedTop: TopOfBook | null;
+};
+
+export type TopOfBook = {
+    bestBid: PriceLevel | null;
+    bestAsk: PriceLevel | null;
+};
+
+const ZERO = BigInt(0);
+const ONE = parseDecimal('1')!;
+const DEFAULT_SPREAD_THRESHOLD = 0.1;
+const DEFAULT_SPREAD_THRESHOLD_UNITS = numberToDecimal(DEFAULT_SPREAD_THRESHOLD)!;
+const DEFAULT_METRICS_DEPTH_LEVELS = 5;
+const DEFAULT_LIQUIDITY_BAND = '0.05';
+
 export class OrderBookCache {
-    private bookCache: { 
-        [assetId: string]: BookEntry 
-    } = {};
+    private books = new Map<string, CachedBook>();
 
-    constructor() {}
+    // Asset ids of the cached books of each market
+    private markets = new Map<string, Set<string>>();
+
+    // Last price emitted with onMarketPriceUpdate, per market
+    private marketPrices = new Map<string, string>();
+
+    constructor(
+        private logger: Logger = defaultLogger,
+        private integrity: BookIntegrityOptions = {},
+    ) {}
 
     /**
      * Replace full book (after a `book` event)
+     * 
+     * `onDelta` receives the levels that differ from the replaced book, every
+     * level of the event if the book was not cached.
      */
-    public replaceBook(event: BookEvent): void {
-        let lastPrice = null;
-        let lastMidpoint = null;
-        let lastSpread = null;
-        if (this.bookCache[event.asset_id]) {
-            lastPrice = this.bookCache[event.asset_id].price;
-            lastMidpoint = this.bookCache[event.asset_id].midpoint;
-            lastSpread = this.bookCache[event.asset_id].spread;
-        }
-
-        this.bookCache[event.asset_id] = {
-            bids: [...event.bids],
-            asks: [...event.asks],
-            price: lastPrice,
-            midpoint: lastMidpoint,
-            spread: lastSpread,
-        };
+    public replaceBook(event: BookEvent, onDelta?: BookDeltaListener): void {
+        const previous = this.books.get(event.asset_id)?.entry;
+        const bids = new BookSide(false, event.bids);
+        const asks = new BookSide(true, event.asks);
+
+        if (onDelta) {
+            const replaced = this.books.get(event.asset_id);
+            for (const [side, before, after] of [
+                [Side.BUY, replaced?.bids ?? new BookSide(false), bids],
+                [Side.SELL, replaced?.asks ?? new BookSide(true), asks],
+            ] as const) {
+                for (const change of before.diff(after)) {
+                    onDelta(event.asset_id, levelDelta(side, change.price, change.oldSize, change.newSize));
+                }
+            }
+        }
 
-        /* Polymarket book events are currently sorted as such:
-         * - bids (buys) ascending
-         * - asks (sells) descending
-         * 
-         * So we maintain this order in the cache.
-         */
-        sortAscendingInPlace(this.bookCache[event.asset_id].bids);
-        sortDescendingInPlace(this.bookCache[event.asset_id].asks);
+        this.books.set(event.asset_id, {
+            entry: {
+                bids: bids.levels,
+                asks: asks.levels,
+                price: previous?.price ?? null,
+                midpoint: previous?.midpoint ?? null,
+                spread: previous?.spread ?? null,
+                lastTradePrice: previous?.lastTradePrice ?? null,
+                tickSize: event.tick_size || previous?.tickSize || null,
+                stale: false,
+            },
+            bids,
+            asks,
+            market: event.market,
+            timestamp: event.timestamp,
+            reportedTop: this.books.get(event.asset_id)?.reportedTop ?? null,
+        });
+
+        const marketAssetIds = this.markets.get(event.market);
+        if (marketAssetIds) {
+            marketAssetIds.add(event.asset_id);
+        } else {
+            this.markets.set(event.market, new Set([event.asset_id]));
+        }
+
+        this.logger.debug({
+            message: 'Replaced book',
+            asset_id: event.asset_id,
+            bids: event.bids.length,
+            asks: event.asks.length,
+        });
+        this.warnOffGridLevels(event.asset_id);
+    }
+
+    /**
+     * Set the tick size of a book (after a `tick_size_change` event).
+     * 
+     * Unknown assets are ignored.
+     */
+    public setTickSize(assetId: string, tickSize: string): void {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return;
+        }
+        book.entry.tickSize = tickSize;
+        this.warnOffGridLevels(assetId);
+    }
+
+    /**
+     * Levels of both sides whose price is not a multiple of the tick size.
+     * 
+     * Returns an empty array if the book is not found or its tick size is unknown.
+     */
+    public offGridLevels(assetId: string): PriceLevel[] {
+        const book = this.books.get(assetId);
+        const tickSize = book?.entry.tickSize;
+        if (!book || !tickSize) {
+            return [];
+        }
+        return [...book.bids.levels, ...book.asks.levels].filter(level => !isOnTickGrid(level.price, tickSize));
+    }
+
+    private warnOffGridLevels(assetId: string): void {
+        const levels = this.offGridLevels(assetId);
+        if (levels.length > 0) {
+            this.logger.warn({
+                message: 'Book has levels off the tick size grid',
+                asset_id: assetId,
+                tick_size: this.books.get(assetId)!.entry.tickSize,
+                prices: levels.map(level => level.price),
+            });
+        }
     }
 
     /**
      * Update a cached book from a `price_change` event.
      * 
-     * Returns true if the book was updated.
-     * Throws if the book is not found.
+     * A level whose size drops to zero is removed from the book. Each change is
+     * then checked against the best bid / ask and hash sent by the server.
+     * 
+     * `onDelta` receives each level the event added, resized or removed.
+     * 
+     * Returns the first divergence of each book, empty if all books match.
+     * Changes of assets without a cached book are skipped, e.g. while their
+     * first snapshot is on its way, and the other changes are still applied.
      */
-    public upsertPriceChange(event: PriceChangeEvent): void {
+    public upsertPriceChange(event: PriceChangeEvent, onDelta?: BookDeltaListener): BookDesync[] {
+        const desyncs: BookDesync[] = [];
+
         // Iterate through price_changes array
         for (const priceChange of event.price_changes) {
-            const book = this.bookCache[priceChange.asset_id];
+            const book = this.books.get(priceChange.asset_id);
             if (!book) {
-                throw new Error(`Book not found for asset ${priceChange.asset_id}`);
+                this.logger.debug({
+                    message: 'Skipping price change: book not found for asset',
+                    asset_id: priceChange.asset_id,
+                    market: event.market,
+                });
+                continue;
             }
 
             const { price, size, side } = priceChange;
-            if (side === 'BUY') {
-                const i = book.bids.findIndex(bid => bid.price === price);
-                if (i !== -1) {
-                    book.bids[i].size = size;
-                } else {
-                    book.bids.push({ price, size });
-                    
-                    // Ensure the bids are sorted ascending
-                    sortAscendingInPlace(book.bids);
-                }
-            } else {
-                const i = book.asks.findIndex(ask => ask.price === price);
-                if (i !== -1) {
-                    book.asks[i].size = size;
-                } else {
-                    book.asks.push({ price, size });
-
-                    // Ensure the asks are sorted descending
-                    sortDescendingInPlace(book.asks);
+            const replaced = (side === Side.BUY ? book.bids : book.asks).set(price, size);
+            book.timestamp = event.timestamp;
+
+            if (onDelta) {
+                const oldSize = replaced?.size ?? null;
+                const newSize = parseFloat(size) === 0 ? null : size;
+                if (oldSize !== newSize) {
+                    onDelta(priceChange.asset_id, levelDelta(side, replaced?.price ?? price, oldSize, newSize));
                 }
             }
+
+            const { tickSize } = book.entry;
+            if (tickSize && !isOnTickGrid(price, tickSize) && parseFloat(size) !== 0) {
+                this.logger.warn({
+                    message: 'Price change off the tick size grid',
+                    asset_id: priceChange.asset_id,
+                    tick_size: tickSize,
+                    price,
+                });
+            }
+
+            // A stale book is expected to differ until its snapshot arrives
+            if (book.entry.stale || desyncs.some(desync => desync.assetId === priceChange.asset_id)) {
+                continue;
+            }
+            const desync = this.verify(book, event, priceChange);
+            if (desync) {
+                desyncs.push(desync);
+            }
+        }
+        return desyncs;
+    }
+
+    private verify(book: CachedBook, event: PriceChangeEvent, priceChange: PriceChangeItem): BookDesync | null {
+        const desync = (field: BookDesync['field'], expected: string, actual: string | null): BookDesync => ({
+            assetId: priceChange.asset_id,
+            market: event.market,
+            field,
+            expected,
+            actual,
+            triggeringEvent: event,
+        });
+
+        if (this.integrity.verifyBestBidAsk ?? true) {
+            if (!matchesBestPrice(book.bids, priceChange.best_bid, [0])) {
+                return desync('best_bid', priceChange.best_bid, book.bids.best()?.price ?? null);
+            }
+            if (!matchesBestPrice(book.asks, priceChange.best_ask, [0, 1])) {
+                return desync('best_ask', priceChange.best_ask, book.asks.best()?.price ?? null);
+            }
+        }
+
+        if (this.integrity.bookHash && priceChange.hash) {
+            const hash = this.integrity.bookHash({
+                market: event.market,
+                asset_id: priceChange.asset_id,
+                timestamp: event.timestamp,
+                bids: book.entry.bids,
+                asks: book.entry.asks,
+            });
+            if (hash !== priceChange.hash) {
+                return desync('hash', priceChange.hash, hash);
+            }
         }
+        return null;
     }
 
     /**
@@ -111,41 +320,31 @@ export class OrderBookCache {
      * 
      * Throws if either side of the book is empty.
      */
-    public spreadOver(assetId: string, cents = 0.1): boolean {
-        const book = this.bookCache[assetId];
+    public spreadOver(assetId: string, cents = DEFAULT_SPREAD_THRESHOLD): boolean {
+        const book = this.books.get(assetId);
         if (!book) throw new Error(`Book for ${assetId} not cached`);
         if (book.asks.length === 0) throw new Error(`No asks in book for ${assetId}`);
         if (book.bids.length === 0) throw new Error(`No bids in book for ${assetId}`);
 
-        /*
-         * Polymarket book events are currently sorted as such:
-         * - bids ascending
-         * - asks descending
-         */
-        
-        const highestBid = book.bids[book.bids.length - 1].price;
-        const lowestAsk = book.asks[book.asks.length - 1].price;
-        
-        const highestBidNum = parseFloat(highestBid);
-        const lowestAskNum = parseFloat(lowestAsk);
-
-        const spread = lowestAskNum - highestBidNum;
+        const bestAsk = book.asks.bestDecimal();
+        const bestBid = book.bids.bestDecimal();
+        const threshold = cents === DEFAULT_SPREAD_THRESHOLD ? DEFAULT_SPREAD_THRESHOLD_UNITS : numberToDecimal(cents);
 
-        if (isNaN(spread)) {
-            throw new Error(`Spread is NaN: lowestAsk '${lowestAsk}' highestBid '${highestBid}'`);
+        if (bestAsk === null || bestBid === null || threshold === null) {
+            throw new Error(`Spread is NaN: lowestAsk '${book.asks.best()!.price}' highestBid '${book.bids.best()!.price}'`);
         }
+        const spread = bestAsk - bestBid;
 
         /*
-        *   Update spead, 3 precision decimal places, trim trailing zeros
+        *   Update spead, rounded like midpoints on the tick size grid
         */
-        book.spread = parseFloat(spread.toFixed(3)).toString();
+        book.entry.spread = formatPrice(spread, book.entry.tickSize);
 
-        // Should be safe for 0.### - precision values
-        return spread > cents;
+        return spread > threshold;
     }
 
     /** 
-     * Calculate the midpoint of the book, rounded to 3dp, no trailing zeros 
+     * Calculate the midpoint of the book, rounded to one decimal more than the tick size (3dp while unknown), no trailing zeros 
      * 
      * Side effect: updates the book's midpoint
      * 
@@ -154,44 +353,97 @@ export class OrderBookCache {
      * - the midpoint is NaN.
     */
     public midpoint(assetId: string): string {
-        const book = this.bookCache[assetId];
+        const book = this.books.get(assetId);
         if (!book) throw new Error(`Book for ${assetId} not cached`);
         if (book.asks.length === 0) throw new Error(`No asks in book for ${assetId}`);
         if (book.bids.length === 0) throw new Error(`No bids in book for ${assetId}`);
 
-        /*
-         * Polymarket book events are currently sorted as such:
-         * - bids ascending
-         * - asks descending
-         */
-        const highestBid = book.bids[book.bids.length - 1].price;
-        const lowestAsk = book.asks[book.asks.length - 1].price;
-
-        const highestBidNum = parseFloat(highestBid);
-        const lowestAskNum = parseFloat(lowestAsk);
+        const bestAsk = book.asks.bestDecimal();
+        const bestBid = book.bids.bestDecimal();
 
-        const midpoint = (highestBidNum + lowestAskNum) / 2;
-
-        if (isNaN(midpoint)) {
-            throw new Error(`Midpoint is NaN: lowestAsk '${lowestAsk}' highestBid '${highestBid}'`);
+        if (bestAsk === null || bestBid === null) {
+            throw new Error(`Midpoint is NaN: lowestAsk '${book.asks.best()!.price}' highestBid '${book.bids.best()!.price}'`);
         }
+        const midpoint = meanDecimal(bestBid, bestAsk);
 
         /*
-        *   Update midpoint, 3 precision decimal places, trim trailing zeros
+        *   Update midpoint, precision of the tick size grid, trim trailing zeros
         */
-        book.midpoint = parseFloat(midpoint.toFixed(3)).toString();
+        book.entry.midpoint = formatPrice(midpoint, book.entry.tickSize);
+
+        return book.entry.midpoint;
+    }
+
+    /**
+     * Midpoint of the current best bid and ask, rounded like `midpoint` but
+     * without updating the book.
+     * 
+     * Returns null if the book is not found or either side is empty.
+     */
+    public currentMidpoint(assetId: string): string | null {
+        const book = this.books.get(assetId);
+        const bestBid = book?.bids.bestDecimal() ?? null;
+        const bestAsk = book?.asks.bestDecimal() ?? null;
+        if (!book || bestBid === null || bestAsk === null) {
+            return null;
+        }
+        return formatPrice(meanDecimal(bestBid, bestAsk), book.entry.tickSize);
+    }
+
+    /**
+     * Spread between the current best ask and bid, rounded like `spreadOver`
+     * but without updating the book.
+     * 
+     * Returns null if the book is not found or either side is empty.
+     */
+    public currentSpread(assetId: string): string | null {
+        const book = this.books.get(assetId);
+        const bestBid = book?.bids.bestDecimal() ?? null;
+        const bestAsk = book?.asks.bestDecimal() ?? null;
+        if (!book || bestBid === null || bestAsk === null) {
+            return null;
+        }
+        return formatPrice(bestAsk - bestBid, book.entry.tickSize);
+    }
 
-        return parseFloat(midpoint.toFixed(3)).toString();
+    /**
+     * Mark books as stale, until a `book` event or snapshot replaces them.
+     * 
+     * Unknown assets are ignored.
+     */
+    public markStale(assetIds: Iterable<string>): void {
+        for (const assetId of assetIds) {
+            const book = this.books.get(assetId);
+            if (book) {
+                book.entry.stale = true;
+            }
+        }
     }
 
     public clear(assetId?: string): void {
         if (assetId) {
-            delete this.bookCache[assetId];
-        } else {
-            for (const k of Object.keys(this.bookCache)) {
-                delete this.bookCache[k];
+            const market = this.books.get(assetId)?.market;
+            this.books.delete(assetId);
+            if (market !== undefined) {
+                this.markets.get(market)?.delete(assetId);
+                this.marketPrices.delete(market);
             }
+        } else {
+            this.books.clear();
+            this.markets.clear();
+            this.marketPrices.clear();
         }
+        this.logger.debug({
+            message: assetId ? 'Cleared book' : 'Cleared all books',
+            asset_id: assetId,
+        });
+    }
+
+    /**
+     * Number of cached books.
+     */
+    public size(): number {
+        return this.books.size;
     }
 
     /**
@@ -200,10 +452,497 @@ export class OrderBookCache {
      * Return null if the book is not found.
      */
     public getBookEntry(assetId: string): BookEntry | null {
-        if (!this.bookCache[assetId]) {
+        return this.books.get(assetId)?.entry ?? null;
+    }
+
+    /**
+     * Frozen copy of a book, safe to keep while the cache is updated, with
+     * prices and sizes in the given format.
+     * 
+     * Return null if the book is not found.
+     * Throws if a value is not a decimal and cannot be converted to a bigint.
+     */
+    public snapshot<F extends DecimalFormat = 'string'>(assetId: string, format: F = 'string' as F): OrderBook<F> | null {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return null;
+        }
+        return Object.freeze({
+            assetId,
+            market: book.market,
+            timestamp: book.timestamp,
+            bids: freezeLevels(book.bids.levels, format),
+            asks: freezeLevels(book.asks.levels, format),
+            price: book.entry.price === null ? null : convertDecimal(book.entry.price, format),
+            tickSize: book.entry.tickSize === null ? null : convertDecimal(book.entry.tickSize, format),
+            offGridLevels: freezeLevels(this.offGridLevels(assetId), format),
+            stale: book.entry.stale,
+        });
+    }
+
+    /**
+     * Frozen best bid and ask of a book, in the given format.
+     * 
+     * Return null if the book is not found.
+     * Throws if a value is not a decimal and cannot be converted to a bigint.
+     */
+    public bestBidAsk<F extends DecimalFormat = 'string'>(assetId: string, format: F = 'string' as F): BestBidAsk<F> | null {
+        const book = this.books.get(assetId);
+        if (!book) {
             return null;
         }
-        return this.bookCache[assetId];
+        const bestBid = book.bids.best();
+        const bestAsk = book.asks.best();
+        return Object.freeze({
+            assetId,
+            timestamp: book.timestamp,
+            bestBid: bestBid && freezeLevel(bestBid, format),
+            bestAsk: bestAsk && freezeLevel(bestAsk, format),
+            stale: book.entry.stale,
+        });
     }
 
-} 
\ No newline at end of file
+    /**
+     * Best bid and ask of a book if their price or size changed since the last call, null otherwise.
+     * 
+     * Returns null if the book is not found.
+     */
+    public topChange(assetId: string): TopOfBook | null {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return null;
+        }
+
+        const top: TopOfBook = {
+            bestBid: copyLevel(book.bids.best()),
+            bestAsk: copyLevel(book.asks.best()),
+        };
+        const reported = book.reportedTop;
+        if (reported && sameLevel(reported.bestBid, top.bestBid) && sameLevel(reported.bestAsk, top.bestAsk)) {
+            return null;
+        }
+        book.reportedTop = top;
+        return top;
+    }
+
+    /**
+     * Asset ids of the cached books.
+     */
+    public assetIds(): string[] {
+        return [...this.books.keys()];
+    }
+
+    /**
+     * Highest bid of a book.
+     * 
+     * Returns null if the book is not found or has no bids.
+     */
+    public bestBid(assetId: string): PriceLevel | null {
+        return this.books.get(assetId)?.bids.best() ?? null;
+    }
+
+    /**
+     * Lowest ask of a book.
+     * 
+     * Returns null if the book is not found or has no asks.
+     */
+    public bestAsk(assetId: string): PriceLevel | null {
+        return this.books.get(assetId)?.asks.best() ?? null;
+    }
+
+    /**
+     * The best `n` levels of one side of a book, best price first.
+     * 
+     * Returns an empty array if the book is not found.
+     */
+    public depth(assetId: string, side: Side, n: number): PriceLevel[] {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return [];
+        }
+        return (side === Side.BUY ? book.bids : book.asks).top(n);
+    }
+
+    /**
+     * Estimate the execution of an order of `amount` shares or USDC by walking the
+     * opposite side of a book from the best price, in the given format.
+     * 
+     * Returns null if the book is not found.
+     * Throws if the amount is not a positive decimal.
+     */
+    public estimateFill<F extends DecimalFormat = 'string'>(
+        assetId: string,
+        side: Side,
+        amount: FillAmount,
+        format: F = 'string' as F,
+    ): FillEstimate<F> | null {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return null;
+        }
+        const bySize = 'size' in amount;
+        const target = toDecimal(bySize ? amount.size : amount.notional);
+        if (target === null || target <= ZERO) {
+            throw new Error(`Invalid fill amount: '${bySize ? amount.size : amount.notional}'`);
+        }
+
+        const levels = (side === Side.BUY ? book.asks : book.bids).levels;
+        let size = ZERO;
+        let notional = ZERO;
+        let worstPrice: bigint | null = null;
+        let levelsConsumed = 0;
+
+        for (let i = levels.length - 1; i >= 0 && (bySize ? size : notional) < target; i--) {
+            const price = units(levels[i].price);
+            const levelSize = units(levels[i].size);
+            const levelNotional = multiplyDecimal(price, levelSize);
+
+            if (bySize && size + levelSize > target) {
+                notional += multiplyDecimal(price, target - size);
+                size = target;
+            } else if (!bySize && notional + levelNotional > target) {
+                size += divideDecimal(target - notional, price);
+                notional = target;
+            } else {
+                size += levelSize;
+                notional += levelNotional;
+            }
+            worstPrice = price;
+            levelsConsumed++;
+        }
+
+        const averagePrice = size > ZERO ? divideDecimal(notional, size) : null;
+        const bestBid = book.bids.bestDecimal();
+        const bestAsk = book.asks.bestDecimal();
+        let slippage: bigint | null = null;
+        if (averagePrice !== null && bestBid !== null && bestAsk !== null) {
+            const midpoint = meanDecimal(bestBid, bestAsk);
+            slippage = side === Side.BUY ? averagePrice - midpoint : midpoint - averagePrice;
+        }
+
+        return Object.freeze({
+            assetId,
+            side,
+            size: fromUnits(size, format),
+            notional: fromUnits(notional, format),
+            averagePrice: averagePrice === null ? null : fromUnits(averagePrice, format),
+            worstPrice: worstPrice === null ? null : fromUnits(worstPrice, format),
+            levelsConsumed,
+            slippage: slippage === null ? null : fromUnits(slippage, format),
+            complete: (bySize ? size : notional) >= target,
+            stale: book.entry.stale,
+        });
+    }
+
+    /**
+     * Levels of one side of a book within `priceBand` of its best price, best price
+     * first, with the cumulative size and notional up to each level.
+     * 
+     * Returns null if the book is not found, an empty array if the side is empty.
+     * Throws if the band is not a decimal.
+     */
+    public cumulativeDepth<F extends DecimalFormat = 'string'>(
+        assetId: string,
+        side: Side,
+        priceBand: string | number,
+        format: F = 'string' as F,
+    ): ReadonlyArray<DepthLevel<F>> | null {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return null;
+        }
+        const band = toDecimal(priceBand);
+        if (band === null || band < ZERO) {
+            throw new Error(`Invalid price band: '${priceBand}'`);
+        }
+
+        const bookSide = side === Side.BUY ? book.bids : book.asks;
+        const best = bookSide.bestDecimal();
+        const levels: DepthLevel<F>[] = [];
+        let cumulativeSize = ZERO;
+        let cumulativeNotional = ZERO;
+
+        for (let i = bookSide.levels.length - 1; i >= 0 && best !== null; i--) {
+            const level = bookSide.levels[i];
+            const price = units(level.price);
+            if ((price > best ? price - best : best - price) > band) {
+                break;
+            }
+            const size = units(level.size);
+            cumulativeSize += size;
+            cumulativeNotional += multiplyDecimal(price, size);
+            levels.push(Object.freeze({
+                price: fromUnits(price, format),
+                size: fromUnits(size, format),
+                cumulativeSize: fromUnits(cumulativeSize, format),
+                cumulativeNotional: fromUnits(cumulativeNotional, format),
+            }));
+        }
+        return Object.freeze(levels);
+    }
+
+    /**
+     * Merged book of the two tokens of a binary market, in the prices of `assetId`
+     * (default: the token with the lowest asset id). A bid at p of the other token is
+     * an ask at 1 - p, and an ask at p a bid at 1 - p.
+     * 
+     * Returns null unless the books of exactly two tokens of the market are cached,
+     * or if `assetId` is not one of them.
+     * Throws if a value is not a decimal.
+     */
+    public marketBook<F extends DecimalFormat = 'string'>(
+        market: string,
+        assetId?: string,
+        format: F = 'string' as F,
+    ): MarketBook<F> | null {
+        const assetIds = [...(this.markets.get(market) ?? [])].sort();
+        if (assetIds.length !== 2 || (assetId !== undefined && !assetIds.includes(assetId))) {
+            return null;
+        }
+        if (assetId === assetIds[1]) {
+            assetIds.reverse();
+        }
+        const book = this.books.get(assetIds[0])!;
+        const complement = this.books.get(assetIds[1])!;
+
+        const bids = mergeLevels(book.bids, complement.asks, false);
+        const asks = mergeLevels(book.asks, complement.bids, true);
+        const bestBid = bids.length > 0 ? bids[bids.length - 1] : null;
+        const bestAsk = asks.length > 0 ? asks[asks.length - 1] : null;
+        const tickSize = book.entry.tickSize ?? complement.entry.tickSize;
+
+        let midpoint: string | null = null;
+        let spread: string | null = null;
+        if (bestBid && bestAsk) {
+            midpoint = formatPrice(meanDecimal(units(bestBid.price), units(bestAsk.price)), tickSize);
+            spread = formatPrice(units(bestAsk.price) - units(bestBid.price), tickSize);
+        }
+
+        return Object.freeze({
+            market,
+            assetId: assetIds[0],
+            complementAssetId: assetIds[1],
+            timestamp: Number(complement.timestamp) > Number(book.timestamp) ? complement.timestamp : book.timestamp,
+            bids: freezeLevels(bids, format),
+            asks: freezeLevels(asks, format),
+            bestBid: bestBid && freezeLevel(bestBid, format),
+            bestAsk: bestAsk && freezeLevel(bestAsk, format),
+            midpoint: midpoint === null ? null : convertDecimal(midpoint, format),
+            spread: spread === null ? null : convertDecimal(spread, format),
+            tickSize: tickSize === null ? null : convertDecimal(tickSize, format),
+            stale: book.entry.stale || complement.entry.stale,
+        });
+    }
+
+    /**
+     * Last price emitted with onMarketPriceUpdate for a market, null before the first update.
+     */
+    public marketPrice(market: string): string | null {
+        return this.marketPrices.get(market) ?? null;
+    }
+
+    /**
+     * Record the last price emitted with onMarketPriceUpdate for a market.
+     */
+    public setMarketPrice(market: string, price: string): void {
+        this.marketPrices.set(market, price);
+    }
+
+    /**
+     * Imbalance, liquidity and weighted prices of a book, in the given format.
+     * 
+     * Returns null if the book is not found.
+     * Throws if the liquidity band is not a decimal.
+     */
+    public bookMetrics<F extends DecimalFormat = 'string'>(
+        assetId: string,
+        options: BookMetricsOptions = {},
+        format: F = 'string' as F,
+    ): BookMetrics<F> | null {
+        const book = this.books.get(assetId);
+        if (!book) {
+            return null;
+        }
+        const band = toDecimal(options.liquidityBand ?? DEFAULT_LIQUIDITY_BAND);
+        if (band === null || band < ZERO) {
+            throw new Error(`Invalid liquidity band: '${options.liquidityBand}'`);
+        }
+        const depthLevels = options.depthLevels ?? DEFAULT_METRICS_DEPTH_LEVELS;
+
+        const bestBid = book.bids.bestDecimal();
+        const bestAsk = book.asks.bestDecimal();
+        const midpoint = bestBid === null || bestAsk === null ? null : meanDecimal(bestBid, bestAsk);
+        const bids = topLevels(book.bids, depthLevels);
+        const asks = topLevels(book.asks, depthLevels);
+
+        let microprice: bigint | null = null;
+        let weightedMidpoint: bigint | null = null;
+        if (bestBid !== null && bestAsk !== null) {
+            microprice = weightedMeanDecimal(bestBid, units(book.asks.best()!.size), bestAsk, units(book.bids.best()!.size));
+            weightedMidpoint = weightedMeanDecimal(bids.averagePrice!, asks.size, asks.averagePrice!, bids.size);
+        }
+        const topSize = bids.size + asks.size;
+        const liquidity = (side: BookSide) => midpoint === null ? null : liquidityWithin(side, midpoint, band);
+        const bidLiquidity = liquidity(book.bids);
+        const askLiquidity = liquidity(book.asks);
+
+        const convert = (value: bigint | null) => value === null ? null : fromUnits(value, format);
+        return Object.freeze({
+            assetId,
+            market: book.market,
+            timestamp: book.timestamp,
+            imbalance: convert(topSize > ZERO ? divideDecimal(bids.size - asks.size, topSize) : null),
+            bidLiquidity: convert(bidLiquidity),
+            askLiquidity: convert(askLiquidity),
+            midpoint: convert(midpoint),
+            microprice: convert(microprice),
+            weightedMidpoint: convert(weightedMidpoint),
+            bidLevels: book.bids.length,
+            askLevels: book.asks.length,
+            stale: book.entry.stale,
+        });
+    }
+}
+
+/*
+ * Enough decimal places for a midpoint on the tick size grid, 3 while the
+ * tick size is unknown, trim trailing zeros
+ */
+function formatPrice(value: bigint, tickSize: string | null): string {
+    return formatDecimal(value, tickSize ? midpointDecimals(tickSize) : 3);
+}
+
+function copyLevel(level: PriceLevel | null): PriceLevel | null {
+    return level && { price: level.price, size: level.size };
+}
+
+function sameLevel(a: PriceLevel | null, b: PriceLevel | null): boolean {
+    return a === b || (a !== null && b !== null && a.price === b.price && a.size === b.size);
+}
+
+function freezeLevels<F extends DecimalFormat>(levels: PriceLevel[], format: F): ReadonlyArray<BookLevel<F>> {
+    return Object.freeze(levels.map(level => freezeLevel(level, format)));
+}
+
+function freezeLevel<F extends DecimalFormat>(level: PriceLevel, format: F): BookLevel<F> {
+    return Object.freeze({
+        price: convertDecimal(level.price, format),
+        size: convertDecimal(level.size, format),
+    });
+}
+
+function convertDecimal<F extends DecimalFormat>(value: string, format: F): DecimalValue<F> {
+    switch (format) {
+        case 'number':
+            return parseFloat(value) as DecimalValue<F>;
+        case 'bigint':
+            return units(value) as DecimalValue<F>;
+        default:
+            return value as DecimalValue<F>;
+    }
+}
+
+/*
+ * Levels of a side merged with the mirrored levels of the opposite side of the
+ * complementary book, best price last.
+ *
+ * The CLOB shows each resting order in both books, at p and mirrored at 1 - p, so
+ * a price keeps the larger of the two sizes instead of counting the orders twice.
+ */
+function mergeLevels(side: BookSide, complementSide: BookSide, descending: boolean): PriceLevel[] {
+    const sizes = new Map<bigint, bigint>();
+    const add = (price: bigint, size: string) => {
+        const previous = sizes.get(price);
+        const value = units(size);
+        sizes.set(price, previous !== undefined && previous > value ? previous : value);
+    };
+
+    for (const level of side.levels) {
+        add(units(level.price), level.size);
+    }
+    for (const level of complementSide.levels) {
+        add(ONE - units(level.price), level.size);
+    }
+
+    return [...sizes]
+        .sort(([a], [b]) => (a < b) === descending ? 1 : -1)
+        .map(([price, size]) => ({ price: formatDecimal(price), size: formatDecimal(size) }));
+}
+
+/*
+ * Total size and average price of the best `n` levels of a side, null while empty
+ */
+function topLevels(side: BookSide, n: number): { size: bigint, averagePrice: bigint | null } {
+    let size = ZERO;
+    let notional = ZERO;
+    for (let i = side.levels.length - 1; i >= Math.max(side.levels.length - n, 0); i--) {
+        const levelSize = units(side.levels[i].size);
+        size += levelSize;
+        notional += multiplyDecimal(units(side.levels[i].price), levelSize);
+    }
+    return { size, averagePrice: size > ZERO ? divideDecimal(notional, size) : null };
+}
+
+/*
+ * Total size of the levels of a side within `band` of a price, walking from the best price
+ */
+function liquidityWithin(side: BookSide, price: bigint, band: bigint): bigint {
+    let size = ZERO;
+    for (let i = side.levels.length - 1; i >= 0; i--) {
+        const levelPrice = units(side.levels[i].price);
+        if ((levelPrice > price ? levelPrice - price : price - levelPrice) > band) {
+            break;
+        }
+        size += units(side.levels[i].size);
+    }
+    return size;
+}
+
+function fromUnits<F extends DecimalFormat>(value: bigint, format: F): DecimalValue<F> {
+    switch (format) {
+        case 'number':
+            return decimalToNumber(value) as DecimalValue<F>;
+        case 'bigint':
+            return value as DecimalValue<F>;
+        default:
+            return formatDecimal(value) as DecimalValue<F>;
+    }
+}
+
+function units(value: string): bigint {
+    const parsed = parseDecimal(value);
+    if (parsed === null) {
+        throw new Error(`Not a decimal: '${value}'`);
+    }
+    return parsed;
+}
+
+function toDecimal(value: string | number): bigint | null {
+    return typeof value === 'number' ? numberToDecimal(value) : parseDecimal(value);
+}
+
+/*
+ * Prices are compared as numbers, which is exact, see BookSide.
+ * Values that are not sent are not checked. An empty side has no best price,
+ * the server then sends a bound of the price range instead.
+ */
+function matchesBestPrice(side: BookSide, expected: string, emptyPrices: number[]): boolean {
+    const expectedPrice = parseFloat(expected);
+    if (isNaN(expectedPrice)) {
+        return true;
+    }
+    if (side.length === 0) {
+        return emptyPrices.includes(expectedPrice);
+    }
+    return side.bestPrice() === expectedPrice;
+}
+
+function levelDelta(side: Side, price: string, oldSize: string | null, newSize: string | null): BookLevelDelta {
+    return {
+        side,
+        price,
+        action: oldSize === null ? 'add' : newSize === null ? 'remove' : 'update',
+        old_size: oldSize,
+        new_size: newSize,
+    };
+}
@@ -0,0 +1,104 @@
+import { PriceCalculator, PriceCalculatorInput } from '../types/PriceCalculator';
+import { midpointDecimals, tickDecimals } from './tickSize';
+import { formatDecimal, meanDecimal, numberToDecimal, parseDecimal, roundToMultiple, weightedMeanDecimal } from './Decimal';
+
+const DEFAULT_PRECISION = 3;
+
+export type PolymarketPriceCalculatorOptions = {
+    // Above this spread the last trade price is shown instead of the fair value (default: 0.1)
+    spreadThreshold?: number;
+
+    // Fair value shown while the spread is within the threshold (default: 'midpoint')
+    fairValue?: 'midpoint' | 'microprice' | 'last_trade';
+
+    // Decimal places of derived prices, trailing zeros are trimmed (default: enough for a midpoint
+    // on the tick size grid of the asset, 3 while the tick size is unknown)
+    precision?: number;
+
+    // Round derived prices to the tick size of the asset when it is known (default: false)
+    roundToTickSize?: boolean;
+};
+
+/**
+ * The price shown by the Polymarket UI: the midpoint of the best bid and ask,
+ * or the last trade price when the spread is over 10 cents.
+ *
+ * As on Polymarket, the midpoint is only updated by price changes and the last
+ * trade price by trades. No price is derived while either side of the book is empty.
+ *
+ * See https://docs.polymarket.com/polymarket-learn/trading/how-are-prices-calculated#future-price
+ */
+export class PolymarketPriceCalculator implements PriceCalculator {
+    private spreadThreshold: bigint;
+    private fairValue: NonNullable<PolymarketPriceCalculatorOptions['fairValue']>;
+    private precision?: number;
+    private roundToTickSize: boolean;
+
+    constructor(options: PolymarketPriceCalculatorOptions = {}) {
+        const spreadThreshold = numberToDecimal(options.spreadThreshold ?? 0.1);
+        if (spreadThreshold === null) {
+            throw new Error(`Invalid spreadThreshold: ${options.spreadThreshold}`);
+        }
+        this.spreadThreshold = spreadThreshold;
+        this.fairValue = options.fairValue ?? 'midpoint';
+        this.precision = options.precision;
+        this.roundToTickSize = options.roundToTickSize ?? false;
+    }
+
+    public price(input: PriceCalculatorInput): string | null {
+        const bestBid = input.bids[input.bids.length - 1];
+        const bestAsk = input.asks[input.asks.length - 1];
+        if (!bestBid || !bestAsk) {
+            return null;
+        }
+
+        const bidPrice = parseDecimal(bestBid.price);
+        const askPrice = parseDecimal(bestAsk.price);
+        if (bidPrice === null || askPrice === null) {
+            return null;
+        }
+
+        const wide = askPrice - bidPrice > this.spreadThreshold;
+        if (input.triggeringEvent.event_type === 'last_trade_price') {
+            return wide ? this.round(parseDecimal(input.triggeringEvent.price), input.tickSize) : null;
+        }
+        if (wide) {
+            return null;
+        }
+
+        switch (this.fairValue) {
+            case 'midpoint':
+                return this.round(meanDecimal(bidPrice, askPrice), input.tickSize);
+            case 'microprice':
+                return this.round(microprice(bidPrice, parseDecimal(bestBid.size), askPrice, parseDecimal(bestAsk.size)), input.tickSize);
+            case 'last_trade':
+                return input.lastTradePrice === null ? null : this.round(parseDecimal(input.lastTradePrice), input.tickSize);
+        }
+    }
+
+    private round(value: bigint | null, tickSize: string | null): string | null {
+        if (value === null) {
+            return null;
+        }
+
+        const tick = tickSize === null ? null : parseDecimal(tickSize);
+        const knownTick = tick !== null && tick > BigInt(0);
+        if (this.roundToTickSize && knownTick) {
+            return formatDecimal(roundToMultiple(value, tick!), tickDecimals(tickSize!));
+        }
+
+        const precision = this.precision ?? (knownTick ? midpointDecimals(tickSize!) : DEFAULT_PRECISION);
+        return formatDecimal(value, precision);
+    }
+}
+
+/*
+    Mid price weighted by the size on the opposite side: a large bid
+    pushes the price towards the ask, where the next trade is more likely.
+*/
+function microprice(bidPrice: bigint, bidSize: bigint | null, askPrice: bigint, askSize: bigint | null): bigint | null {
+    if (bidSize === null || askSize === null || bidSize + askSize === BigInt(0)) {
+        return null;
+    }
+    return weightedMeanDecimal(bidPrice, askSize, askPrice, bidSize);
+}
@@ -0,0 +1,168 @@
+import { CounterMetric, GaugeMetric, HistogramMetric, MetricLabels, MetricsRegistry } from '../types/Metrics';
+
+// Same defaults as the Prometheus client libraries, in seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type HistogramSeries = {
+    labels: MetricLabels;
+    bucketCounts: number[];
+    sum: number;
+    count: number;
+};
+
+/*
+    See https://prometheus.io/docs/instrumenting/exposition_formats/#text-based-format
+*/
+function escapeLabelValue(value: string | number): string {
+    return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labelNames: string[], labels: MetricLabels, extra = ''): string {
+    const pairs = labelNames
+        .filter(name => labels[name] !== undefined)
+        .map(name => `${name}="${escapeLabelValue(labels[name]!)}"`);
+    if (extra) {
+        pairs.push(extra);
+    }
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Number.POSITIVE_INFINITY) return '+Inf';
+    if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+    return String(value);
+}
+
+abstract class Metric {
+    constructor(
+        public readonly name: string,
+        public readonly help: string,
+        public readonly type: MetricType,
+        protected labelNames: string[],
+    ) {}
+
+    protected key(labels: MetricLabels): string {
+        return this.labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+    }
+
+    public render(): string {
+        return [
+            `# HELP ${this.name} ${escapeHelp(this.help)}`,
+            `# TYPE ${this.name} ${this.type}`,
+            ...this.renderSamples(),
+        ].join('\n');
+    }
+
+    protected abstract renderSamples(): string[];
+}
+
+// Counters and gauges only differ in their type line
+class ScalarMetric extends Metric implements CounterMetric, GaugeMetric {
+    private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+    public inc(labels: MetricLabels = {}, value = 1): void {
+        const key = this.key(labels);
+        const series = this.values.get(key);
+        if (series) {
+            series.value += value;
+        } else {
+            this.values.set(key, { labels, value });
+        }
+    }
+
+    public set(labels: MetricLabels, value: number): void {
+        this.values.set(this.key(labels), { labels, value });
+    }
+
+    protected renderSamples(): string[] {
+        return Array.from(this.values.values()).map(series =>
+            `${this.name}${formatLabels(this.labelNames, series.labels)} ${formatValue(series.value)}`
+        );
+    }
+}
+
+class Histogram extends Metric implements HistogramMetric {
+    private series = new Map<string, HistogramSeries>();
+
+    constructor(name: string, help: string, labelNames: string[], private buckets: number[]) {
+        super(name, help, 'histogram', labelNames);
+    }
+
+    public observe(labels: MetricLabels, value: number): void {
+        const key = this.key(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                series!.bucketCounts[i]++;
+            }
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    protected renderSamples(): string[] {
+        const lines: string[] = [];
+        for (const series of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                const labels = formatLabels(this.labelNames, series.labels, `le="${formatValue(bound)}"`);
+                lines.push(`${this.name}_bucket${labels} ${series.bucketCounts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(this.labelNames, series.labels, 'le="+Inf"')} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(this.labelNames, series.labels)} ${formatValue(series.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(this.labelNames, series.labels)} ${series.count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Minimal in-memory metrics registry rendering the Prometheus text format.
+ *
+ * Used when metrics are enabled without a custom registry. Share one instance
+ * between managers to expose all of their metrics on a single endpoint.
+ */
+export class PrometheusRegistry implements MetricsRegistry {
+    private registered = new Map<string, Metric>();
+
+    public counter(name: string, help: string, labelNames: string[]): CounterMetric {
+        return this.getOrCreate(name, 'counter', () => new ScalarMetric(name, help, 'counter', labelNames)) as ScalarMetric;
+    }
+
+    public gauge(name: string, help: string, labelNames: string[]): GaugeMetric {
+        return this.getOrCreate(name, 'gauge', () => new ScalarMetric(name, help, 'gauge', labelNames)) as ScalarMetric;
+    }
+
+    public histogram(name: string, help: string, labelNames: string[], buckets = DEFAULT_BUCKETS): HistogramMetric {
+        const sortedBuckets = [...buckets].sort((a, b) => a - b);
+        return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, labelNames, sortedBuckets)) as Histogram;
+    }
+
+    public metrics(): string {
+        const rendered = Array.from(this.registered.values()).map(metric => metric.render());
+        return rendered.length > 0 ? `${rendered.join('\n\n')}\n` : '';
+    }
+
+    private getOrCreate(name: string, type: MetricType, create: () => Metric): Metric {
+        const existing = this.registered.get(name);
+        if (existing) {
+            if (existing.type !== type) {
+                throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+            }
+            return existing;
+        }
+        const metric = create();
+        this.registered.set(name, metric);
+        return metric;
+    }
+}
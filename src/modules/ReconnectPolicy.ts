@@ -0,0 +1,180 @@
+import ms from 'ms';
+import { ReconnectPolicy, ReconnectState, WebSocketStatus } from '../types/WebSocketSubscriptions';
+import { defaultLogger } from '../logger';
+import { Logger } from '../types/Logger';
+
+// A connection that stayed open this long resets the group's attempt counter
+const STABLE_CONNECTION_MS = ms('1m');
+
+export type ExponentialBackoffOptions = {
+    // Upper bound of the first delay (default: 1s)
+    baseDelayMs?: number;
+
+    // Upper bound of any delay (default: 60s)
+    maxDelayMs?: number;
+
+    // Attempts before giving up or cooling down (default: unlimited)
+    maxAttempts?: number;
+
+    // Circuit-breaker: once maxAttempts are used up, wait this long and start over instead of giving up
+    cooldownMs?: number;
+};
+
+/**
+ * Exponential backoff with full jitter.
+ *
+ * The delay of attempt `n` is picked uniformly from [0, min(maxDelayMs, baseDelayMs * 2^(n-1))].
+ *
+ * See https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export class ExponentialBackoffPolicy implements ReconnectPolicy {
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private maxAttempts: number;
+    private cooldownMs?: number;
+
+    constructor(options: ExponentialBackoffOptions = {}) {
+        this.baseDelayMs = options.baseDelayMs ?? ms('1s');
+        this.maxDelayMs = options.maxDelayMs ?? ms('60s');
+        this.maxAttempts = options.maxAttempts ?? Number.POSITIVE_INFINITY;
+        this.cooldownMs = options.cooldownMs;
+    }
+
+    public nextDelayMs(attempt: number): number | null {
+        let attemptInCycle = attempt;
+
+        if (attempt > this.maxAttempts) {
+            if (this.cooldownMs === undefined) {
+                return null;
+            }
+
+            // Each cycle is maxAttempts backoff attempts followed by one cool-down
+            const position = (attempt - 1) % (this.maxAttempts + 1);
+            if (position === this.maxAttempts) {
+                return this.cooldownMs;
+            }
+            attemptInCycle = position + 1;
+        }
+
+        const cap = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attemptInCycle - 1));
+        return Math.floor(Math.random() * cap);
+    }
+}
+
+/**
+ * Mark a group's connection as opened, see ReconnectScheduler.
+ */
+export function markGroupOpened(group: { reconnect?: ReconnectState }): void {
+    group.reconnect = {
+        attempts: group.reconnect?.attempts ?? 0,
+        nextAttemptAt: null,
+        openedAt: Date.now(),
+    };
+}
+
+/**
+ * Set a failed group back to pending so that it is connected again, with a fresh attempt counter.
+ */
+export function retryFailedGroup(group: { status: WebSocketStatus, reconnect?: ReconnectState }): void {
+    group.status = WebSocketStatus.PENDING;
+    group.reconnect = undefined;
+}
+
+/**
+ * Applies a ReconnectPolicy to dead groups.
+ *
+ * The state of each group is kept on the group itself. When a dead group is
+ * first seen, its next attempt is scheduled and a timer calls `onDue` once the
+ * delay has passed. The periodic reconnect loop acts as a fallback for cancelled timers.
+ * A group the policy gives up on is parked as FAILED until its assets change.
+ */
+export class ReconnectScheduler {
+    private timers = new Map<string, NodeJS.Timeout>();
+    private dueGroupIds = new Set<string>();
+
+    constructor(
+        private policy: ReconnectPolicy,
+        private onScheduled: (groupId: string, attempt: number, delayMs: number) => void,
+        private onGaveUp: (groupId: string, attempts: number) => void,
+        private onDue: (groupId: string) => void,
+        private logger: Logger = defaultLogger,
+    ) {}
+
+    /**
+     * Check whether a dead group should be reconnected now.
+     *
+     * Schedules the next attempt if none is pending. When this returns true the
+     * attempt is consumed, so a failed connection schedules the following one.
+     */
+    public isDue(group: { groupId: string, status: WebSocketStatus, reconnect?: ReconnectState }): boolean {
+        const state: ReconnectState = group.reconnect ?? { attempts: 0, nextAttemptAt: null, openedAt: null };
+        group.reconnect = state;
+
+        if (state.nextAttemptAt === null) {
+            const now = Date.now();
+            if (state.openedAt !== null && now - state.openedAt >= STABLE_CONNECTION_MS) {
+                state.attempts = 0;
+            }
+            state.openedAt = null;
+
+            const attempt = state.attempts + 1;
+            const delayMs = this.policy.nextDelayMs(attempt);
+            if (delayMs === null) {
+                state.nextAttemptAt = Number.POSITIVE_INFINITY;
+                group.status = WebSocketStatus.FAILED;
+                this.logger.warn({
+                    message: 'Giving up reconnecting group',
+                    groupId: group.groupId,
+                    attempts: state.attempts,
+                });
+                this.onGaveUp(group.groupId, state.attempts);
+                return false;
+            }
+
+            state.attempts = attempt;
+            state.nextAttemptAt = now + delayMs;
+            this.onScheduled(group.groupId, attempt, delayMs);
+
+            if (delayMs > 0) {
+                this.schedule(group.groupId, delayMs);
+                return false;
+            }
+        }
+
+        if (!this.dueGroupIds.has(group.groupId) && Date.now() < state.nextAttemptAt) {
+            return false;
+        }
+
+        state.nextAttemptAt = null;
+        this.clear(group.groupId);
+        return true;
+    }
+
+    /**
+     * Cancel every pending timer. Scheduled attempts are still picked up by the reconnect loop.
+     */
+    public cancelAll(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    private schedule(groupId: string, delayMs: number) {
+        this.clear(groupId);
+        this.timers.set(groupId, setTimeout(() => {
+            this.timers.delete(groupId);
+            this.dueGroupIds.add(groupId);
+            this.onDue(groupId);
+        }, delayMs));
+    }
+
+    private clear(groupId: string) {
+        this.dueGroupIds.delete(groupId);
+        const timer = this.timers.get(groupId);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(groupId);
+        }
+    }
+}
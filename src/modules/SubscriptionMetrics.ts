@@ -0,0 +1,131 @@
+import { CounterMetric, GaugeMetric, HistogramMetric, MetricsRegistry } from '../types/Metrics';
+import { PrometheusRegistry } from './PrometheusRegistry';
+
+export type MetricsChannel = 'market' | 'user';
+
+const PREFIX = 'polymarket_ws_';
+
+// Cache size of each manager recording into a gauge, as managers can share a registry
+const bookCacheSizes = new WeakMap<GaugeMetric, Map<SubscriptionMetrics, number>>();
+
+/**
+ * The metrics recorded by a subscription manager, labelled with its channel.
+ */
+export class SubscriptionMetrics {
+    private connectionsOpened: CounterMetric;
+    private connectionsClosed: CounterMetric;
+    private reconnectAttempts: CounterMetric;
+    private messagesReceived: CounterMetric;
+    private eventsReceived: CounterMetric;
+    private parseFailures: CounterMetric;
+    private handlerDuration: HistogramMetric;
+    private handlerErrors: CounterMetric;
+    private bookCacheSize: GaugeMetric;
+    private priceUpdates: CounterMetric;
+
+    constructor(public readonly registry: MetricsRegistry, private channel: MetricsChannel) {
+        this.connectionsOpened = registry.counter(`${PREFIX}connections_opened_total`, 'WebSocket connections opened', ['channel']);
+        this.connectionsClosed = registry.counter(`${PREFIX}connections_closed_total`, 'WebSocket connections closed, by close code', ['channel', 'code']);
+        this.reconnectAttempts = registry.counter(`${PREFIX}reconnect_attempts_total`, 'Reconnect attempts scheduled for dead groups', ['channel']);
+        this.messagesReceived = registry.counter(`${PREFIX}messages_received_total`, 'WebSocket messages received', ['channel']);
+        this.eventsReceived = registry.counter(`${PREFIX}events_received_total`, 'Events received, by event type', ['channel', 'event_type']);
+        this.parseFailures = registry.counter(`${PREFIX}parse_failures_total`, 'Messages that were not valid JSON', ['channel']);
+        this.handlerDuration = registry.histogram(`${PREFIX}handler_duration_seconds`, 'Time spent in user handlers', ['channel', 'handler']);
+        this.handlerErrors = registry.counter(`${PREFIX}handler_errors_total`, 'Errors thrown by user handlers', ['channel', 'handler']);
+        this.bookCacheSize = registry.gauge(`${PREFIX}book_cache_size`, 'Order books held in the cache', ['channel']);
+        this.priceUpdates = registry.counter(`${PREFIX}price_updates_total`, 'Derived price_update events emitted', ['channel']);
+    }
+
+    public connectionOpened(): void {
+        this.connectionsOpened.inc({ channel: this.channel });
+    }
+
+    public connectionClosed(code: number): void {
+        this.connectionsClosed.inc({ channel: this.channel, code });
+    }
+
+    public reconnectAttempted(): void {
+        this.reconnectAttempts.inc({ channel: this.channel });
+    }
+
+    public messageReceived(): void {
+        this.messagesReceived.inc({ channel: this.channel });
+    }
+
+    public eventReceived(eventType: string | undefined): void {
+        this.eventsReceived.inc({ channel: this.channel, event_type: eventType || 'unknown' });
+    }
+
+    public parseFailed(): void {
+        this.parseFailures.inc({ channel: this.channel });
+    }
+
+    /**
+     * Record the cache size of this manager. The gauge holds the total of the
+     * managers sharing the registry.
+     */
+    public setBookCacheSize(size: number): void {
+        let sizes = bookCacheSizes.get(this.bookCacheSize);
+        if (!sizes) {
+            sizes = new Map();
+            bookCacheSizes.set(this.bookCacheSize, sizes);
+        }
+        if (size > 0) {
+            sizes.set(this, size);
+        } else {
+            sizes.delete(this);
+        }
+
+        let total = 0;
+        for (const [metrics, managerSize] of sizes) {
+            if (metrics.channel === this.channel) {
+                total += managerSize;
+            }
+        }
+        this.bookCacheSize.set({ channel: this.channel }, total);
+    }
+
+    public priceUpdateEmitted(): void {
+        this.priceUpdates.inc({ channel: this.channel });
+    }
+
+    /**
+     * Wrap every handler to record its latency and the errors it throws.
+     *
+     * Errors are rethrown so that they still reach `onError`.
+     */
+    public instrumentHandlers<T extends object>(handlers: T): T {
+        const instrumented: Record<string, unknown> = {};
+        for (const [name, handler] of Object.entries(handlers)) {
+            instrumented[name] = typeof handler === 'function'
+                ? this.instrumentHandler(name, handler as (...args: unknown[]) => unknown)
+                : handler;
+        }
+        return instrumented as T;
+    }
+
+    private instrumentHandler<A extends unknown[]>(name: string, handler: (...args: A) => unknown): (...args: A) => Promise<void> {
+        const labels = { channel: this.channel, handler: name };
+        return async (...args: A) => {
+            const startedAt = process.hrtime.bigint();
+            try {
+                await handler(...args);
+            } catch (err) {
+                this.handlerErrors.inc(labels);
+                throw err;
+            } finally {
+                this.handlerDuration.observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+            }
+        };
+    }
+}
+
+/**
+ * Create the metrics of a manager from its `metrics` option, undefined when disabled.
+ */
+export function createSubscriptionMetrics(option: boolean | MetricsRegistry | undefined, channel: MetricsChannel): SubscriptionMetrics | undefined {
+    if (!option) {
+        return undefined;
+    }
+    return new SubscriptionMetrics(option === true ? new PrometheusRegistry() : option, channel);
+}
@@ -1,16 +1,23 @@
 import { Mutex } from 'async-mutex';
 import _ from 'lodash';
 import { v4 as uuidv4 } from 'uuid';
-import { UserWebSocketGroup, WebSocketStatus, ApiCredentials } from '../types/WebSocketSubscriptions';
-import { logger } from '../logger';
-
-/*
- * Global user group store and mutex
- */
-const userWsGroups: UserWebSocketGroup[] = [];
-const userWsGroupsMutex = new Mutex();
+import WebSocket from 'ws';
+import { UserWebSocketGroup, WebSocketStatus, ApiCredentials, UserGroupStatus } from '../types/WebSocketSubscriptions';
+import { defaultLogger } from '../logger';
+import { Logger } from '../types/Logger';
+import { retryFailedGroup } from './ReconnectPolicy';
+import { messagesPerSecond } from './ConnectionWatchdog';
+import { closeWebSocket } from './closeWebSocket';
 
 export class UserGroupRegistry {
+    /*
+     * User group store and mutex, owned by this registry instance so that
+     * several user subscription managers can run side by side.
+     */
+    private userWsGroups: UserWebSocketGroup[] = [];
+    private userWsGroupsMutex = new Mutex();
+
+    constructor(private logger: Logger = defaultLogger) {}
 
     /** 
      * Atomic mutate helper.
@@ -19,8 +26,8 @@ export class UserGroupRegistry {
      * @returns The result of the function.
      */
     public async mutate<T>(fn: (groups: UserWebSocketGroup[]) => T | Promise<T>): Promise<T> {
-        const release = await userWsGroupsMutex.acquire();
-        try { return await fn(userWsGroups); }
+        const release = await this.userWsGroupsMutex.acquire();
+        try { return await fn(this.userWsGroups); }
         finally { release(); }
     }
 
@@ -30,20 +37,40 @@ export class UserGroupRegistry {
      * Only to be used in test suite.
      */
     public snapshot(): UserWebSocketGroup[] {
-        return userWsGroups.map(group => ({
+        return this.userWsGroups.map(group => ({
             ...group,
             marketIds: new Set(group.marketIds),
             auth: { ...group.auth }
         }));
     }
 
+    /**
+     * Public status of every group, skipping groups that are being cleaned up.
+     */
+    public getGroupStatuses(): UserGroupStatus[] {
+        const now = Date.now();
+        return this.userWsGroups
+            .filter(group => group.status !== WebSocketStatus.CLEANUP && (group.marketIds.size > 0 || group.subscribeToAll))
+            .map(group => ({
+                groupId: group.groupId,
+                status: group.status,
+                marketCount: group.marketIds.size,
+                subscribeToAll: !!group.subscribeToAll,
+                connectedSince: group.status === WebSocketStatus.ALIVE ? group.reconnect?.openedAt ?? null : null,
+                lastMessageAt: group.liveness?.lastMessageAt ?? null,
+                reconnectAttempts: group.reconnect?.attempts ?? 0,
+                pingRttMs: group.liveness?.pingRttMs ?? null,
+                messagesPerSecond: messagesPerSecond(group.liveness, now),
+            }));
+    }
+
     /**
      * Find the first group with capacity to hold new markets.
      * 
      * Returns the groupId if found, otherwise null.
      */
     public findGroupWithCapacity(newMarketLen: number, maxPerWS: number): string | null {
-        for (const group of userWsGroups) {
+        for (const group of this.userWsGroups) {
             // Skip subscribe-to-all groups and empty groups
             if (group.marketIds.size === 0 || group.subscribeToAll) continue;
             if (group.marketIds.size + newMarketLen <= maxPerWS) return group.groupId;
@@ -55,14 +82,14 @@ export class UserGroupRegistry {
      * Check if any group contains the market or if any group is configured to subscribe to all.
      */
     public hasMarket(marketId: string): boolean {
-        return userWsGroups.some(group => group.marketIds.has(marketId) || group.subscribeToAll);
+        return this.userWsGroups.some(group => group.marketIds.has(marketId) || group.subscribeToAll);
     }
 
     /**
      * Check if any group is configured to subscribe to all events.
      */
     public hasSubscribeToAll(): boolean {
-        return userWsGroups.some(group => group.subscribeToAll);
+        return this.userWsGroups.some(group => group.subscribeToAll);
     }
 
     /**
@@ -71,7 +98,7 @@ export class UserGroupRegistry {
      * Returns the group if found, otherwise undefined.
      */
     public findGroupById(groupId: string): UserWebSocketGroup | undefined {
-        return userWsGroups.find(g => g.groupId === groupId);
+        return this.userWsGroups.find(g => g.groupId === groupId);
     }
 
     /**
@@ -90,6 +117,29 @@ export class UserGroupRegistry {
         return removed;
     }
 
+    /**
+     * Close the socket of every group with a normal close code while keeping
+     * the markets, so that the groups are reconnected once the manager is
+     * started again.
+     * 
+     * Resolves once every socket has closed.
+     */
+    public async closeAllGroups(timeoutMs: number): Promise<void> {
+        const sockets: WebSocket[] = [];
+        await this.mutate(groups => {
+            for (const group of groups) {
+                if (group.wsClient) {
+                    sockets.push(group.wsClient);
+                    group.wsClient = null;
+                }
+                if (group.status === WebSocketStatus.ALIVE) {
+                    group.status = WebSocketStatus.DEAD;
+                }
+            }
+        });
+        await Promise.all(sockets.map(ws => closeWebSocket(ws, timeoutMs)));
+    }
+
     /**
      * Add new market subscriptions.
      * 
@@ -151,12 +201,12 @@ export class UserGroupRegistry {
         });
 
         if (marketIds.length === 0) {
-            logger.info({
+            this.logger.info({
                 message: 'Added user "subscribe to all" subscription',
                 groupsToConnect: groupIdsToConnect.length
             });
         } else {
-            logger.info({
+            this.logger.info({
                 message: 'Added user market subscriptions',
                 newMarkets: newMarketIds.length,
                 groupsToConnect: groupIdsToConnect.length
@@ -169,6 +219,8 @@ export class UserGroupRegistry {
     /**
      * Remove market subscriptions.
      * 
+     * Failed groups whose markets changed are set back to pending.
+     * 
      * @param marketIds - The marketIds to remove.
      * @returns An array of groupIds that were affected.
      */
@@ -182,6 +234,9 @@ export class UserGroupRegistry {
                     const group = groups[index];
                     if (group) {
                         group.marketIds.delete(marketId);
+                        if (group.status === WebSocketStatus.FAILED) {
+                            retryFailedGroup(group);
+                        }
                         if (!affectedGroupIds.includes(group.groupId)) {
                             affectedGroupIds.push(group.groupId);
                         }
@@ -194,7 +249,7 @@ export class UserGroupRegistry {
             }
         });
 
-        logger.info({
+        this.logger.info({
             message: 'Removed user market subscriptions',
             removedMarkets: marketIds.length,
             affectedGroups: affectedGroupIds.length
@@ -203,9 +258,40 @@ export class UserGroupRegistry {
         return affectedGroupIds;
     }
 
+    /**
+     * Replace the credentials of every group.
+     * 
+     * Failed groups are set back to pending, since they may have failed on the old credentials.
+     * 
+     * @param auth - The new authentication credentials.
+     * @returns An array of groupIds that need websocket connections.
+     */
+    public async updateAuth(auth: ApiCredentials): Promise<string[]> {
+        const groupIdsToConnect: string[] = [];
+
+        await this.mutate(groups => {
+            for (const group of groups) {
+                group.auth = { ...auth };
+                if (group.status === WebSocketStatus.FAILED) {
+                    retryFailedGroup(group);
+                    groupIdsToConnect.push(group.groupId);
+                }
+            }
+        });
+
+        this.logger.info({
+            message: 'Updated user channel credentials',
+            groupsToConnect: groupIdsToConnect.length
+        });
+
+        return groupIdsToConnect;
+    }
+
     /**
      * Get groups that need reconnection or cleanup.
      * 
+     * Failed groups are skipped until their markets or credentials change.
+     * 
      * @returns An array of groupIds that need to be processed.
      */
     public async getGroupsToReconnectAndCleanup(): Promise<string[]> {
@@ -220,8 +306,15 @@ export class UserGroupRegistry {
                     // Remove groups marked for cleanup or empty groups (except subscribe-to-all groups)
                     groups.splice(i, 1);
                 } else if (group.status === WebSocketStatus.DEAD && (group.marketIds.size > 0 || group.subscribeToAll)) {
+                    // A reconnect attempt is still in progress
+                    if (group.wsClient?.readyState === WebSocket.CONNECTING) {
+                        continue;
+                    }
                     // Groups that need reconnection (either have markets or are subscribe-to-all)
                     groupIds.push(group.groupId);
+                } else if (group.status === WebSocketStatus.PENDING) {
+                    // Groups added while the manager was stopped
+                    groupIds.push(group.groupId);
                 }
             }
         });
@@ -1,7 +1,14 @@
 import WebSocket from 'ws';
 import Bottleneck from 'bottleneck';
-import { logger } from '../logger';
+import { defaultLogger } from '../logger';
+import { Logger } from '../types/Logger';
 import { UserWebSocketGroup, WebSocketStatus } from '../types/WebSocketSubscriptions';
+import { markGroupOpened } from './ReconnectPolicy';
+import { ConnectionWatchdog, ConnectionWatchdogOptions } from './ConnectionWatchdog';
+import { classifyClose, classifySocketError } from './classifyClose';
+import { callDetached } from './callDetached';
+import { ConnectionError, HandlerError, ParseError } from '../errors';
+import { SubscriptionMetrics } from './SubscriptionMetrics';
 import {
     OrderEvent,
     TradeEvent,
@@ -14,16 +21,33 @@ import _ from 'lodash';
 import ms from 'ms';
 import { randomInt } from 'crypto';
 
-const CLOB_USER_WSS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/user';
+export const CLOB_USER_WSS_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/user';
+
+export type UserGroupSocketOptions = ConnectionWatchdogOptions & {
+    // User channel endpoint (default: CLOB_USER_WSS_URL)
+    url?: string;
+
+    // Options passed to the `ws` client, e.g. headers, agent or handshakeTimeout
+    wsClientOptions?: WebSocket.ClientOptions;
+
+    metrics?: SubscriptionMetrics;
+
+    logger?: Logger;
+};
 
 export class UserGroupSocket {
     private pingInterval!: NodeJS.Timeout;
+    private watchdog?: ConnectionWatchdog;
+    private logger: Logger;
 
     constructor(
         private group: UserWebSocketGroup,
         private limiter: Bottleneck,
         private handlers: UserWebSocketHandlers,
-    ) {}
+        private options: UserGroupSocketOptions = {},
+    ) {
+        this.logger = (options.logger ?? defaultLogger).child({ groupId: group.groupId });
+    }
 
     /**
      * Establish the websocket connection using the provided Bottleneck limiter.
@@ -36,21 +60,19 @@ export class UserGroupSocket {
         }
 
         try {
-            logger.info({
+            this.logger.info({
                 message: 'Connecting to CLOB User WebSocket',
-                groupId: this.group.groupId,
                 marketIdsLength: this.group.marketIds.size,
             });
             this.group.wsClient = await this.limiter.schedule({ priority: 0 }, async () => { 
-                const ws = new WebSocket(CLOB_USER_WSS_URL);
+                const ws = new WebSocket(this.options.url || CLOB_USER_WSS_URL, this.options.wsClientOptions);
                 /*
                     This handler will be replaced by the handlers in setupEventHandlers
                 */
                 ws.on('error', (err) => {
-                    logger.warn({
+                    this.logger.warn({
                         message: 'Error connecting to CLOB User WebSocket',
                         error: err,
-                        groupId: this.group.groupId,
                         marketIdsLength: this.group.marketIds.size,
                     });
                 });
@@ -64,13 +86,41 @@ export class UserGroupSocket {
         this.setupEventHandlers();
     }
 
+    private stopHeartbeat() {
+        clearInterval(this.pingInterval);
+        this.watchdog?.stop();
+    }
+
+    /*
+        Reports an error from a socket or watchdog callback, which can not wait for onError.
+    */
+    private reportError(error: Error): void {
+        callDetached(this.logger, 'onError', this.handlers.onError, error);
+    }
+
     private setupEventHandlers() {
         const group = this.group;
         const handlers = this.handlers;
+        const currentWebSocket = group.wsClient;
 
         /*
             Define handlers within this scope to capture 'this' context
         */
+        const handleStale = (reason: string) => {
+            if (!currentWebSocket || currentWebSocket !== group.wsClient) {
+                return;
+            }
+
+            this.logger.warn({
+                message: 'Terminating stale User WebSocket',
+                reason,
+            });
+            group.status = WebSocketStatus.DEAD;
+            this.stopHeartbeat();
+            this.reportError(new ConnectionError(`Stale connection for group ${group.groupId}: ${reason}`, { groupId: group.groupId }));
+            currentWebSocket.terminate();
+        };
+
         const handleOpen = async () => {
             // Don't clean up "subscribe to all" groups even if they have no specific markets
             if (group.marketIds.size === 0 && !group.subscribeToAll) {
@@ -79,6 +129,8 @@ export class UserGroupSocket {
             }
 
             group.status = WebSocketStatus.ALIVE;
+            markGroupOpened(group);
+            this.options.metrics?.connectionOpened();
 
             const subscriptionMessage = {
                 markets: Array.from(group.marketIds),
@@ -93,35 +145,43 @@ export class UserGroupSocket {
             try {
                 group.wsClient!.send(JSON.stringify(subscriptionMessage));
             } catch (err) {
-                logger.warn({
+                this.logger.warn({
                     message: 'Failed to send subscription message on WebSocket open',
                     error: err,
-                    groupId: group.groupId,
                     marketIdsLength: group.marketIds.size,
                 });
                 group.status = WebSocketStatus.DEAD;
                 return;
             }
+
+            this.watchdog = new ConnectionWatchdog(group, group.wsClient!, this.options, handleStale, (rttMs) => {
+                callDetached(this.logger, 'onPingLatency', handlers.onPingLatency, group.groupId, rttMs);
+            });
+            this.watchdog.start();
+
             await handlers.onWSOpen?.(group.groupId, Array.from(group.marketIds));
 
             this.pingInterval = setInterval(() => {
                 // Don't clean up "subscribe to all" groups even if they have no specific markets
                 if (group.marketIds.size === 0 && !group.subscribeToAll) {
-                    clearInterval(this.pingInterval);
+                    this.stopHeartbeat();
                     group.status = WebSocketStatus.CLEANUP;
                     return;
                 }
 
                 if (!group.wsClient) {
-                    clearInterval(this.pingInterval);
+                    this.stopHeartbeat();
                     group.status = WebSocketStatus.DEAD;
                     return;
                 }
-                group.wsClient.ping();
+                this.watchdog?.ping();
             }, randomInt(ms('15s'), ms('25s')));
         };
 
         const handleMessage = async (data: Buffer) => {
+            this.watchdog?.recordMessage();
+            this.options.metrics?.messageReceived();
+
             const rawMessage = data.toString();
             const normalizedMessage = rawMessage.trim().toUpperCase();
             if (normalizedMessage === 'PONG') {
@@ -133,7 +193,8 @@ export class UserGroupSocket {
                 const parsedData: any = JSON.parse(rawMessage);
                 events = Array.isArray(parsedData) ? parsedData : [parsedData];
             } catch (err) {
-                await handlers.onError?.(new Error(`Not JSON: ${rawMessage}`));
+                this.options.metrics?.parseFailed();
+                await handlers.onError?.(new ParseError(`Not JSON: ${rawMessage}`, { groupId: group.groupId, cause: err }));
                 return;
             }
 
@@ -142,6 +203,10 @@ export class UserGroupSocket {
                 event && typeof event === 'object' && event.event_type
             );
 
+            for (const event of events) {
+                this.options.metrics?.eventReceived(event.event_type);
+            }
+
             const orderEvents: OrderEvent[] = [];
             const tradeEvents: TradeEvent[] = [];
 
@@ -154,27 +219,46 @@ export class UserGroupSocket {
             }
 
             // Call handlers with batched events
-            if (orderEvents.length > 0) {
-                await handlers.onOrder?.(orderEvents);
-            }
+            try {
+                if (orderEvents.length > 0) {
+                    await handlers.onOrder?.(orderEvents);
+                }
 
-            if (tradeEvents.length > 0) {
-                await handlers.onTrade?.(tradeEvents);
+                if (tradeEvents.length > 0) {
+                    await handlers.onTrade?.(tradeEvents);
+                }
+            } catch (err) {
+                await handlers.onError?.(new HandlerError(`Error handling message: ${err}`, { groupId: group.groupId, cause: err }));
             }
         };
 
         const handlePong = () => {
-            // WebSocket is alive, no action needed
+            this.watchdog?.recordPong();
         };
 
-        const handleError = async (err: Error) => {
-            await handlers.onError?.(new Error(`WebSocket error for group ${group.groupId}: ${err.message}`));
+        const handleError = (err: Error) => {
+            const error = classifySocketError(group.groupId, err);
+            if (!error.retryable) {
+                group.status = WebSocketStatus.FAILED;
+                this.stopHeartbeat();
+            }
+            this.reportError(error);
         };
 
         const handleClose = async (code: number, reason?: Buffer) => {
-            group.status = WebSocketStatus.DEAD;
-            clearInterval(this.pingInterval);
-            await handlers.onWSClose?.(group.groupId, code, reason?.toString() || '');
+            const reasonStr = reason?.toString() || '';
+            const error = classifyClose(group.groupId, code, reasonStr, 'user');
+
+            // A rejected handshake is followed by a close, keep the group parked
+            if (group.status !== WebSocketStatus.FAILED) {
+                group.status = error.retryable ? WebSocketStatus.DEAD : WebSocketStatus.FAILED;
+                if (!error.retryable) {
+                    this.reportError(error);
+                }
+            }
+            this.stopHeartbeat();
+            this.options.metrics?.connectionClosed(code);
+            await handlers.onWSClose?.(group.groupId, code, reasonStr);
         };
 
         if (group.wsClient) {
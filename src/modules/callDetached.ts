@@ -0,0 +1,24 @@
+import { Logger } from '../types/Logger';
+
+/**
+ * Call a handler from a callback that can not wait for it, e.g. a socket or timer callback.
+ *
+ * A handler that throws or rejects is logged as `<name> handler failed` instead of
+ * becoming an unhandled rejection. Never throws.
+ */
+export function callDetached<A extends unknown[]>(
+    logger: Logger,
+    name: string,
+    handler: ((...args: A) => unknown) | undefined,
+    ...args: A
+): void {
+    if (!handler) {
+        return;
+    }
+    new Promise(resolve => resolve(handler(...args))).catch((err) => {
+        logger.error({
+            message: `${name} handler failed`,
+            error: err,
+        });
+    });
+}
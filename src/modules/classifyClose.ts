@@ -0,0 +1,43 @@
+import { AuthError, ConnectionError } from '../errors';
+
+// Close reasons of the user channel for rejected credentials, matched as a whole
+const AUTH_FAILURE = /^(unauthori[sz]ed|forbidden|invalid (api ?key|credentials)|auth(entication)? failed)$/i;
+
+// Handshake rejected with 401 Unauthorized or 403 Forbidden
+const AUTH_HANDSHAKE_FAILURE = /Unexpected server response: (401|403)\b/;
+
+/*
+    https://www.rfc-editor.org/rfc/rfc6455#section-7.4.1
+
+    Reconnecting with the same subscriptions and settings would fail the same way:
+    protocol error, unsupported data, invalid payload, policy violation and missing extension.
+    Everything else (going away, abnormal closure, server restart, try again later, ...) is retried.
+*/
+const FATAL_CLOSE_CODES = new Set([1002, 1003, 1007, 1008, 1010]);
+
+/**
+ * Classify a close frame as retryable or fatal.
+ *
+ * Only the user channel sends credentials, so only its close reasons are checked
+ * for rejected credentials.
+ */
+export function classifyClose(groupId: string, code: number, reason: string, channel: 'market' | 'user'): ConnectionError {
+    const message = `WebSocket for group ${groupId} closed with code ${code}${reason ? `: ${reason}` : ''}`;
+
+    if (channel === 'user' && AUTH_FAILURE.test(reason.trim())) {
+        return new AuthError(message, { groupId, code, reason });
+    }
+    return new ConnectionError(message, { groupId, code, reason, retryable: !FATAL_CLOSE_CODES.has(code) });
+}
+
+/**
+ * Classify a socket `error` event, e.g. a failed handshake, as retryable or fatal.
+ */
+export function classifySocketError(groupId: string, err: Error): ConnectionError {
+    const message = `WebSocket error for group ${groupId}: ${err.message}`;
+
+    if (AUTH_HANDSHAKE_FAILURE.test(err.message)) {
+        return new AuthError(message, { groupId, cause: err });
+    }
+    return new ConnectionError(message, { groupId, cause: err });
+}
@@ -0,0 +1,37 @@
+import WebSocket from 'ws';
+
+// https://www.rfc-editor.org/rfc/rfc6455#section-7.4.1
+export const NORMAL_CLOSURE_CODE = 1000;
+
+/**
+ * Close a websocket with a normal close code and resolve once it has emitted `close`.
+ *
+ * If the closing handshake does not complete within `timeoutMs` the socket is terminated.
+ * Never rejects.
+ */
+export async function closeWebSocket(ws: WebSocket, timeoutMs: number, reason = 'client shutdown'): Promise<void> {
+    if (ws.readyState === WebSocket.CLOSED) {
+        return;
+    }
+
+    await new Promise<void>((resolve) => {
+        const timeout = setTimeout(() => {
+            try { ws.terminate(); } catch { /* already gone */ }
+            resolve();
+        }, timeoutMs);
+
+        ws.once('close', () => {
+            clearTimeout(timeout);
+            resolve();
+        });
+
+        try {
+            ws.close(NORMAL_CLOSURE_CODE, reason);
+        } catch {
+            // Socket was still connecting, drop it
+            clearTimeout(timeout);
+            try { ws.terminate(); } catch { /* already gone */ }
+            resolve();
+        }
+    });
+}
@@ -0,0 +1,32 @@
+import { parseDecimal } from './Decimal';
+
+const ZERO = BigInt(0);
+
+/**
+ * Decimal places of a tick size, e.g. 3 for '0.001'.
+ */
+export function tickDecimals(tickSize: string): number {
+    return tickSize.split('.')[1]?.length ?? 0;
+}
+
+/**
+ * Decimal places needed to represent the midpoint of two prices on the tick size grid.
+ */
+export function midpointDecimals(tickSize: string): number {
+    return tickDecimals(tickSize) + 1;
+}
+
+/**
+ * Whether a price is a multiple of the tick size.
+ * 
+ * Returns true if either value is not a decimal number or the tick size is not positive,
+ * since the grid is then unknown.
+ */
+export function isOnTickGrid(price: string, tickSize: string): boolean {
+    const value = parseDecimal(price);
+    const tick = parseDecimal(tickSize);
+    if (value === null || tick === null || tick <= ZERO) {
+        return true;
+    }
+    return value % tick === ZERO;
+}
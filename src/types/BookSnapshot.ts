@@ -0,0 +1,23 @@
+import { PriceLevel } from './PolymarketWebSocket';
+
+/**
+ * Full order book of an asset, as returned by the CLOB REST `/book` endpoint.
+ */
+export type BookSnapshot = {
+    asset_id: string;
+    market: string;
+    timestamp: string;
+    hash: string;
+    bids: PriceLevel[];
+    asks: PriceLevel[];
+    tick_size?: string;
+};
+
+/**
+ * Source of book snapshots, used to refresh stale books without waiting for a `book` event.
+ *
+ * Implement this interface to read snapshots from e.g. a cache shared between processes.
+ */
+export interface BookSnapshotProvider {
+    getBook(assetId: string): Promise<BookSnapshot>;
+}
@@ -0,0 +1,22 @@
+/**
+ * A log entry: a message and structured fields.
+ */
+export type LogEntry = {
+    message: string;
+    [field: string]: unknown;
+};
+
+/**
+ * Logger the subscription managers write to.
+ *
+ * `child` returns a logger that adds the given fields to every entry, the
+ * managers bind their `managerId` and each connection its `groupId`.
+ * Implement this interface to forward logs to e.g. pino.
+ */
+export interface Logger {
+    debug(entry: LogEntry): void;
+    info(entry: LogEntry): void;
+    warn(entry: LogEntry): void;
+    error(entry: LogEntry): void;
+    child(fields: Record<string, unknown>): Logger;
+}
@@ -0,0 +1,83 @@
+/**
+ * A token of a market and the name of its outcome, e.g. 'Yes'
+ */
+export type MarketOutcome = {
+    assetId: string;
+    name: string;
+};
+
+/**
+ * Description of a market, as listed by the Gamma API.
+ */
+export type MarketMetadata = {
+    // Condition id, the `market` of the CLOB events
+    conditionId: string;
+    question: string;
+    slug: string;
+
+    // Slug of the event grouping the market, null if unknown
+    eventSlug: string | null;
+
+    // Tokens in the order of the market outcomes, e.g. Yes then No
+    outcomes: MarketOutcome[];
+
+    // Minimum tick size when the market was listed, null if unknown
+    tickSize: string | null;
+
+    // ISO 8601 end date, null if unknown
+    endDate: string | null;
+
+    // Whether the market is part of a negative risk event
+    negRisk: boolean;
+};
+
+/**
+ * The market of a token and the outcome it stands for, see WSSubscriptionManager.getAssetMetadata
+ */
+export type AssetMetadata = {
+    market: MarketMetadata;
+    outcome: MarketOutcome;
+};
+
+/**
+ * Market and outcome of the token of an event, attached by the `metadataEnrichment` option
+ */
+export type OutcomeMetadata = {
+    question: string;
+    outcome: string;
+    slug: string;
+    endDate: string | null;
+    negRisk: boolean;
+
+    // Tick size of the cached book, or of the market metadata before a book was received
+    tickSize: string | null;
+};
+
+export type MetadataEnrichmentOptions = {
+    // Refresh the metadata of a market in the background once it is older (default: 1h)
+    ttlMs?: number;
+
+    // Markets per provider request when refreshing, a failed batch does not hold back the others (default: 50)
+    batchSize?: number;
+};
+
+/**
+ * Markets to resolve, by condition id, market slug or event slug (every market of the event)
+ */
+export type MarketQuery = {
+    conditionIds?: string[];
+    marketSlugs?: string[];
+    eventSlugs?: string[];
+};
+
+/**
+ * Source of market metadata, used to subscribe to markets by condition id or slug.
+ *
+ * Implement this interface to read metadata from e.g. a local database or a stub.
+ */
+export interface MarketMetadataProvider {
+    /**
+     * Markets matching any of the query fields. Markets that are not found are left out.
+     */
+    getMarkets(query: MarketQuery): Promise<MarketMetadata[]>;
+}
@@ -0,0 +1,31 @@
+export type MetricLabels = Record<string, string | number>;
+
+export interface CounterMetric {
+    inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface GaugeMetric {
+    set(labels: MetricLabels, value: number): void;
+}
+
+export interface HistogramMetric {
+    observe(labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Registry the subscription managers record their metrics into.
+ *
+ * Metric factories must return the already registered metric when called again
+ * with the same name, so that several managers can share one registry. Implement
+ * this interface to forward metrics to e.g. prom-client or OpenTelemetry.
+ */
+export interface MetricsRegistry {
+    counter(name: string, help: string, labelNames: string[]): CounterMetric;
+    gauge(name: string, help: string, labelNames: string[]): GaugeMetric;
+    histogram(name: string, help: string, labelNames: string[], buckets?: number[]): HistogramMetric;
+
+    /**
+     * All metrics in the Prometheus text exposition format.
+     */
+    metrics(): string | Promise<string>;
+}
@@ -0,0 +1,179 @@
+import { Side } from './PolymarketWebSocket';
+
+/**
+ * Representation of prices and sizes returned by the book read API:
+ * - 'string': as sent by Polymarket (default)
+ * - 'number': parsed numbers, beware of float artifacts in further arithmetic
+ * - 'bigint': exact fixed-point units of 10^-DECIMAL_SCALE, e.g. 500000000000000000n for '0.5'
+ */
+export type DecimalFormat = 'string' | 'number' | 'bigint';
+
+export type DecimalValue<F extends DecimalFormat> = F extends 'number' ? number : F extends 'bigint' ? bigint : string;
+
+export type BookLevel<F extends DecimalFormat = 'string'> = {
+    readonly price: DecimalValue<F>;
+    readonly size: DecimalValue<F>;
+};
+
+/**
+ * Immutable copy of a cached book, see WSSubscriptionManager.getBook
+ */
+export type OrderBook<F extends DecimalFormat = 'string'> = {
+    readonly assetId: string;
+    readonly market: string;
+
+    // Timestamp of the last `book` or `price_change` event applied to the book
+    readonly timestamp: string;
+
+    // Levels in the order of Polymarket book events, best price last (bids ascending, asks descending)
+    readonly bids: ReadonlyArray<BookLevel<F>>;
+    readonly asks: ReadonlyArray<BookLevel<F>>;
+
+    // Last price emitted with onPolymarketPriceUpdate, null until the first update
+    readonly price: DecimalValue<F> | null;
+
+    // Minimum tick size, null while unknown
+    readonly tickSize: DecimalValue<F> | null;
+
+    // Levels whose price is not a multiple of the tick size, normally none
+    readonly offGridLevels: ReadonlyArray<BookLevel<F>>;
+
+    // Updates may have been missed since the last snapshot, see "Book integrity"
+    readonly stale: boolean;
+};
+
+/**
+ * Top of a cached book, see WSSubscriptionManager.getBestBidAsk
+ */
+export type BestBidAsk<F extends DecimalFormat = 'string'> = {
+    readonly assetId: string;
+    readonly timestamp: string;
+
+    // Null when the side is empty
+    readonly bestBid: BookLevel<F> | null;
+    readonly bestAsk: BookLevel<F> | null;
+
+    readonly stale: boolean;
+};
+
+/**
+ * Amount of an order, in shares (`size`) or in USDC (`notional`)
+ */
+export type FillAmount = { size: string | number } | { notional: string | number };
+
+/**
+ * Estimated execution of an order against a cached book, see WSSubscriptionManager.estimateFill
+ */
+export type FillEstimate<F extends DecimalFormat = 'string'> = {
+    readonly assetId: string;
+
+    // Side of the order, BUY walks the asks and SELL the bids
+    readonly side: Side;
+
+    // Shares filled, less than requested when the book is too thin
+    readonly size: DecimalValue<F>;
+
+    // Cost of a buy or proceeds of a sell, in USDC
+    readonly notional: DecimalValue<F>;
+
+    // Null when nothing fills
+    readonly averagePrice: DecimalValue<F> | null;
+    readonly worstPrice: DecimalValue<F> | null;
+
+    readonly levelsConsumed: number;
+
+    // Distance of the average price from the midpoint, positive when worse, null without a midpoint
+    readonly slippage: DecimalValue<F> | null;
+
+    // Whether the book holds enough liquidity for the whole amount
+    readonly complete: boolean;
+
+    readonly stale: boolean;
+};
+
+/**
+ * A level of one side of a book with the totals up to it from the best price,
+ * see WSSubscriptionManager.cumulativeDepth
+ */
+export type DepthLevel<F extends DecimalFormat = 'string'> = BookLevel<F> & {
+    readonly cumulativeSize: DecimalValue<F>;
+
+    // Sum of price * size, in USDC
+    readonly cumulativeNotional: DecimalValue<F>;
+};
+
+/**
+ * Options of the book metrics, see WSSubscriptionManager.getBookMetrics
+ */
+export type BookMetricsOptions = {
+    // Levels per side of the imbalance and weighted midpoint (default: 5)
+    depthLevels?: number;
+
+    // Distance from the midpoint of the levels counted as liquidity (default: 0.05)
+    liquidityBand?: string | number;
+
+    // Minimum interval between two onBookMetrics events of an asset, a change within the
+    // interval is emitted at its end (default: 1000)
+    throttleMs?: number;
+};
+
+/**
+ * Imbalance and liquidity of a cached book, see WSSubscriptionManager.getBookMetrics
+ */
+export type BookMetrics<F extends DecimalFormat = 'string'> = {
+    readonly assetId: string;
+    readonly market: string;
+    readonly timestamp: string;
+
+    // (bid size - ask size) / (bid size + ask size) over the top `depthLevels` levels, from -1 to 1
+    readonly imbalance: DecimalValue<F> | null;
+
+    // Sizes of the levels within `liquidityBand` of the midpoint, null without a midpoint
+    readonly bidLiquidity: DecimalValue<F> | null;
+    readonly askLiquidity: DecimalValue<F> | null;
+
+    // Null while either side is empty
+    readonly midpoint: DecimalValue<F> | null;
+
+    // Best bid and ask weighted by the size on the opposite side
+    readonly microprice: DecimalValue<F> | null;
+
+    // Average bid and ask prices of the top `depthLevels` levels, weighted like the microprice
+    readonly weightedMidpoint: DecimalValue<F> | null;
+
+    readonly bidLevels: number;
+    readonly askLevels: number;
+
+    readonly stale: boolean;
+};
+
+/**
+ * Merged book of the two tokens of a binary market, see WSSubscriptionManager.getMarketBook
+ */
+export type MarketBook<F extends DecimalFormat = 'string'> = {
+    readonly market: string;
+
+    // Token the prices are expressed in, and the other outcome, whose levels at p appear at 1 - p
+    readonly assetId: string;
+    readonly complementAssetId: string;
+
+    // Latest timestamp of the two books
+    readonly timestamp: string;
+
+    // Levels of both books, best price last (bids ascending, asks descending), sizes at the same price added
+    readonly bids: ReadonlyArray<BookLevel<F>>;
+    readonly asks: ReadonlyArray<BookLevel<F>>;
+
+    // Effective best prices across both tokens, null when both books lack that side
+    readonly bestBid: BookLevel<F> | null;
+    readonly bestAsk: BookLevel<F> | null;
+
+    // Rounded like WSSubscriptionManager.getMidpoint, null while a side is empty
+    readonly midpoint: DecimalValue<F> | null;
+    readonly spread: DecimalValue<F> | null;
+
+    readonly tickSize: DecimalValue<F> | null;
+
+    // Whether either book is stale
+    readonly stale: boolean;
+};
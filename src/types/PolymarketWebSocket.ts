@@ -1,3 +1,6 @@
+import { BookMetrics } from './OrderBook';
+import { OutcomeMetadata } from './MarketMetadata';
+
 /**
  * Enum for trade sides
  */
@@ -47,6 +50,9 @@ export type PriceChangeItem = {
     hash: string;
     best_bid: string;
     best_ask: string;
+
+    // Market and outcome of the token, with the `metadataEnrichment` option
+    metadata?: OutcomeMetadata;
 };
 
 /**
@@ -122,6 +128,12 @@ export type BookEvent = {
     bids: PriceLevel[];
     asks: PriceLevel[];
     event_type: 'book';
+
+    // Minimum tick size, when sent with the book
+    tick_size?: string;
+
+    // Market and outcome of the token, with the `metadataEnrichment` option
+    metadata?: OutcomeMetadata;
 };
 
 /**
@@ -147,6 +159,9 @@ export type LastTradePriceEvent = {
     side: Side;
     size: string;
     timestamp: string;
+
+    // Market and outcome of the token, with the `metadataEnrichment` option
+    metadata?: OutcomeMetadata;
 };
 
 /**
@@ -369,8 +384,140 @@ export interface PolymarketPriceUpdateEvent {
     price: string;
     midpoint: string;
     spread: string;
+
+    // Market and outcome of the token, with the `metadataEnrichment` option
+    metadata?: OutcomeMetadata;
+}
+
+/**
+ * Represents a change of the best bid or ask of a cached book
+ * 
+ * This is a derived event, emitted after a `book` or `price_change` event changed
+ * the price or size of the top of the book. It is not emitted by the Polymarket WebSocket directly.
+ * 
+ * Prices and sizes are null while that side of the book is empty.
+ */
+export interface BestBidAskEvent {
+    event_type: 'best_bid_ask';
+    asset_id: string;
+    market: string;
+    timestamp: string;
+    triggeringEvent: BookEvent | PriceChangeEvent;
+    best_bid: string | null;
+    best_bid_size: string | null;
+    best_ask: string | null;
+    best_ask_size: string | null;
+    spread: string | null;
+}
+
+/**
+ * A price level of a cached book that was added, resized or removed
+ */
+export type BookLevelDelta = {
+    // BUY for the bids, SELL for the asks
+    side: Side;
+    price: string;
+    action: 'add' | 'update' | 'remove';
+
+    // Size before the change, null for an added level
+    old_size: string | null;
+
+    // Size after the change, null for a removed level
+    new_size: string | null;
+};
+
+/**
+ * Represents the levels of a cached book changed by an event
+ * 
+ * This is a derived event, emitted after a `book` or `price_change` event was applied
+ * to the cached book. A `book` event is compared with the book it replaced, so applying
+ * the deltas in order reproduces the cached book. It is not emitted by the Polymarket
+ * WebSocket directly.
+ * 
+ * Deltas are ordered bids first, then asks, each from the worst price to the best.
+ */
+export interface BookDeltaEvent {
+    event_type: 'book_delta';
+    asset_id: string;
+    market: string;
+    timestamp: string;
+    triggeringEvent: BookEvent | PriceChangeEvent;
+    deltas: BookLevelDelta[];
+}
+
+/**
+ * Represents the imbalance and liquidity of a cached book
+ * 
+ * This is a derived event, emitted after `book` or `price_change` events changed the
+ * cached book, at most once per `throttleMs` per asset. It is not emitted by the
+ * Polymarket WebSocket directly.
+ */
+export interface BookMetricsEvent {
+    event_type: 'book_metrics';
+    asset_id: string;
+    market: string;
+
+    // Timestamp of the last event applied to the book
+    timestamp: string;
+
+    metrics: BookMetrics;
 }
 
+/**
+ * Represents a price update of a binary market, derived from the merged book of its two tokens
+ * 
+ * This is a derived event, emitted when the price of `asset_id` changed after a `price_change` or
+ * `last_trade_price` event of either token. The price of the other outcome is `1 - price`.
+ * It is not emitted by the Polymarket WebSocket directly.
+ */
+export interface MarketPriceUpdateEvent {
+    event_type: 'market_price_update';
+    market: string;
+
+    // Token of `price` and `book`, the other outcome is `complement_asset_id`
+    asset_id: string;
+    complement_asset_id: string;
+
+    timestamp: string;
+    triggeringEvent: PriceChangeEvent | LastTradePriceEvent;
+
+    // Merged book, see WSSubscriptionManager.getMarketBook
+    book: Book;
+
+    price: string;
+    complement_price: string;
+    midpoint: string | null;
+    spread: string | null;
+}
+
+/**
+ * Union type of the events derived from the cached books
+ */
+export type PolymarketDerivedEvent =
+    | PolymarketPriceUpdateEvent
+    | BestBidAskEvent
+    | BookDeltaEvent
+    | BookMetricsEvent
+    | MarketPriceUpdateEvent;
+
+/**
+ * A cached book that disagrees with the values the server sent along a price change.
+ */
+export type BookDesyncDetails = {
+    market: string;
+
+    // The server field that disagreed with the cached book
+    field: 'best_bid' | 'best_ask' | 'hash';
+
+    // Value sent by the server
+    expected: string;
+
+    // Value computed from the cached book, null when that side of the book is empty
+    actual: string | null;
+
+    triggeringEvent: PriceChangeEvent;
+};
+
 /**
  * Represents the handlers for the Polymarket WebSocket
  */
@@ -401,10 +548,56 @@ export type WebSocketHandlers = {
     */
     onPolymarketPriceUpdate?: (events: PolymarketPriceUpdateEvent[]) => Promise<void>;
 
+    /*
+        Called when the best bid or ask of a cached book changes, with the top of the book.
+        Stale books emit nothing until a new snapshot arrives.
+
+        This is a derived event that is not emmited by the Polymarket WebSocket directly.
+    */
+    onBestBidAsk?: (events: BestBidAskEvent[]) => Promise<void>;
+
+    /*
+        Called with the levels added, resized or removed by each applied `book` or `price_change`
+        event, including the diff between a snapshot and the book it replaced. Stale books emit
+        deltas too, so that the deltas always reproduce the cached book.
+
+        This is a derived event that is not emmited by the Polymarket WebSocket directly.
+    */
+    onBookDelta?: (events: BookDeltaEvent[]) => Promise<void>;
+
+    /*
+        Called with the imbalance and liquidity of changed books, throttled per asset,
+        see the `bookMetrics` option. Stale books emit nothing until a new snapshot arrives.
+
+        This is a derived event that is not emmited by the Polymarket WebSocket directly.
+    */
+    onBookMetrics?: (events: BookMetricsEvent[]) => Promise<void>;
+
+    /*
+        Called when the price of a binary market changes, derived from the merged book of its
+        two tokens so that the prices of both outcomes add up to 1. Only emitted once the books
+        of both tokens are cached, and not while either is stale.
+
+        This is a derived event that is not emmited by the Polymarket WebSocket directly.
+    */
+    onMarketPriceUpdate?: (events: MarketPriceUpdateEvent[]) => Promise<void>;
+
+    /*
+        Called when a cached book diverged from the server. The book is marked stale and refreshed,
+        no price updates are derived for the asset until a new snapshot arrives.
+    */
+    onBookDesync?: (assetId: string, details: BookDesyncDetails) => Promise<void>;
+
     // Error handling
     onError?: (error: Error) => Promise<void>;
     onWSClose?: (groupId: string, code: number, reason: string) => Promise<void>;
     onWSOpen?: (groupId: string, assetIds: string[]) => Promise<void>;
+
+    // Called when a reconnect of a dead group is scheduled, e.g. to alert on flapping groups
+    onReconnectScheduled?: (groupId: string, attempt: number, delayMs: number) => Promise<void>;
+
+    // Called with the round-trip time of each answered ping
+    onPingLatency?: (groupId: string, rttMs: number) => Promise<void>;
 }
 
 /**
@@ -425,6 +618,12 @@ export type UserWebSocketHandlers = {
     onError?: (error: Error) => Promise<void>;
     onWSClose?: (groupId: string, code: number, reason: string) => Promise<void>;
     onWSOpen?: (groupId: string, marketIds: string[]) => Promise<void>;
+
+    // Called when a reconnect of a dead group is scheduled, e.g. to alert on flapping groups
+    onReconnectScheduled?: (groupId: string, attempt: number, delayMs: number) => Promise<void>;
+
+    // Called with the round-trip time of each answered ping
+    onPingLatency?: (groupId: string, rttMs: number) => Promise<void>;
 }
 
 /**
@@ -435,7 +634,7 @@ export type UserWebSocketHandlers = {
  *   console.log(event.bids);
  * }
  */
-export function isBookEvent(event: PolymarketWSEvent | PolymarketPriceUpdateEvent): event is BookEvent {
+export function isBookEvent(event: PolymarketWSEvent | PolymarketDerivedEvent): event is BookEvent {
     return event?.event_type === 'book';
 }
 
@@ -447,7 +646,7 @@ export function isBookEvent(event: PolymarketWSEvent | PolymarketPriceUpdateEven
  *   console.log(event.side);
  * }
  */
-export function isLastTradePriceEvent(event: PolymarketWSEvent | PolymarketPriceUpdateEvent): event is LastTradePriceEvent {
+export function isLastTradePriceEvent(event: PolymarketWSEvent | PolymarketDerivedEvent): event is LastTradePriceEvent {
     return event?.event_type === 'last_trade_price';
 }
 
@@ -459,7 +658,7 @@ export function isLastTradePriceEvent(event: PolymarketWSEvent | PolymarketPrice
  *   console.log(event.changes);
  * }
  */
-export function isPriceChangeEvent(event: PolymarketWSEvent | PolymarketPriceUpdateEvent): event is PriceChangeEvent {
+export function isPriceChangeEvent(event: PolymarketWSEvent | PolymarketDerivedEvent): event is PriceChangeEvent {
     return event?.event_type === 'price_change';
 }
 
@@ -471,7 +670,7 @@ export function isPriceChangeEvent(event: PolymarketWSEvent | PolymarketPriceUpd
  *   console.log(event.old_tick_size);
  * }
  */
-export function isTickSizeChangeEvent(event: PolymarketWSEvent | PolymarketPriceUpdateEvent): event is TickSizeChangeEvent {
+export function isTickSizeChangeEvent(event: PolymarketWSEvent | PolymarketDerivedEvent): event is TickSizeChangeEvent {
     return event?.event_type === 'tick_size_change';
 }
 
@@ -0,0 +1,31 @@
+import { LastTradePriceEvent, PriceChangeEvent, PriceLevel } from './PolymarketWebSocket';
+
+/**
+ * State of an asset after an event, passed to a PriceCalculator
+ */
+export type PriceCalculatorInput = {
+    assetId: string;
+
+    // Cached book, best price last (bids ascending, asks descending)
+    bids: ReadonlyArray<PriceLevel>;
+    asks: ReadonlyArray<PriceLevel>;
+
+    // Price of the last trade received since subscribing, null if none
+    lastTradePrice: string | null;
+
+    // Minimum tick size of the asset, null while unknown
+    tickSize: string | null;
+
+    triggeringEvent: PriceChangeEvent | LastTradePriceEvent;
+};
+
+/**
+ * Derives the price emitted with onPolymarketPriceUpdate
+ */
+export interface PriceCalculator {
+    /**
+     * Price of an asset after `triggeringEvent`, or null to emit nothing.
+     * An update is only emitted when the price differs from the last emitted one.
+     */
+    price(input: PriceCalculatorInput): string | null;
+}
@@ -1,5 +1,12 @@
 import Bottleneck from 'bottleneck';
 import WebSocket from 'ws';
+import { MetricsRegistry } from './Metrics';
+import { Logger } from './Logger';
+import { PriceLevel } from './PolymarketWebSocket';
+import { BookSnapshotProvider } from './BookSnapshot';
+import { PriceCalculator } from './PriceCalculator';
+import { BookMetricsOptions } from './OrderBook';
+import { MarketMetadataProvider, MetadataEnrichmentOptions } from './MarketMetadata';
 
 /**
  * Authentication credentials for user channel WebSocket connection
@@ -14,14 +21,67 @@ export enum WebSocketStatus {
     PENDING = 'pending', // New group that is pending connection
     ALIVE = 'alive',    // Group is connected and receiving events
     DEAD = 'dead',      // Group is disconnected
-    CLEANUP = 'cleanup' // Group is marked for cleanup
+    CLEANUP = 'cleanup', // Group is marked for cleanup
+    FAILED = 'failed'   // Group hit a non-retryable error, not reconnected until its subscriptions or credentials change
 }
 
+/**
+ * Per-group reconnect bookkeeping, see ReconnectScheduler
+ */
+export type ReconnectState = {
+    // Consecutive reconnect attempts since the group was last stable
+    attempts: number;
+
+    // When the next scheduled attempt is due (epoch ms), Infinity once the policy gave up
+    nextAttemptAt: number | null;
+
+    // When the current connection was opened (epoch ms)
+    openedAt: number | null;
+};
+
+/**
+ * Decides how long to wait before reconnecting a dead group
+ */
+export interface ReconnectPolicy {
+    /**
+     * Delay in ms before reconnect attempt `attempt` (starting at 1),
+     * or null to stop reconnecting the group.
+     */
+    nextDelayMs(attempt: number): number | null;
+}
+
+/**
+ * Per-group connection liveness, see ConnectionWatchdog
+ */
+export type ConnectionLiveness = {
+    // When the last message was received (epoch ms)
+    lastMessageAt: number | null;
+
+    // When the last pong was received (epoch ms)
+    lastPongAt: number | null;
+
+    // Round-trip time of the last answered ping
+    pingRttMs: number | null;
+
+    // Messages received on the current connection
+    messageCount: number;
+
+    // Sliding window message counter, see messagesPerSecond
+    messageRateWindow: {
+        startedAt: number;
+        count: number;
+        // Null during the first window of the connection
+        previousCount: number | null;
+    };
+};
+
 export type WebSocketGroup = {
     groupId: string;
     assetIds: Set<string>;
     wsClient: WebSocket | null;
     status: WebSocketStatus;
+    reconnect?: ReconnectState;
+    liveness?: ConnectionLiveness;
 };
 
 export type UserWebSocketGroup = {
@@ -31,8 +91,68 @@ export type UserWebSocketGroup = {
     status: WebSocketStatus;
     auth: ApiCredentials;
     subscribeToAll?: boolean;
+    reconnect?: ReconnectState;
+    liveness?: ConnectionLiveness;
 };
 
+/**
+ * Public view of a market channel group, see WSSubscriptionManager.getStatus
+ */
+export type GroupStatus = {
+    groupId: string;
+    status: WebSocketStatus;
+    assetCount: number;
+
+    // When the current connection was opened (epoch ms), null unless alive
+    connectedSince: number | null;
+
+    // When the last message was received on the current connection (epoch ms)
+    lastMessageAt: number | null;
+
+    // Consecutive reconnect attempts since the group was last stable
+    reconnectAttempts: number;
+
+    // Round-trip time of the last answered ping
+    pingRttMs: number | null;
+
+    // Messages per second over the last minute
+    messagesPerSecond: number;
+};
+
+/**
+ * Public view of a user channel group, see UserWSSubscriptionManager.getStatus
+ */
+export type UserGroupStatus = Omit<GroupStatus, 'assetCount'> & {
+    marketCount: number;
+    subscribeToAll: boolean;
+};
+
+export type SubscriptionManagerStatus = {
+    // Whether the reconnect and cleanup loop is running
+    running: boolean;
+    groups: GroupStatus[];
+};
+
+export type UserSubscriptionManagerStatus = {
+    // Whether the reconnect and cleanup loop is running
+    running: boolean;
+    groups: UserGroupStatus[];
+};
+
+/**
+ * The cached book passed to a `bookHash` function, levels in the order of Polymarket
+ * book events (bids ascending, asks descending).
+ */
+export type BookHashInput = {
+    market: string;
+    asset_id: string;
+    timestamp: string;
+    bids: PriceLevel[];
+    asks: PriceLevel[];
+};
+
+export type BookHashFunction = (book: BookHashInput) => string;
+
 export type SubscriptionManagerOptions = {
     burstLimiter?: Bottleneck;
 
@@ -42,8 +162,62 @@ export type SubscriptionManagerOptions = {
     // How many assets to allow per WebSocket (default: unlimited since Polymarket removed the 100 token limit)
     maxMarketsPerWS?: number;
 
-    // Whether to receive the initial order book state when subscribing (default: true)
+    // Whether to receive the initial order book state when subscribing (default: true).
+    // When false, books are only cached with `bookSnapshots`, otherwise the book read API
+    // and the events derived from books stay empty
     initialDump?: boolean;
+
+    // Whether to subscribe / unsubscribe on open connections instead of reconnecting (default: true)
+    liveSubscriptionUpdates?: boolean;
+
+    // Check the cached best bid / ask against the values sent with each price change (default: true)
+    verifyBestBidAsk?: boolean;
+
+    // Hash of a cached book, checked against the hash sent with each price change (default: disabled)
+    bookHash?: BookHashFunction;
+
+    // Reconnect the group of a book that diverged from the server, to receive a new snapshot (default: true)
+    resyncOnDesync?: boolean;
+
+    // Fetch snapshots of stale books, from the CLOB REST API when true or from the given provider (default: disabled)
+    bookSnapshots?: boolean | BookSnapshotProvider;
+
+    // Derives the price of onPolymarketPriceUpdate (default: PolymarketPriceCalculator, midpoint or last trade price above a 10 cent spread)
+    priceCalculator?: PriceCalculator;
+
+    // Depth, liquidity band and throttle of onBookMetrics and getBookMetrics (default: 5 levels, 0.05, 1s)
+    bookMetrics?: BookMetricsOptions;
+
+    // Resolves the markets of addMarketSubscriptions (default: GammaMarketMetadataProvider)
+    marketMetadata?: MarketMetadataProvider;
+
+    // Attach the market and outcome of their token to book, price change, last trade price and price update events (default: disabled)
+    metadataEnrichment?: boolean | MetadataEnrichmentOptions;
+
+    // Market channel endpoint, e.g. a staging or local mock server (default: Polymarket CLOB market channel)
+    wsUrl?: string;
+
+    // Options passed to the `ws` client: custom headers, HTTP(S) agent for proxies, handshake timeout,
+    // permessage-deflate, max payload, ...
+    wsClientOptions?: WebSocket.ClientOptions;
+
+    // Whether to start the reconnect and cleanup loop in the constructor (default: true)
+    autoStart?: boolean;
+
+    // How long to wait before reconnecting dead groups (default: exponential backoff with full jitter, 1s to 60s)
+    reconnectPolicy?: ReconnectPolicy;
+
+    // Terminate a connection whose ping is not answered within this window (default: 10s)
+    pongTimeoutMs?: number;
+
+    // Terminate a connection that receives no message for this long (default: disabled)
+    messageSilenceTimeoutMs?: number;
+
+    // Collect metrics, in an internal registry when true or in the given one (default: disabled)
+    metrics?: boolean | MetricsRegistry;
+
+    // Receives the logs, with a child per manager and per group (default: winston, level from LOG_LEVEL)
+    logger?: Logger;
 }
 
 export type UserSubscriptionManagerOptions = {
@@ -57,4 +231,29 @@ export type UserSubscriptionManagerOptions = {
 
     // Authentication credentials for user channel
     auth: ApiCredentials;
+
+    // User channel endpoint, e.g. a staging or local mock server (default: Polymarket CLOB user channel)
+    wsUrl?: string;
+
+    // Options passed to the `ws` client: custom headers, HTTP(S) agent for proxies, handshake timeout,
+    // permessage-deflate, max payload, ...
+    wsClientOptions?: WebSocket.ClientOptions;
+
+    // Whether to start the reconnect and cleanup loop in the constructor (default: true)
+    autoStart?: boolean;
+
+    // How long to wait before reconnecting dead groups (default: exponential backoff with full jitter, 1s to 60s)
+    reconnectPolicy?: ReconnectPolicy;
+
+    // Terminate a connection whose ping is not answered within this window (default: 10s)
+    pongTimeoutMs?: number;
+
+    // Terminate a connection that receives no message for this long (default: disabled)
+    messageSilenceTimeoutMs?: number;
+
+    // Collect metrics, in an internal registry when true or in the given one (default: disabled)
+    metrics?: boolean | MetricsRegistry;
+
+    // Receives the logs, with a child per manager and per group (default: winston, level from LOG_LEVEL)
+    logger?: Logger;
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BookMetricsStream } from '../src/modules/BookMetricsStream';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { BookEvent, PriceChangeEvent, Side, WebSocketHandlers } from '../src/types/PolymarketWebSocket';
+import { HandlerError } from '../src/errors';
+
+describe('BookMetricsStream', () => {
+    let bookCache: OrderBookCache;
+    let handlers: Pick<WebSocketHandlers, 'onBookMetrics' | 'onError'>;
+    let stream: BookMetricsStream;
+
+    const book: BookEvent = {
+        event_type: 'book',
+        asset_id: 'asset1',
+        market: 'market1',
+        timestamp: '1',
+        hash: 'hash',
+        bids: [{ price: '0.4', size: '10' }],
+        asks: [{ price: '0.5', size: '10' }],
+    };
+
+    const bid = (size: string, timestamp: string): PriceChangeEvent => ({
+        event_type: 'price_change',
+        market: 'market1',
+        timestamp,
+        price_changes: [{ asset_id: 'asset1', price: '0.4', size, side: Side.BUY, hash: 'hash', best_bid: '', best_ask: '' }],
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        bookCache = new OrderBookCache();
+        bookCache.replaceBook(book);
+        handlers = { onBookMetrics: vi.fn(), onError: vi.fn() };
+        stream = new BookMetricsStream(bookCache, handlers, { throttleMs: 1000 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should emit the first change immediately', async () => {
+        await stream.bookChanged('asset1');
+
+        expect(handlers.onBookMetrics).toHaveBeenCalledWith([{
+            event_type: 'book_metrics',
+            asset_id: 'asset1',
+            market: 'market1',
+            timestamp: '1',
+            metrics: bookCache.bookMetrics('asset1'),
+        }]);
+    });
+
+    it('should emit the latest metrics once at the end of the interval', async () => {
+        await stream.bookChanged('asset1');
+
+        bookCache.upsertPriceChange(bid('30', '2'));
+        await stream.bookChanged('asset1');
+        bookCache.upsertPriceChange(bid('50', '3'));
+        await stream.bookChanged('asset1');
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(2);
+        expect(handlers.onBookMetrics).toHaveBeenLastCalledWith([expect.objectContaining({
+            timestamp: '3',
+            metrics: expect.objectContaining({ imbalance: '0.666666666666666667' }),
+        })]);
+    });
+
+    it('should throttle each asset separately', async () => {
+        bookCache.replaceBook({ ...book, asset_id: 'asset2' });
+
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('asset2');
+
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip stale and removed books', async () => {
+        bookCache.markStale(['asset1']);
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('unknown');
+
+        expect(handlers.onBookMetrics).not.toHaveBeenCalled();
+
+        // A skipped book is emitted as soon as it is refreshed
+        bookCache.replaceBook(book);
+        await stream.bookChanged('asset1');
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel pending emissions', async () => {
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('asset1');
+
+        stream.cancelAll();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget removed assets', async () => {
+        bookCache.replaceBook({ ...book, asset_id: 'asset2' });
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('asset2');
+
+        stream.remove(['asset1']);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(2);
+
+        // A resubscribed asset starts a new throttle window
+        await stream.bookChanged('asset1');
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(3);
+    });
+
+    it('should forget every asset when cleared', async () => {
+        await stream.bookChanged('asset1');
+        await stream.bookChanged('asset1');
+
+        stream.clear();
+        await stream.bookChanged('asset1');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(handlers.onBookMetrics).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report errors of deferred emissions', async () => {
+        await stream.bookChanged('asset1');
+        const cause = new Error('boom');
+        handlers.onBookMetrics = vi.fn().mockRejectedValue(cause);
+
+        await stream.bookChanged('asset1');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(handlers.onError).toHaveBeenCalledWith(new HandlerError('Error handling book metrics: Error: boom', { cause }));
+    });
+});
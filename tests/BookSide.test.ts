@@ -0,0 +1,122 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from 'vitest';
+import { BookSide } from '../src/modules/BookSide';
+import { parseDecimal } from '../src/modules/Decimal';
+import { PriceLevel } from '../src/types/PolymarketWebSocket';
+
+describe('BookSide', () => {
+    it('should sort bids ascending and asks descending, best price last', () => {
+        const levels = [{ price: '0.5', size: '1' }, { price: '0.3', size: '2' }, { price: '0.4', size: '3' }];
+
+        expect(new BookSide(false, levels).levels.map(l => l.price)).toEqual(['0.3', '0.4', '0.5']);
+        expect(new BookSide(true, levels).levels.map(l => l.price)).toEqual(['0.5', '0.4', '0.3']);
+    });
+
+    it('should keep the last of duplicated prices and drop zero sizes', () => {
+        const side = new BookSide(false, [
+            { price: '0.5', size: '1' },
+            { price: '0.50', size: '4' },
+            { price: '0.2', size: '0' },
+        ]);
+
+        expect(side.levels).toEqual([{ price: '0.50', size: '4' }]);
+    });
+
+    it('should insert, update and remove levels', () => {
+        const side = new BookSide(true, [{ price: '0.6', size: '1' }, { price: '0.7', size: '1' }]);
+
+        side.set('0.65', '2');
+        side.set('0.55', '3');
+        side.set('0.7', '5');
+        side.set('0.6', '0');
+
+        expect(side.levels).toEqual([
+            { price: '0.7', size: '5' },
+            { price: '0.65', size: '2' },
+            { price: '0.55', size: '3' },
+        ]);
+        expect(side.best()).toEqual({ price: '0.55', size: '3' });
+        expect(side.bestPrice()).toBe(0.55);
+        expect(side.top(2)).toEqual([{ price: '0.55', size: '3' }, { price: '0.65', size: '2' }]);
+    });
+
+    it('should return the level replaced by an update', () => {
+        const side = new BookSide(false, [{ price: '0.5', size: '1' }]);
+
+        expect(side.set('0.50', '2')).toEqual({ price: '0.5', size: '1' });
+        expect(side.set('0.4', '3')).toBeNull();
+        expect(side.set('0.5', '0')).toEqual({ price: '0.5', size: '2' });
+        expect(side.set('0.3', '0')).toBeNull();
+    });
+
+    it('should diff two sides, worst price first', () => {
+        const before = new BookSide(true, [{ price: '0.6', size: '1' }, { price: '0.7', size: '1' }, { price: '0.8', size: '1' }]);
+        const after = new BookSide(true, [{ price: '0.55', size: '2' }, { price: '0.60', size: '1' }, { price: '0.7', size: '4' }]);
+
+        expect(before.diff(after)).toEqual([
+            { price: '0.8', oldSize: '1', newSize: null },
+            { price: '0.7', oldSize: '1', newSize: '4' },
+            { price: '0.55', oldSize: null, newSize: '2' },
+        ]);
+        expect(after.diff(after)).toEqual([]);
+        expect(new BookSide(false).diff(new BookSide(false, [{ price: '0.1', size: '1' }]))).toEqual([
+            { price: '0.1', oldSize: null, newSize: '1' },
+        ]);
+    });
+
+    it('should report an empty side', () => {
+        const side = new BookSide(false);
+
+        side.set('0.4', '0');
+
+        expect(side.length).toBe(0);
+        expect(side.best()).toBeNull();
+        expect(side.bestPrice()).toBeNaN();
+        expect(side.bestDecimal()).toBeNull();
+        expect(side.top(3)).toEqual([]);
+    });
+
+    it('should return the fixed-point price of the best level', () => {
+        const side = new BookSide(false, [{ price: '0.4', size: '10' }]);
+
+        expect(side.bestDecimal()).toBe(parseDecimal('0.4'));
+
+        side.set('0.45', '5');
+        expect(side.bestDecimal()).toBe(parseDecimal('0.45'));
+
+        side.set('0.45', '0');
+        expect(side.bestDecimal()).toBe(parseDecimal('0.4'));
+    });
+
+    it('should match a naive sorted book over random updates', () => {
+        // Deterministic LCG so that failures can be reproduced
+        let seed = 42;
+        const random = () => {
+            seed = (seed * 1664525 + 1013904223) % 4294967296;
+            return seed / 4294967296;
+        };
+
+        for (const descending of [false, true]) {
+            const side = new BookSide(descending);
+            const naive = new Map<number, PriceLevel>();
+
+            for (let i = 0; i < 2000; i++) {
+                const tick = Math.floor(random() * 100) + 1;
+                const price = (tick / 100).toFixed(2);
+                const size = random() < 0.3 ? '0' : String(Math.floor(random() * 1000) + 1);
+
+                side.set(price, size);
+                if (size === '0') {
+                    naive.delete(tick);
+                } else {
+                    naive.set(tick, { price, size });
+                }
+            }
+
+            const expected = [...naive.entries()]
+                .sort(([a], [b]) => descending ? b - a : a - b)
+                .map(([, level]) => level);
+            expect(side.levels).toEqual(expected);
+        }
+    });
+});
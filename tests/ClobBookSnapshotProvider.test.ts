@@ -0,0 +1,82 @@
+/// <reference types="vitest" />
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ClobBookSnapshotProvider, createBookSnapshotProvider } from '../src/modules/ClobBookSnapshotProvider';
+
+describe('ClobBookSnapshotProvider', () => {
+    let server: http.Server;
+    let url: string;
+    const requests: string[] = [];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests.push(req.url!);
+            const tokenId = new URL(req.url!, 'http://localhost').searchParams.get('token_id');
+            if (tokenId === 'malformed') {
+                res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"bids":[{"price":0.45,"size":"10"}],"asks":[]}');
+                return;
+            }
+            if (tokenId === 'error') {
+                res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"error":"internal error"}');
+                return;
+            }
+            if (tokenId === 'missing') {
+                res.writeHead(404).end('{"error":"No orderbook exists for the requested token id"}');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+                market: 'market1',
+                asset_id: tokenId,
+                timestamp: 1700000000000,
+                hash: 'abc',
+                bids: [{ price: '0.45', size: '10' }],
+                asks: [{ price: '0.55', size: '5' }],
+                tick_size: '0.01',
+            }));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch the book of a token', async () => {
+        const provider = new ClobBookSnapshotProvider({ url });
+
+        await expect(provider.getBook('asset1')).resolves.toEqual({
+            asset_id: 'asset1',
+            market: 'market1',
+            timestamp: '1700000000000',
+            hash: 'abc',
+            bids: [{ price: '0.45', size: '10' }],
+            asks: [{ price: '0.55', size: '5' }],
+            tick_size: '0.01',
+        });
+        expect(requests).toContain('/book?token_id=asset1');
+    });
+
+    it('should throw on a non-OK response', async () => {
+        const provider = new ClobBookSnapshotProvider({ url });
+
+        await expect(provider.getBook('missing')).rejects.toThrow('CLOB /book responded with status 404 for asset missing');
+    });
+
+    it('should throw on a malformed book', async () => {
+        const provider = new ClobBookSnapshotProvider({ url });
+
+        await expect(provider.getBook('malformed')).rejects.toThrow('CLOB /book responded with an invalid book for asset malformed');
+        await expect(provider.getBook('error')).rejects.toThrow('CLOB /book responded with an invalid book for asset error: {"error":"internal error"}');
+    });
+
+    it('should resolve the bookSnapshots option', () => {
+        const custom = { getBook: async () => { throw new Error('unused'); } };
+
+        expect(createBookSnapshotProvider(undefined)).toBeUndefined();
+        expect(createBookSnapshotProvider(false)).toBeUndefined();
+        expect(createBookSnapshotProvider(true)).toBeInstanceOf(ClobBookSnapshotProvider);
+        expect(createBookSnapshotProvider(custom)).toBe(custom);
+    });
+});
@@ -0,0 +1,246 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConnectionWatchdog, messagesPerSecond } from '../src/modules/ConnectionWatchdog';
+import { GroupSocket } from '../src/modules/GroupSocket';
+import { UserGroupSocket } from '../src/modules/UserGroupSocket';
+import { ConnectionLiveness, UserWebSocketGroup, WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { ConnectionError } from '../src/errors';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+describe('ConnectionWatchdog', () => {
+    let group: { groupId: string, liveness?: ConnectionLiveness };
+    let ws: any;
+    let onStale: ReturnType<typeof vi.fn>;
+    let onPingLatency: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        group = { groupId: 'group1' };
+        ws = { ping: vi.fn() };
+        onStale = vi.fn();
+        onPingLatency = vi.fn();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should report the ping round-trip time', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, {}, onStale, onPingLatency);
+        watchdog.start();
+
+        watchdog.ping();
+        vi.advanceTimersByTime(120);
+        watchdog.recordPong();
+
+        expect(ws.ping).toHaveBeenCalledTimes(1);
+        expect(onPingLatency).toHaveBeenCalledWith(120);
+        expect(group.liveness).toMatchObject({ lastMessageAt: null, lastPongAt: Date.now(), pingRttMs: 120 });
+
+        vi.advanceTimersByTime(60000);
+        expect(onStale).not.toHaveBeenCalled();
+    });
+
+    it('should be stale when a ping is not answered in time', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, { pongTimeoutMs: 5000 }, onStale, onPingLatency);
+        watchdog.start();
+
+        watchdog.ping();
+        vi.advanceTimersByTime(4999);
+        expect(onStale).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(onStale).toHaveBeenCalledWith('no pong within 5000ms');
+    });
+
+    it('should keep the first deadline when pinging again before a pong', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, { pongTimeoutMs: 5000 }, onStale, onPingLatency);
+        watchdog.start();
+
+        watchdog.ping();
+        vi.advanceTimersByTime(3000);
+        watchdog.ping();
+        vi.advanceTimersByTime(2000);
+
+        expect(onStale).toHaveBeenCalledTimes(1);
+    });
+
+    it('should be stale after the configured message silence', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, { messageSilenceTimeoutMs: 30000 }, onStale, onPingLatency);
+        watchdog.start();
+
+        vi.advanceTimersByTime(20000);
+        watchdog.recordMessage();
+        vi.advanceTimersByTime(20000);
+        expect(onStale).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(10000);
+        expect(onStale).toHaveBeenCalledWith('no message for 30000ms');
+    });
+
+    it('should not check message silence by default', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, {}, onStale, onPingLatency);
+        watchdog.start();
+
+        vi.advanceTimersByTime(3600000);
+
+        expect(onStale).not.toHaveBeenCalled();
+    });
+
+    it('should average the message rate over the connection lifetime during the first minute', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, {}, onStale, onPingLatency);
+        watchdog.start();
+
+        for (let i = 0; i < 20; i++) {
+            watchdog.recordMessage();
+        }
+        vi.advanceTimersByTime(10000);
+
+        expect(group.liveness?.messageCount).toBe(20);
+        expect(messagesPerSecond(group.liveness)).toBe(2);
+    });
+
+    it('should weight the previous minute by how much of it is still in the window', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, {}, onStale, onPingLatency);
+        watchdog.start();
+
+        for (let i = 0; i < 120; i++) {
+            watchdog.recordMessage();
+        }
+        vi.advanceTimersByTime(60000);
+        for (let i = 0; i < 30; i++) {
+            watchdog.recordMessage();
+        }
+        vi.advanceTimersByTime(30000);
+
+        // Half of the previous minute (60) plus the current window (30)
+        expect(messagesPerSecond(group.liveness)).toBe(1.5);
+
+        vi.advanceTimersByTime(120000);
+        expect(messagesPerSecond(group.liveness)).toBe(0);
+    });
+
+    it('should report no message rate without a connection', () => {
+        expect(messagesPerSecond(undefined)).toBe(0);
+    });
+
+    it('should do nothing once stopped', () => {
+        const watchdog = new ConnectionWatchdog(group, ws, { messageSilenceTimeoutMs: 1000 }, onStale, onPingLatency);
+        watchdog.start();
+        watchdog.ping();
+        watchdog.stop();
+
+        watchdog.ping();
+        vi.advanceTimersByTime(60000);
+
+        expect(ws.ping).toHaveBeenCalledTimes(1);
+        expect(onStale).not.toHaveBeenCalled();
+    });
+});
+
+describe('Stale connection handling', () => {
+    let mockWS: any;
+    let limiter: Bottleneck;
+
+    const getHandler = (event: string) => mockWS.on.mock.calls.find((call: [string, any]) => call[0] === event)?.[1];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+
+        limiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as unknown as Bottleneck;
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            ping: vi.fn(),
+            terminate: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should terminate a market socket whose ping is not answered', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'group1',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const handlers = { onError: vi.fn(), onPingLatency: vi.fn() };
+        const groupSocket = new GroupSocket(group, limiter, new OrderBookCache(), handlers, true, { pongTimeoutMs: 5000 });
+
+        await groupSocket.connect();
+        await getHandler('open')();
+
+        // The ping interval fires after 15 to 25 seconds
+        vi.advanceTimersByTime(25000);
+        expect(mockWS.ping).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(5000);
+
+        expect(mockWS.terminate).toHaveBeenCalled();
+        expect(group.status).toBe(WebSocketStatus.DEAD);
+        expect(handlers.onError).toHaveBeenCalledWith(new ConnectionError('Stale connection for group group1: no pong within 5000ms', { groupId: 'group1' }));
+    });
+
+    it('should report ping latency of a market socket', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'group1',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const handlers = { onError: vi.fn(), onPingLatency: vi.fn() };
+        // Longer than the spread of the ping interval, so the pong is always in time
+        const groupSocket = new GroupSocket(group, limiter, new OrderBookCache(), handlers, true, { pongTimeoutMs: 20000 });
+
+        await groupSocket.connect();
+        await getHandler('open')();
+
+        vi.advanceTimersByTime(25000);
+        vi.advanceTimersByTime(50);
+        getHandler('pong')();
+
+        expect(handlers.onPingLatency).toHaveBeenCalledWith('group1', expect.any(Number));
+        expect(group.liveness?.pingRttMs).toBeGreaterThanOrEqual(50);
+        expect(mockWS.terminate).not.toHaveBeenCalled();
+    });
+
+    it('should terminate a silent user socket', async () => {
+        const group: UserWebSocketGroup = {
+            groupId: 'user-group1',
+            marketIds: new Set(['market1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING,
+            auth: { apiKey: 'key', secret: 'secret', passphrase: 'pass' }
+        };
+        const handlers = { onError: vi.fn() };
+        const groupSocket = new UserGroupSocket(group, limiter, handlers, { messageSilenceTimeoutMs: 10000 });
+
+        await groupSocket.connect();
+        await getHandler('open')();
+
+        vi.advanceTimersByTime(5000);
+        await getHandler('message')(Buffer.from('[]'));
+        vi.advanceTimersByTime(9999);
+        expect(mockWS.terminate).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(mockWS.terminate).toHaveBeenCalled();
+        expect(group.status).toBe(WebSocketStatus.DEAD);
+    });
+});
@@ -0,0 +1,152 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    DECIMAL_SCALE,
+    decimalToNumber,
+    divideDecimal,
+    formatDecimal,
+    meanDecimal,
+    multiplyDecimal,
+    numberToDecimal,
+    parseDecimal,
+    roundDecimal,
+} from '../src/modules/Decimal';
+import { isOnTickGrid, midpointDecimals } from '../src/modules/tickSize';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { PolymarketPriceCalculator } from '../src/modules/PriceCalculator';
+import { BookEvent, PriceChangeEvent } from '../src/types/PolymarketWebSocket';
+
+// Tick sizes of Polymarket markets
+const TICK_SIZES = ['0.1', '0.01', '0.001', '0.0001'];
+
+/*
+    A price on the grid of a tick size, strictly between 0 and 1, as an
+    integer number of ticks and in the string form sent by Polymarket.
+*/
+const ticks = (tickSize: string) => fc.integer({ min: 1, max: Math.round(1 / parseFloat(tickSize)) - 1 });
+
+/*
+    Decimal string of `units` 10^-`decimals`, computed with integer arithmetic
+    only, as the expected value of the properties below.
+*/
+const exact = (units: bigint, decimals: number): string => {
+    const negative = units < BigInt(0);
+    const digits = (negative ? -units : units).toString().padStart(decimals + 1, '0');
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${digits.slice(0, digits.length - decimals)}${fraction ? `.${fraction}` : ''}`;
+};
+
+const tickDecimalsOf = (tickSize: string) => tickSize.split('.')[1].length;
+// With a tick size of 10^-decimals, a price is its number of ticks with `decimals` places
+const price = (tickCount: number, tickSize: string) => exact(BigInt(tickCount), tickDecimalsOf(tickSize));
+
+describe('Decimal', () => {
+    it('should parse and format decimal strings', () => {
+        expect(parseDecimal('0.5')).toBe(BigInt(10) ** BigInt(DECIMAL_SCALE) / BigInt(2));
+        expect(formatDecimal(parseDecimal('0.50')!)).toBe('0.5');
+        expect(formatDecimal(parseDecimal('1000')!)).toBe('1000');
+        expect(formatDecimal(parseDecimal('.25')!)).toBe('0.25');
+        expect(formatDecimal(parseDecimal('-0.001')!)).toBe('-0.001');
+        expect(formatDecimal(parseDecimal('0')!)).toBe('0');
+    });
+
+    it('should reject strings that are not decimals', () => {
+        for (const value of ['', '.', 'A', '0.5.1', '1e-3', '0x10', 'NaN']) {
+            expect(parseDecimal(value)).toBeNull();
+        }
+        expect(numberToDecimal(NaN)).toBeNull();
+        expect(numberToDecimal(Infinity)).toBeNull();
+    });
+
+    it('should add without float artifacts', () => {
+        expect(formatDecimal(parseDecimal('0.1')! + parseDecimal('0.2')!)).toBe('0.3');
+        expect(formatDecimal(parseDecimal('0.55')! - parseDecimal('0.45')!)).toBe('0.1');
+        expect(parseDecimal('0.55')! - parseDecimal('0.45')! > numberToDecimal(0.1)!).toBe(false);
+    });
+
+    it('should round half away from zero', () => {
+        expect(formatDecimal(parseDecimal('0.0115')!, 3)).toBe('0.012');
+        expect(formatDecimal(parseDecimal('0.0125')!, 3)).toBe('0.013');
+        expect(formatDecimal(parseDecimal('-0.0125')!, 3)).toBe('-0.013');
+        expect(formatDecimal(parseDecimal('0.01249')!, 3)).toBe('0.012');
+        expect(formatDecimal(roundDecimal(parseDecimal('0.5')!, 0))).toBe('1');
+    });
+
+    it('should multiply and divide', () => {
+        expect(formatDecimal(multiplyDecimal(parseDecimal('0.45')!, parseDecimal('8.333332')!))).toBe('3.7499994');
+        expect(formatDecimal(divideDecimal(parseDecimal('1')!, parseDecimal('3')!), 6)).toBe('0.333333');
+        expect(() => divideDecimal(parseDecimal('1')!, BigInt(0))).toThrow(RangeError);
+        expect(decimalToNumber(parseDecimal('0.125')!)).toBe(0.125);
+    });
+
+    it('should format any parsed decimal back to its canonical form', () => {
+        fc.assert(fc.property(
+            fc.bigInt({ min: BigInt(0), max: BigInt(10) ** BigInt(30) }),
+            fc.integer({ min: 0, max: DECIMAL_SCALE }),
+            (units, decimals) => {
+                const text = exact(units, decimals);
+                expect(formatDecimal(parseDecimal(text)!)).toBe(text);
+            },
+        ));
+    });
+
+    describe.each(TICK_SIZES)('on the %s tick size grid', (tickSize) => {
+        const decimals = tickDecimalsOf(tickSize);
+
+        it('should compute exact spreads and midpoints', () => {
+            fc.assert(fc.property(ticks(tickSize), ticks(tickSize), (bidTicks, askTicks) => {
+                const bid = parseDecimal(price(bidTicks, tickSize))!;
+                const ask = parseDecimal(price(askTicks, tickSize))!;
+
+                expect(formatDecimal(ask - bid)).toBe(exact(BigInt(askTicks - bidTicks), decimals));
+                // The midpoint is a multiple of half a tick, exact with one more decimal
+                expect(formatDecimal(meanDecimal(bid, ask), midpointDecimals(tickSize)))
+                    .toBe(exact(BigInt(bidTicks + askTicks) * BigInt(5), decimals + 1));
+            }));
+        });
+
+        it('should recognize prices on and off the grid', () => {
+            fc.assert(fc.property(ticks(tickSize), (tickCount) => {
+                const onGrid = price(tickCount, tickSize);
+                expect(isOnTickGrid(onGrid, tickSize)).toBe(true);
+                expect(isOnTickGrid(exact(BigInt(tickCount) * BigInt(10) + BigInt(5), decimals + 1), tickSize)).toBe(false);
+            }));
+        });
+
+        it('should derive exact midpoints from cached books', () => {
+            fc.assert(fc.property(ticks(tickSize), ticks(tickSize), (a, b) => {
+                const [bidTicks, askTicks] = [Math.min(a, b), Math.max(a, b)];
+                const book: BookEvent = {
+                    event_type: 'book',
+                    asset_id: 'asset1',
+                    market: 'm',
+                    timestamp: '1',
+                    hash: 'h',
+                    bids: [{ price: price(bidTicks, tickSize), size: '10' }],
+                    asks: [{ price: price(askTicks, tickSize), size: '10' }],
+                    tick_size: tickSize,
+                };
+                const cache = new OrderBookCache();
+                cache.replaceBook(book);
+
+                const midpoint = exact(BigInt(bidTicks + askTicks) * BigInt(5), decimals + 1);
+                expect(cache.currentMidpoint('asset1')).toBe(midpoint);
+                expect(cache.currentSpread('asset1')).toBe(exact(BigInt(askTicks - bidTicks), decimals));
+                expect(cache.offGridLevels('asset1')).toEqual([]);
+
+                const priceChange: PriceChangeEvent = { event_type: 'price_change', market: 'm', timestamp: '2', price_changes: [] };
+                const input = {
+                    assetId: 'asset1',
+                    bids: book.bids,
+                    asks: book.asks,
+                    lastTradePrice: null,
+                    tickSize,
+                    triggeringEvent: priceChange,
+                };
+                // Every spread is within a threshold of 1, so the midpoint is always derived
+                expect(new PolymarketPriceCalculator({ spreadThreshold: 1 }).price(input)).toBe(midpoint);
+            }));
+        });
+    });
+});
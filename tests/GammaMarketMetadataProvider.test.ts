@@ -0,0 +1,99 @@
+/// <reference types="vitest" />
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GammaMarketMetadataProvider, createMarketMetadataProvider } from '../src/modules/GammaMarketMetadataProvider';
+
+describe('GammaMarketMetadataProvider', () => {
+    let server: http.Server;
+    let url: string;
+    const requests: string[] = [];
+
+    const gammaMarket = (conditionId: string, slug: string) => ({
+        conditionId,
+        question: `Will ${slug} happen?`,
+        slug,
+        outcomes: '["Yes", "No"]',
+        clobTokenIds: `["${slug}-yes", "${slug}-no"]`,
+        orderPriceMinTickSize: 0.01,
+        endDate: '2026-12-31T12:00:00Z',
+        negRisk: true,
+        events: [{ slug: 'event1' }],
+    });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests.push(req.url!);
+            const { pathname, searchParams } = new URL(req.url!, 'http://localhost');
+            let body: unknown;
+            if (pathname === '/markets' && searchParams.has('condition_ids')) {
+                body = searchParams.getAll('condition_ids').map(id => gammaMarket(id, `market-${id}`));
+            } else if (pathname === '/markets') {
+                body = searchParams.getAll('slug').map(slug => gammaMarket(`0x${slug}`, slug));
+            } else if (pathname === '/events' && searchParams.get('slug') === 'event2') {
+                body = [{ slug: 'event2', markets: [{ ...gammaMarket('0xa', 'a'), events: undefined }] }];
+            } else {
+                res.writeHead(500).end();
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch markets by condition id and slug', async () => {
+        const provider = new GammaMarketMetadataProvider({ url });
+
+        const markets = await provider.getMarkets({ conditionIds: ['0x1', '0x2'], marketSlugs: ['slug1'] });
+
+        expect(markets.map(market => market.conditionId)).toEqual(['0x1', '0x2', '0xslug1']);
+        expect(markets[2]).toEqual({
+            conditionId: '0xslug1',
+            question: 'Will slug1 happen?',
+            slug: 'slug1',
+            eventSlug: 'event1',
+            outcomes: [{ assetId: 'slug1-yes', name: 'Yes' }, { assetId: 'slug1-no', name: 'No' }],
+            tickSize: '0.01',
+            endDate: '2026-12-31T12:00:00Z',
+            negRisk: true,
+        });
+        expect(requests).toContain('/markets?condition_ids=0x1&condition_ids=0x2&limit=2');
+        expect(requests).toContain('/markets?slug=slug1&limit=1');
+    });
+
+    it('should split large queries into batches', async () => {
+        const provider = new GammaMarketMetadataProvider({ url, batchSize: 2 });
+
+        const markets = await provider.getMarkets({ conditionIds: ['0x3', '0x4', '0x5'] });
+
+        expect(markets.map(market => market.conditionId)).toEqual(['0x3', '0x4', '0x5']);
+        expect(requests).toContain('/markets?condition_ids=0x3&condition_ids=0x4&limit=2');
+        expect(requests).toContain('/markets?condition_ids=0x5&limit=1');
+    });
+
+    it('should fetch the markets of an event', async () => {
+        const provider = new GammaMarketMetadataProvider({ url });
+
+        const markets = await provider.getMarkets({ eventSlugs: ['event2'] });
+
+        expect(markets).toEqual([expect.objectContaining({ conditionId: '0xa', eventSlug: 'event2' })]);
+    });
+
+    it('should throw on a non-OK response', async () => {
+        const provider = new GammaMarketMetadataProvider({ url });
+
+        await expect(provider.getMarkets({ eventSlugs: ['unknown'] })).rejects.toThrow('Gamma /events responded with status 500');
+    });
+
+    it('should resolve the marketMetadata option', () => {
+        const custom = { getMarkets: async () => [] };
+
+        expect(createMarketMetadataProvider(undefined)).toBeInstanceOf(GammaMarketMetadataProvider);
+        expect(createMarketMetadataProvider(custom)).toBe(custom);
+    });
+});
@@ -413,6 +413,117 @@ describe('GroupRegistry', () => {
         });
     });
 
+    describe('addAssetsToLiveGroup', () => {
+        it('should add new assets to a connected group with capacity', async () => {
+            await registry.mutate(groups => {
+                const group = makeGroupWithAssets('live', ['asset1']);
+                group.wsClient = {} as WebSocket;
+                groups.push(group);
+            });
+
+            const added = await registry.addAssetsToLiveGroup(['asset1', 'asset2', 'asset2'], 10);
+
+            expect(added).toEqual({ groupId: 'live', assetIds: ['asset2'] });
+            expect(registry.findGroupById('live')?.assetIds.has('asset2')).toBe(true);
+        });
+
+        it('should return null if no connected group has capacity', async () => {
+            await registry.mutate(groups => {
+                const pending = makeGroupWithAssets('pending', ['asset1']);
+                pending.status = WebSocketStatus.PENDING;
+                pending.wsClient = {} as WebSocket;
+                groups.push(pending);
+
+                const full = makeGroupWithAssets('full', ['asset2', 'asset3']);
+                full.wsClient = {} as WebSocket;
+                groups.push(full);
+
+                groups.push(makeGroupWithAssets('no-socket', ['asset4']));
+            });
+
+            expect(await registry.addAssetsToLiveGroup(['asset5'], 2)).toBeNull();
+            expect(registry.hasAsset('asset5')).toBe(false);
+        });
+
+        it('should return null if all assets are already subscribed', async () => {
+            await registry.mutate(groups => {
+                const group = makeGroupWithAssets('live', ['asset1']);
+                group.wsClient = {} as WebSocket;
+                groups.push(group);
+            });
+
+            expect(await registry.addAssetsToLiveGroup(['asset1'], 10)).toBeNull();
+        });
+    });
+
+    describe('getAssetIdsByGroup', () => {
+        it('should group subscribed assets by group id', async () => {
+            await registry.mutate(groups => {
+                groups.push(makeGroupWithAssets('g1', ['asset1', 'asset2']));
+                groups.push(makeGroupWithAssets('g2', ['asset3']));
+                groups.push(makeGroupWithAssets('g3', ['asset4']));
+            });
+
+            const byGroup = registry.getAssetIdsByGroup(['asset1', 'asset3', 'unknown']);
+
+            expect(Array.from(byGroup.entries())).toEqual([
+                ['g1', ['asset1']],
+                ['g2', ['asset3']],
+            ]);
+        });
+    });
+
+    describe('closeAllGroups', () => {
+        it('should close sockets with a normal close code and keep the assets', async () => {
+            const listeners: Record<string, () => void> = {};
+            const mockWs = {
+                readyState: WebSocket.OPEN,
+                once: vi.fn((event: string, cb: () => void) => { listeners[event] = cb; }),
+                close: vi.fn(() => listeners['close']?.()),
+                terminate: vi.fn()
+            } as unknown as WebSocket;
+
+            await registry.mutate(groups => {
+                const group = makeGroupWithAssets('g1', ['asset1']);
+                group.wsClient = mockWs;
+                groups.push(group);
+                const pending = makeGroupWithAssets('g2', ['asset2']);
+                pending.status = WebSocketStatus.PENDING;
+                groups.push(pending);
+            });
+
+            await registry.closeAllGroups(1000);
+
+            expect(mockWs.close).toHaveBeenCalledWith(1000, expect.any(String));
+            expect(mockWs.terminate).not.toHaveBeenCalled();
+
+            const snapshot = registry.snapshot();
+            expect(snapshot[0].wsClient).toBeNull();
+            expect(snapshot[0].status).toBe(WebSocketStatus.DEAD);
+            expect(snapshot[0].assetIds.has('asset1')).toBe(true);
+            expect(snapshot[1].status).toBe(WebSocketStatus.PENDING);
+        });
+
+        it('should terminate sockets that do not close in time', async () => {
+            const mockWs = {
+                readyState: WebSocket.OPEN,
+                once: vi.fn(),
+                close: vi.fn(),
+                terminate: vi.fn()
+            } as unknown as WebSocket;
+
+            await registry.mutate(groups => {
+                const group = makeGroupWithAssets('g1', ['asset1']);
+                group.wsClient = mockWs;
+                groups.push(group);
+            });
+
+            await registry.closeAllGroups(1);
+
+            expect(mockWs.terminate).toHaveBeenCalled();
+        });
+    });
+
     describe('reconnectOrCleanup', () => {
         it('should remove empty groups and return reconnect IDs for dead groups', async () => {
             await registry.mutate(groups => {
@@ -489,6 +600,104 @@ describe('GroupRegistry', () => {
             expect(mockWs1.close).toHaveBeenCalled();
             expect(mockWs2.close).toHaveBeenCalled();
         });
+
+        it('should not reconnect failed groups', async () => {
+            await registry.mutate(groups => {
+                const failedGroup = makeGroup('failed', 2);
+                failedGroup.status = WebSocketStatus.FAILED;
+                groups.push(failedGroup);
+            });
+
+            const reconnectIds = await registry.getGroupsToReconnectAndCleanup();
+
+            expect(reconnectIds).toEqual([]);
+            expect(registry.snapshot()).toHaveLength(1);
+        });
+
+        it('should retry a failed group once its assets change', async () => {
+            await registry.mutate(groups => {
+                const failedGroup = makeGroup('failed', 2);
+                failedGroup.status = WebSocketStatus.FAILED;
+                failedGroup.reconnect = { attempts: 3, nextAttemptAt: null, openedAt: null };
+                groups.push(failedGroup);
+            });
+
+            await registry.removeAssets(['failed-asset-0'], mockBookCache);
+
+            expect(registry.findGroupById('failed')?.status).toBe(WebSocketStatus.PENDING);
+            expect(registry.findGroupById('failed')?.reconnect).toBeUndefined();
+            expect(await registry.getGroupsToReconnectAndCleanup()).toEqual(['failed']);
+        });
+
+        it('should not reconnect dead groups that are still connecting', async () => {
+            const connectingWs = { readyState: WebSocket.CONNECTING, close: vi.fn() } as unknown as WebSocket;
+
+            await registry.mutate(groups => {
+                const deadGroup = makeGroup('dead', 1);
+                deadGroup.status = WebSocketStatus.DEAD;
+                deadGroup.wsClient = connectingWs;
+                groups.push(deadGroup);
+            });
+
+            const reconnectIds = await registry.getGroupsToReconnectAndCleanup();
+
+            expect(reconnectIds).toEqual([]);
+            expect(connectingWs.close).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getGroupStatuses', () => {
+        it('should describe each group that is not being cleaned up', async () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(100000);
+
+            await registry.mutate(groups => {
+                const alive = makeGroup('alive', 2);
+                alive.reconnect = { attempts: 1, nextAttemptAt: null, openedAt: 90000 };
+                alive.liveness = {
+                    lastMessageAt: 99000,
+                    lastPongAt: 95000,
+                    pingRttMs: 42,
+                    messageCount: 20,
+                    messageRateWindow: { startedAt: 90000, count: 20, previousCount: null },
+                };
+                groups.push(alive);
+
+                const dead = makeGroup('dead', 1);
+                dead.status = WebSocketStatus.DEAD;
+                dead.reconnect = { attempts: 3, nextAttemptAt: 105000, openedAt: null };
+                groups.push(dead);
+
+                const cleanup = makeGroup('cleanup', 1);
+                cleanup.status = WebSocketStatus.CLEANUP;
+                groups.push(cleanup);
+            });
+
+            expect(registry.getGroupStatuses()).toEqual([
+                {
+                    groupId: 'alive',
+                    status: WebSocketStatus.ALIVE,
+                    assetCount: 2,
+                    connectedSince: 90000,
+                    lastMessageAt: 99000,
+                    reconnectAttempts: 1,
+                    pingRttMs: 42,
+                    messagesPerSecond: 2,
+                },
+                {
+                    groupId: 'dead',
+                    status: WebSocketStatus.DEAD,
+                    assetCount: 1,
+                    connectedSince: null,
+                    lastMessageAt: null,
+                    reconnectAttempts: 3,
+                    pingRttMs: null,
+                    messagesPerSecond: 0,
+                },
+            ]);
+
+            vi.useRealTimers();
+        });
     });
 
     describe('snapshot', () => {
@@ -580,4 +789,38 @@ describe('GroupRegistry', () => {
             expect(allAssets.has('a6')).toBe(true);
         });
     });
-}); 
\ No newline at end of file
+
+    describe('instance isolation', () => {
+        it('should keep groups separate between registry instances', async () => {
+            const other = new GroupRegistry();
+
+            await registry.addAssets(['asset1', 'asset2'], 10);
+            await other.addAssets(['asset3'], 10);
+
+            expect(registry.hasAsset('asset1')).toBe(true);
+            expect(registry.hasAsset('asset3')).toBe(false);
+            expect(other.hasAsset('asset3')).toBe(true);
+            expect(other.hasAsset('asset1')).toBe(false);
+
+            await registry.removeAssets(['asset1'], mockBookCache);
+            expect(registry.hasAsset('asset1')).toBe(false);
+            expect(other.snapshot()).toHaveLength(1);
+
+            await registry.clearAllGroups();
+            expect(registry.snapshot()).toHaveLength(0);
+            expect(other.hasAsset('asset3')).toBe(true);
+        });
+
+        it('should allow the same asset to be subscribed in two registries', async () => {
+            const other = new GroupRegistry();
+
+            const first = await registry.addAssets(['asset1'], 10);
+            const second = await other.addAssets(['asset1'], 10);
+
+            expect(first).toHaveLength(1);
+            expect(second).toHaveLength(1);
+            expect(first[0]).not.toBe(second[0]);
+            expect(registry.findGroupById(second[0])).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,269 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GroupSocket, GroupSocketOptions } from '../src/modules/GroupSocket';
+import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import { BookEvent, PriceChangeEvent, Side, WebSocketHandlers } from '../src/types/PolymarketWebSocket';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { PolyWebSocketError } from '../src/errors';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+describe('GroupSocket book desync', () => {
+    let group: WebSocketGroup;
+    let bookCache: OrderBookCache;
+    let mockWS: any;
+    let mockHandlers: WebSocketHandlers;
+
+    const getHandler = (event: string) => mockWS.on.mock.calls.find((call: [string, any]) => call[0] === event)?.[1];
+
+    const book: BookEvent = {
+        event_type: 'book',
+        asset_id: 'asset1',
+        market: 'market1',
+        timestamp: '1',
+        hash: 'hash',
+        bids: [{ price: '0.4', size: '10' }, { price: '0.45', size: '10' }],
+        asks: [{ price: '0.55', size: '10' }, { price: '0.5', size: '10' }],
+    };
+
+    const priceChange = (price: string, size: string, bestBid: string, assetId = 'asset1'): PriceChangeEvent => ({
+        event_type: 'price_change',
+        market: 'market1',
+        timestamp: '2',
+        price_changes: [{ asset_id: assetId, price, size, side: Side.BUY, hash: 'hash', best_bid: bestBid, best_ask: '0.5' }],
+    });
+
+    const send = async (events: object[]) => {
+        await getHandler('message')(Buffer.from(JSON.stringify(events)));
+    };
+
+    const connect = async (options: GroupSocketOptions = {}) => {
+        const mockLimiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as unknown as Bottleneck;
+
+        const groupSocket = new GroupSocket(group, mockLimiter, bookCache, mockHandlers, true, options);
+        await groupSocket.connect();
+        await getHandler('open')();
+        await send([book]);
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+
+        mockHandlers = {
+            onError: vi.fn(),
+            onBookDesync: vi.fn(),
+            onPolymarketPriceUpdate: vi.fn(),
+        };
+
+        group = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        bookCache = new OrderBookCache();
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            ping: vi.fn(),
+            close: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep the connection while the book matches the server', async () => {
+        await connect();
+
+        await send([priceChange('0.47', '5', '0.47')]);
+
+        expect(mockHandlers.onBookDesync).not.toHaveBeenCalled();
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledTimes(1);
+        expect(mockWS.close).not.toHaveBeenCalled();
+    });
+
+    it('should mark the book stale, report it and reconnect the group', async () => {
+        await connect();
+        const event = priceChange('0.47', '5', '0.48');
+
+        await send([event]);
+
+        expect(mockHandlers.onBookDesync).toHaveBeenCalledWith('asset1', {
+            market: 'market1',
+            field: 'best_bid',
+            expected: '0.48',
+            actual: '0.47',
+            triggeringEvent: event,
+        });
+        expect(mockHandlers.onPolymarketPriceUpdate).not.toHaveBeenCalled();
+        expect(bookCache.getBookEntry('asset1')!.stale).toBe(true);
+        expect(group.status).toBe(WebSocketStatus.DEAD);
+        expect(mockWS.close).toHaveBeenCalledWith(1000, 'book resync');
+    });
+
+    it('should resync once and mark every book of the group stale', async () => {
+        group.assetIds.add('asset2');
+        await connect();
+        await send([{ ...book, asset_id: 'asset2' }]);
+
+        await send([priceChange('0.47', '5', '0.48'), priceChange('0.47', '5', '0.48', 'asset2')]);
+
+        expect(mockHandlers.onBookDesync).toHaveBeenCalledTimes(1);
+        expect(bookCache.getBookEntry('asset2')!.stale).toBe(true);
+        expect(mockWS.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the items of cached books when another item has no book yet', async () => {
+        group.assetIds.add('asset2');
+        await connect();
+        const event = priceChange('0.47', '5', '0.47', 'asset2');
+        event.price_changes.push(priceChange('0.47', '5', '0.47').price_changes[0]);
+
+        await send([event]);
+
+        expect(bookCache.bestBid('asset1')).toEqual({ price: '0.47', size: '5' });
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledWith([expect.objectContaining({ asset_id: 'asset1' })]);
+        expect(mockHandlers.onBookDesync).not.toHaveBeenCalled();
+        expect(mockHandlers.onError).not.toHaveBeenCalled();
+    });
+
+    it('should not reconnect when resync is disabled', async () => {
+        await connect({ resyncOnDesync: false });
+
+        await send([priceChange('0.47', '5', '0.48')]);
+
+        expect(mockHandlers.onBookDesync).toHaveBeenCalledTimes(1);
+        expect(bookCache.getBookEntry('asset1')!.stale).toBe(true);
+        expect(group.status).toBe(WebSocketStatus.ALIVE);
+        expect(mockWS.close).not.toHaveBeenCalled();
+    });
+
+    describe('stale books', () => {
+        const snapshot = {
+            asset_id: 'asset1',
+            market: 'market1',
+            timestamp: '3',
+            hash: 'hash',
+            bids: [{ price: '0.46', size: '7' }],
+            asks: [{ price: '0.52', size: '7' }],
+        };
+
+        it('should mark the books of a closed socket stale until a new snapshot', async () => {
+            await connect();
+
+            await getHandler('close')(1006, Buffer.from(''));
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(true);
+
+            await send([priceChange('0.47', '5', '0.9')]);
+            expect(mockHandlers.onPolymarketPriceUpdate).not.toHaveBeenCalled();
+            expect(mockHandlers.onBookDesync).not.toHaveBeenCalled();
+
+            await send([book]);
+            await send([priceChange('0.47', '5', '0.47')]);
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(false);
+            expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not mark books stale when a new socket already replaced the closed one', async () => {
+            await connect();
+            group.wsClient = {} as WebSocket;
+
+            await getHandler('close')(1006, Buffer.from(''));
+
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(false);
+        });
+
+        it('should fetch snapshots on open without the initial dump', async () => {
+            const bookSnapshotProvider = { getBook: vi.fn().mockResolvedValue(snapshot) };
+            const mockLimiter = {
+                schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+            } as unknown as Bottleneck;
+            const groupSocket = new GroupSocket(group, mockLimiter, bookCache, mockHandlers, false, { bookSnapshotProvider });
+
+            await groupSocket.connect();
+            await getHandler('open')();
+
+            await vi.waitFor(() => expect(bookCache.getBookEntry('asset1')).not.toBeNull());
+            expect(bookSnapshotProvider.getBook).toHaveBeenCalledWith('asset1');
+            expect(bookCache.bestBid('asset1')).toEqual({ price: '0.46', size: '7' });
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(false);
+        });
+
+        it('should refresh a diverged book from the provider instead of reconnecting', async () => {
+            const bookSnapshotProvider = { getBook: vi.fn().mockResolvedValue(snapshot) };
+            await connect({ bookSnapshotProvider });
+
+            await send([priceChange('0.47', '5', '0.48')]);
+
+            await vi.waitFor(() => expect(bookCache.getBookEntry('asset1')!.stale).toBe(false));
+            expect(bookCache.bestAsk('asset1')).toEqual({ price: '0.52', size: '7' });
+            expect(mockWS.close).not.toHaveBeenCalled();
+            expect(group.status).toBe(WebSocketStatus.ALIVE);
+        });
+
+        it('should drop a snapshot that arrives after the connection was lost', async () => {
+            let resolveSnapshot!: (value: typeof snapshot) => void;
+            const bookSnapshotProvider = { getBook: vi.fn().mockReturnValue(new Promise(resolve => { resolveSnapshot = resolve; })) };
+            await connect({ bookSnapshotProvider });
+
+            await send([priceChange('0.47', '5', '0.48')]);
+            await getHandler('close')(1006, Buffer.from(''));
+            resolveSnapshot(snapshot);
+
+            await vi.waitFor(() => expect(bookSnapshotProvider.getBook).toHaveBeenCalled());
+            await Promise.resolve();
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(true);
+            expect(bookCache.bestBid('asset1')!.price).toBe('0.47');
+        });
+
+        it('should replay the price changes received while the snapshot was fetched', async () => {
+            let resolveSnapshot!: (value: typeof snapshot) => void;
+            const bookSnapshotProvider = { getBook: vi.fn().mockReturnValue(new Promise(resolve => { resolveSnapshot = resolve; })) };
+            await connect({ bookSnapshotProvider });
+
+            const afterDesync = (price: string, size: string, bestBid: string, timestamp: string): PriceChangeEvent => {
+                const event = priceChange(price, size, bestBid);
+                return { ...event, timestamp, price_changes: [{ ...event.price_changes[0], best_ask: '0.52' }] };
+            };
+
+            await send([priceChange('0.47', '5', '0.48')]);
+            // Already in the snapshot, then newer than it
+            await send([afterDesync('0.46', '0', '0.45', '3')]);
+            await send([afterDesync('0.48', '3', '0.48', '4')]);
+            resolveSnapshot(snapshot);
+
+            await vi.waitFor(() => expect(bookCache.getBookEntry('asset1')!.stale).toBe(false));
+            expect(bookCache.snapshot('asset1')!.bids).toEqual([{ price: '0.46', size: '7' }, { price: '0.48', size: '3' }]);
+            expect(bookSnapshotProvider.getBook).toHaveBeenCalledTimes(1);
+            expect(mockHandlers.onBookDesync).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report failed snapshot requests', async () => {
+            const cause = new Error('status 500');
+            const bookSnapshotProvider = { getBook: vi.fn().mockRejectedValue(cause) };
+            await connect({ bookSnapshotProvider });
+
+            await send([priceChange('0.47', '5', '0.48')]);
+
+            await vi.waitFor(() => expect(mockHandlers.onError).toHaveBeenCalled());
+            expect(mockHandlers.onError).toHaveBeenCalledWith(new PolyWebSocketError(
+                'Failed to fetch book snapshot for asset asset1: status 500',
+                { groupId: 'test-group', cause },
+            ));
+            expect(bookCache.getBookEntry('asset1')!.stale).toBe(true);
+        });
+    });
+});
@@ -5,6 +5,8 @@ import { UserGroupSocket } from '../src/modules/UserGroupSocket';
 import { WebSocketGroup, UserWebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
 import { WebSocketHandlers, UserWebSocketHandlers } from '../src/types/PolymarketWebSocket';
 import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { AuthError, ConnectionError } from '../src/errors';
+import { Logger } from '../src/types/Logger';
 import Bottleneck from 'bottleneck';
 import WebSocket from 'ws';
 
@@ -25,7 +27,7 @@ describe('WebSocket Error Handling on Open', () => {
             schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
         } as any;
         
-        mockBookCache = {} as OrderBookCache;
+        mockBookCache = new OrderBookCache();
         
         mockHandlers = {
             onError: vi.fn(),
@@ -293,4 +295,250 @@ describe('WebSocket Error Handling on Open', () => {
             expect(mockUserHandlers.onError).not.toHaveBeenCalled();
         });
     });
-});
\ No newline at end of file
+});
+
+describe('WebSocket endpoint configuration', () => {
+    const mockLimiter = {
+        schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+    } as any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        MockedWebSocket.mockReturnValue({ on: vi.fn(), removeAllListeners: vi.fn() } as any);
+    });
+
+    it('should connect GroupSocket to the default market endpoint', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+
+        await new GroupSocket(group, mockLimiter, new OrderBookCache(), {}).connect();
+
+        expect(MockedWebSocket).toHaveBeenCalledWith('wss://ws-subscriptions-clob.polymarket.com/ws/market', undefined);
+    });
+
+    it('should connect GroupSocket with a custom endpoint and client options', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const wsClientOptions = { headers: { 'x-test': '1' }, maxPayload: 1024 };
+
+        await new GroupSocket(group, mockLimiter, new OrderBookCache(), {}, true, {
+            url: 'ws://localhost:8080/ws/market',
+            wsClientOptions
+        }).connect();
+
+        expect(MockedWebSocket).toHaveBeenCalledWith('ws://localhost:8080/ws/market', wsClientOptions);
+    });
+
+    it('should connect UserGroupSocket with a custom endpoint and client options', async () => {
+        const group: UserWebSocketGroup = {
+            groupId: 'test-user-group',
+            marketIds: new Set(['market1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING,
+            auth: { apiKey: 'key', secret: 'secret', passphrase: 'pass' }
+        };
+        const wsClientOptions = { handshakeTimeout: 5000, perMessageDeflate: false };
+
+        await new UserGroupSocket(group, mockLimiter, {}, {
+            url: 'ws://localhost:8080/ws/user',
+            wsClientOptions
+        }).connect();
+
+        expect(MockedWebSocket).toHaveBeenCalledWith('ws://localhost:8080/ws/user', wsClientOptions);
+    });
+});
+
+describe('Non-retryable failures', () => {
+    let mockWS: any;
+    let mockLimiter: Bottleneck;
+
+    // The last registered handler, connect() registers a temporary error handler first
+    const getHandler = (event: string) => mockWS.on.mock.calls.filter((call: [string, any]) => call[0] === event).pop()?.[1];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        mockLimiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as any;
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+    });
+
+    it('should park a market group closed with a protocol error', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE
+        };
+        const handlers = { onError: vi.fn(), onWSClose: vi.fn() };
+
+        await new GroupSocket(group, mockLimiter, new OrderBookCache(), handlers).connect();
+        await getHandler('close')(1002, Buffer.from('protocol error'));
+
+        expect(group.status).toBe(WebSocketStatus.FAILED);
+        expect(handlers.onError).toHaveBeenCalledWith(expect.any(ConnectionError));
+        expect(handlers.onError.mock.calls[0][0].retryable).toBe(false);
+        expect(handlers.onWSClose).toHaveBeenCalledWith('test-group', 1002, 'protocol error');
+    });
+
+    it('should mark a market group dead on a retryable close', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE
+        };
+        const handlers = { onError: vi.fn(), onWSClose: vi.fn() };
+
+        await new GroupSocket(group, mockLimiter, new OrderBookCache(), handlers).connect();
+        await getHandler('close')(1006, Buffer.from(''));
+
+        expect(group.status).toBe(WebSocketStatus.DEAD);
+        expect(handlers.onError).not.toHaveBeenCalled();
+    });
+
+    it('should keep a user group parked after a rejected handshake', async () => {
+        const group: UserWebSocketGroup = {
+            groupId: 'user-group',
+            marketIds: new Set(['market1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING,
+            auth: { apiKey: 'key', secret: 'secret', passphrase: 'pass' }
+        };
+        const handlers = { onError: vi.fn(), onWSClose: vi.fn() };
+
+        await new UserGroupSocket(group, mockLimiter, handlers).connect();
+        await getHandler('error')(new Error('Unexpected server response: 401'));
+        await getHandler('close')(1006, Buffer.from(''));
+
+        expect(group.status).toBe(WebSocketStatus.FAILED);
+        expect(handlers.onError).toHaveBeenCalledTimes(1);
+        expect(handlers.onError).toHaveBeenCalledWith(expect.any(AuthError));
+    });
+});
+
+describe('Failing handlers', () => {
+    let mockWS: any;
+    let mockLimiter: Bottleneck;
+    let logger: Logger;
+
+    const getHandler = (event: string) => mockWS.on.mock.calls.filter((call: [string, any]) => call[0] === event).pop()?.[1];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+
+        mockLimiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as any;
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+
+        logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger };
+    });
+
+    it('should log the rejection of onError for a market socket error', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE
+        };
+        const cause = new Error('handler failed');
+        const handlers = { onError: vi.fn().mockRejectedValue(cause) };
+
+        await new GroupSocket(group, mockLimiter, new OrderBookCache(), handlers, true, { logger }).connect();
+        getHandler('error')(new Error('read ECONNRESET'));
+
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({
+            message: 'onError handler failed',
+            error: cause,
+        })));
+        expect(group.status).toBe(WebSocketStatus.DEAD);
+    });
+
+    it('should log an onPingLatency handler that rejects', async () => {
+        const group: WebSocketGroup = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const cause = new Error('handler failed');
+        const handlers = { onPingLatency: vi.fn().mockRejectedValue(cause) };
+        mockWS.ping = vi.fn();
+
+        const groupSocket = new GroupSocket(group, mockLimiter, new OrderBookCache(), handlers, true, { logger });
+        await groupSocket.connect();
+        await getHandler('open')();
+        (groupSocket as any).watchdog.ping();
+        getHandler('pong')();
+
+        expect(handlers.onPingLatency).toHaveBeenCalledWith('test-group', expect.any(Number));
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith({ message: 'onPingLatency handler failed', error: cause }));
+        (groupSocket as any).stopHeartbeat();
+    });
+
+    it.each([
+        ['market', (handlers: { onError: ReturnType<typeof vi.fn> }) => new GroupSocket({
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE
+        }, mockLimiter, new OrderBookCache(), handlers, true, { logger })],
+        ['user', (handlers: { onError: ReturnType<typeof vi.fn> }) => new UserGroupSocket({
+            groupId: 'user-group',
+            marketIds: new Set(['market1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE,
+            auth: { apiKey: 'key', secret: 'secret', passphrase: 'pass' }
+        }, mockLimiter, handlers, { logger })],
+    ])('should log an onError handler that throws on a fatal %s socket close', async (_channel, createSocket) => {
+        const cause = new Error('handler boom');
+        const handlers = { onError: vi.fn().mockImplementation(() => { throw cause; }) };
+
+        await createSocket(handlers).connect();
+        await getHandler('close')(1008, Buffer.from('policy violation'));
+
+        expect(handlers.onError).toHaveBeenCalledWith(expect.any(ConnectionError));
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ error: cause })));
+    });
+
+    it('should log an onError handler that throws for a user socket error', async () => {
+        const group: UserWebSocketGroup = {
+            groupId: 'user-group',
+            marketIds: new Set(['market1']),
+            wsClient: null,
+            status: WebSocketStatus.ALIVE,
+            auth: { apiKey: 'key', secret: 'secret', passphrase: 'pass' }
+        };
+        const cause = new Error('handler failed');
+        const handlers = { onError: vi.fn().mockImplementation(() => { throw cause; }) };
+
+        await new UserGroupSocket(group, mockLimiter, handlers, { logger }).connect();
+        getHandler('error')(new Error('read ECONNRESET'));
+
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ error: cause })));
+    });
+});
@@ -0,0 +1,134 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GroupSocket } from '../src/modules/GroupSocket';
+import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import { WebSocketHandlers } from '../src/types/PolymarketWebSocket';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+describe('GroupSocket subscription operations', () => {
+    let group: WebSocketGroup;
+    let groupSocket: GroupSocket;
+    let mockWS: any;
+    let mockHandlers: WebSocketHandlers;
+
+    const getHandler = (event: string) => mockWS.on.mock.calls.find((call: [string, any]) => call[0] === event)?.[1];
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+
+        const mockLimiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as unknown as Bottleneck;
+
+        mockHandlers = {
+            onError: vi.fn(),
+            onWSOpen: vi.fn(),
+            onWSClose: vi.fn()
+        };
+
+        group = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            ping: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+
+        groupSocket = new GroupSocket(group, mockLimiter, new OrderBookCache(), mockHandlers);
+        await groupSocket.connect();
+        await getHandler('open')();
+        mockWS.send.mockClear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should send a subscribe operation and resolve once the ack window passes', async () => {
+        const result = groupSocket.subscribe(['asset2']);
+
+        expect(mockWS.send).toHaveBeenCalledWith(JSON.stringify({ assets_ids: ['asset2'], operation: 'subscribe' }));
+
+        vi.advanceTimersByTime(2000);
+        await expect(result).resolves.toBe(true);
+    });
+
+    it('should resolve as rejected on a plain text reply after streamed events', async () => {
+        let settled = false;
+        const result = groupSocket.subscribe(['asset2']).then((accepted) => { settled = true; return accepted; });
+        const book = {
+            event_type: 'book',
+            asset_id: 'asset1',
+            market: 'market1',
+            timestamp: '1',
+            hash: 'hash',
+            bids: [{ price: '0.4', size: '10' }],
+            asks: [{ price: '0.5', size: '10' }],
+        };
+        const priceChange = {
+            event_type: 'price_change',
+            market: 'market1',
+            timestamp: '2',
+            price_changes: [{ asset_id: 'asset1', price: '0.45', size: '5', side: 'BUY', hash: 'hash', best_bid: '0.45', best_ask: '0.5' }],
+        };
+
+        await getHandler('message')(Buffer.from(JSON.stringify([book])));
+        await getHandler('message')(Buffer.from(JSON.stringify([priceChange])));
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(settled).toBe(false);
+
+        await getHandler('message')(Buffer.from('INVALID OPERATION'));
+
+        await expect(result).resolves.toBe(false);
+        expect(mockHandlers.onError).not.toHaveBeenCalled();
+    });
+
+    it('should resolve as rejected on a plain text reply and stop sending operations', async () => {
+        const result = groupSocket.subscribe(['asset2']);
+
+        await getHandler('message')(Buffer.from('INVALID OPERATION'));
+
+        await expect(result).resolves.toBe(false);
+        expect(mockHandlers.onError).not.toHaveBeenCalled();
+
+        await expect(groupSocket.unsubscribe(['asset1'])).resolves.toBe(false);
+        expect(mockWS.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve as rejected when the socket closes', async () => {
+        const result = groupSocket.subscribe(['asset2']);
+
+        await getHandler('close')(1006, Buffer.from(''));
+
+        await expect(result).resolves.toBe(false);
+    });
+
+    it('should not send when the group is not alive', async () => {
+        group.status = WebSocketStatus.DEAD;
+
+        await expect(groupSocket.unsubscribe(['asset1'])).resolves.toBe(false);
+        expect(mockWS.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send when the socket is not open', async () => {
+        mockWS.readyState = (WebSocket as any).CLOSING ?? 2;
+
+        await expect(groupSocket.subscribe(['asset2'])).resolves.toBe(false);
+        expect(mockWS.send).not.toHaveBeenCalled();
+    });
+});
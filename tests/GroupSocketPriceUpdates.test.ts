@@ -0,0 +1,380 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GroupSocket, GroupSocketOptions } from '../src/modules/GroupSocket';
+import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import { BookEvent, LastTradePriceEvent, PriceChangeEvent, Side, WebSocketHandlers } from '../src/types/PolymarketWebSocket';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { BookMetricsStream } from '../src/modules/BookMetricsStream';
+import { PolyWebSocketError } from '../src/errors';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+describe('GroupSocket price updates', () => {
+    let group: WebSocketGroup;
+    let bookCache: OrderBookCache;
+    let mockWS: any;
+    let mockHandlers: WebSocketHandlers;
+
+    const getHandler = (event: string) => mockWS.on.mock.calls.find((call: [string, any]) => call[0] === event)?.[1];
+
+    const book = (bid: string, ask: string): BookEvent => ({
+        event_type: 'book',
+        asset_id: 'asset1',
+        market: 'market1',
+        timestamp: '1',
+        hash: 'hash',
+        bids: [{ price: bid, size: '10' }],
+        asks: [{ price: ask, size: '10' }],
+    });
+
+    const priceChange = (price: string): PriceChangeEvent => ({
+        event_type: 'price_change',
+        market: 'market1',
+        timestamp: '2',
+        price_changes: [{ asset_id: 'asset1', price, size: '5', side: Side.BUY, hash: 'hash', best_bid: '', best_ask: '' }],
+    });
+
+    const trade = (price: string): LastTradePriceEvent => ({
+        event_type: 'last_trade_price',
+        asset_id: 'asset1',
+        market: 'market1',
+        fee_rate_bps: '0',
+        price,
+        side: Side.BUY,
+        size: '10',
+        timestamp: '3',
+    });
+
+    const send = async (events: object[]) => {
+        await getHandler('message')(Buffer.from(JSON.stringify(events)));
+    };
+
+    const connect = async (options: GroupSocketOptions = {}) => {
+        const mockLimiter = {
+            schedule: vi.fn().mockImplementation(async (opts, fn) => fn())
+        } as unknown as Bottleneck;
+
+        const groupSocket = new GroupSocket(group, mockLimiter, bookCache, mockHandlers, true, options);
+        await groupSocket.connect();
+        await getHandler('open')();
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+
+        mockHandlers = {
+            onError: vi.fn(),
+            onPolymarketPriceUpdate: vi.fn(),
+        };
+
+        group = {
+            groupId: 'test-group',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        bookCache = new OrderBookCache();
+
+        mockWS = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            ping: vi.fn(),
+            close: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should emit the midpoint once per price within a 10 cent spread', async () => {
+        await connect();
+        await send([book('0.4', '0.5')]);
+
+        await send([priceChange('0.46')]);
+        await send([priceChange('0.41')]);
+
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledTimes(1);
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledWith([expect.objectContaining({
+            asset_id: 'asset1',
+            price: '0.48',
+            midpoint: '0.48',
+            spread: '0.04',
+        })]);
+    });
+
+    it('should emit the last trade price above a 10 cent spread', async () => {
+        await connect();
+        await send([book('0.3', '0.6')]);
+
+        await send([priceChange('0.31')]);
+        await send([trade('0.55')]);
+
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledTimes(1);
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledWith([expect.objectContaining({
+            price: '0.55',
+            spread: '0.29',
+        })]);
+    });
+
+    it('should pass the book, last trade and tick size to a custom calculator', async () => {
+        const priceCalculator = { price: vi.fn().mockReturnValue('0.42') };
+        await connect({ priceCalculator });
+        await send([book('0.4', '0.5')]);
+        await send([{ event_type: 'tick_size_change', asset_id: 'asset1', market: 'market1', old_tick_size: '0.01', new_tick_size: '0.001', timestamp: '2' }]);
+        await send([trade('0.45')]);
+
+        const event = priceChange('0.41');
+        await send([event]);
+
+        expect(priceCalculator.price).toHaveBeenLastCalledWith({
+            assetId: 'asset1',
+            bids: [{ price: '0.4', size: '10' }, { price: '0.41', size: '5' }],
+            asks: [{ price: '0.5', size: '10' }],
+            lastTradePrice: '0.45',
+            tickSize: '0.001',
+            triggeringEvent: event,
+        });
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledTimes(1);
+        expect(mockHandlers.onPolymarketPriceUpdate).toHaveBeenCalledWith([expect.objectContaining({ price: '0.42' })]);
+    });
+
+    it('should report calculator errors', async () => {
+        const cause = new Error('no model');
+        const priceCalculator = { price: vi.fn().mockImplementation(() => { throw cause; }) };
+        await connect({ priceCalculator });
+        await send([book('0.4', '0.5')]);
+
+        await send([priceChange('0.41')]);
+
+        expect(mockHandlers.onPolymarketPriceUpdate).not.toHaveBeenCalled();
+        expect(mockHandlers.onError).toHaveBeenCalledWith(new PolyWebSocketError(
+            'Failed to calculate price for asset asset1: no model',
+            { groupId: 'test-group', cause },
+        ));
+    });
+
+    describe('best bid and ask', () => {
+        beforeEach(() => {
+            mockHandlers.onBestBidAsk = vi.fn();
+        });
+
+        it('should emit the top of new books and of price changes that move it', async () => {
+            await connect();
+            const bookEvent = book('0.4', '0.5');
+            await send([bookEvent]);
+
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledWith([{
+                event_type: 'best_bid_ask',
+                asset_id: 'asset1',
+                market: 'market1',
+                timestamp: '1',
+                triggeringEvent: bookEvent,
+                best_bid: '0.4',
+                best_bid_size: '10',
+                best_ask: '0.5',
+                best_ask_size: '10',
+                spread: '0.1',
+            }]);
+
+            // Below the best bid
+            await send([priceChange('0.39')]);
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledTimes(1);
+
+            await send([priceChange('0.4')]);
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledTimes(2);
+            expect(mockHandlers.onBestBidAsk).toHaveBeenLastCalledWith([expect.objectContaining({
+                best_bid: '0.4',
+                best_bid_size: '5',
+                timestamp: '2',
+            })]);
+
+            // Same top
+            await send([book('0.4', '0.5')]);
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledTimes(3);
+            await send([book('0.4', '0.5')]);
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledTimes(3);
+        });
+
+        it('should report an empty side as null', async () => {
+            await connect();
+            await send([book('0.4', '0.5')]);
+
+            await send([{ ...priceChange('0.4'), price_changes: [{ ...priceChange('0.4').price_changes[0], size: '0' }] }]);
+
+            expect(mockHandlers.onBestBidAsk).toHaveBeenLastCalledWith([expect.objectContaining({
+                best_bid: null,
+                best_bid_size: null,
+                best_ask: '0.5',
+                spread: null,
+            })]);
+        });
+
+        it('should not emit for stale books', async () => {
+            await connect();
+            await send([book('0.4', '0.5')]);
+            await getHandler('close')(1006, Buffer.from(''));
+
+            await send([priceChange('0.45')]);
+
+            expect(mockHandlers.onBestBidAsk).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    it('should notify the book metrics of each changed book', async () => {
+        const bookMetrics = { bookChanged: vi.fn() } as unknown as BookMetricsStream;
+        await connect({ bookMetrics });
+
+        await send([book('0.4', '0.5')]);
+        await send([priceChange('0.45')]);
+        await send([trade('0.45')]);
+
+        expect(bookMetrics.bookChanged).toHaveBeenCalledTimes(2);
+        expect(bookMetrics.bookChanged).toHaveBeenCalledWith('asset1');
+    });
+
+    describe('market price', () => {
+        const tokenBook = (assetId: string, bid: string, ask: string): BookEvent => ({ ...book(bid, ask), asset_id: assetId });
+
+        const change = (assetId: string, price: string): PriceChangeEvent => ({
+            ...priceChange(price),
+            price_changes: [{ ...priceChange(price).price_changes[0], asset_id: assetId }],
+        });
+
+        beforeEach(() => {
+            group.assetIds.add('asset2');
+            mockHandlers.onMarketPriceUpdate = vi.fn();
+        });
+
+        it('should emit prices of both outcomes from the merged book', async () => {
+            await connect();
+            await send([tokenBook('asset1', '0.4', '0.5')]);
+            await send([change('asset1', '0.41')]);
+            expect(mockHandlers.onMarketPriceUpdate).not.toHaveBeenCalled();
+
+            await send([tokenBook('asset2', '0.45', '0.62')]);
+            const event = change('asset1', '0.42');
+            await send([event]);
+
+            expect(mockHandlers.onMarketPriceUpdate).toHaveBeenCalledWith([{
+                event_type: 'market_price_update',
+                market: 'market1',
+                asset_id: 'asset1',
+                complement_asset_id: 'asset2',
+                timestamp: '2',
+                triggeringEvent: event,
+                book: {
+                    bids: [{ price: '0.38', size: '10' }, { price: '0.4', size: '10' }, { price: '0.41', size: '5' }, { price: '0.42', size: '5' }],
+                    asks: [{ price: '0.55', size: '10' }, { price: '0.5', size: '10' }],
+                },
+                price: '0.46',
+                complement_price: '0.54',
+                midpoint: '0.46',
+                spread: '0.08',
+            }]);
+
+            // A bid of the other token is an ask of this one
+            await send([change('asset2', '0.52')]);
+            expect(mockHandlers.onMarketPriceUpdate).toHaveBeenLastCalledWith([expect.objectContaining({
+                price: '0.45',
+                complement_price: '0.55',
+            })]);
+        });
+
+        it('should mirror trades of the other token on a wide spread', async () => {
+            await connect();
+            await send([tokenBook('asset1', '0.3', '0.5'), tokenBook('asset2', '0.3', '0.8')]);
+
+            await send([{ ...trade('0.6'), asset_id: 'asset2' }]);
+
+            expect(mockHandlers.onMarketPriceUpdate).toHaveBeenCalledWith([expect.objectContaining({
+                asset_id: 'asset1',
+                price: '0.4',
+                complement_price: '0.6',
+            })]);
+        });
+
+        it('should not emit while either book is stale', async () => {
+            await connect();
+            await send([tokenBook('asset1', '0.4', '0.5'), tokenBook('asset2', '0.45', '0.62')]);
+            bookCache.markStale(['asset2']);
+
+            await send([change('asset1', '0.42')]);
+
+            expect(mockHandlers.onMarketPriceUpdate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('book deltas', () => {
+        beforeEach(() => {
+            mockHandlers.onBookDelta = vi.fn();
+        });
+
+        it('should emit the levels changed by books and price changes', async () => {
+            await connect();
+            const firstBook = book('0.4', '0.5');
+            await send([firstBook]);
+
+            expect(mockHandlers.onBookDelta).toHaveBeenCalledWith([{
+                event_type: 'book_delta',
+                asset_id: 'asset1',
+                market: 'market1',
+                timestamp: '1',
+                triggeringEvent: firstBook,
+                deltas: [
+                    { side: Side.BUY, price: '0.4', action: 'add', old_size: null, new_size: '10' },
+                    { side: Side.SELL, price: '0.5', action: 'add', old_size: null, new_size: '10' },
+                ],
+            }]);
+
+            await send([priceChange('0.4')]);
+            expect(mockHandlers.onBookDelta).toHaveBeenLastCalledWith([expect.objectContaining({
+                timestamp: '2',
+                deltas: [{ side: Side.BUY, price: '0.4', action: 'update', old_size: '10', new_size: '5' }],
+            })]);
+
+            await send([book('0.41', '0.5')]);
+            expect(mockHandlers.onBookDelta).toHaveBeenLastCalledWith([expect.objectContaining({
+                deltas: [
+                    { side: Side.BUY, price: '0.4', action: 'remove', old_size: '5', new_size: null },
+                    { side: Side.BUY, price: '0.41', action: 'add', old_size: null, new_size: '10' },
+                ],
+            })]);
+
+            // Unchanged book
+            await send([book('0.41', '0.5')]);
+            expect(mockHandlers.onBookDelta).toHaveBeenCalledTimes(3);
+        });
+
+        it('should emit deltas of stale books', async () => {
+            await connect();
+            await send([book('0.4', '0.5')]);
+            await getHandler('close')(1006, Buffer.from(''));
+
+            await send([priceChange('0.45')]);
+
+            expect(mockHandlers.onBookDelta).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not compute deltas without a handler', async () => {
+            delete mockHandlers.onBookDelta;
+            const replaceBook = vi.spyOn(bookCache, 'replaceBook');
+            const upsertPriceChange = vi.spyOn(bookCache, 'upsertPriceChange');
+            await connect();
+
+            await send([book('0.4', '0.5')]);
+            await send([priceChange('0.45')]);
+
+            expect(replaceBook).toHaveBeenCalledWith(expect.anything(), undefined);
+            expect(upsertPriceChange).toHaveBeenCalledWith(expect.anything(), undefined);
+        });
+    });
+});
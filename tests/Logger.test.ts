@@ -0,0 +1,105 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi } from 'vitest';
+import winston from 'winston';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+import { Writable } from 'stream';
+import { fromWinston } from '../src/logger';
+import { Logger, LogEntry } from '../src/types/Logger';
+import { GroupSocket } from '../src/modules/GroupSocket';
+import { GroupRegistry } from '../src/modules/GroupRegistry';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { UserWSSubscriptionManager } from '../src/UserWSSubscriptionManager';
+import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+/*
+    Records every entry with the fields bound by its chain of child loggers.
+*/
+function createRecordingLogger(entries: LogEntry[], fields: Record<string, unknown> = {}): Logger {
+    const record = (entry: LogEntry) => { entries.push({ ...fields, ...entry }); };
+    return {
+        debug: record,
+        info: record,
+        warn: record,
+        error: record,
+        child: (childFields) => createRecordingLogger(entries, { ...fields, ...childFields }),
+    };
+}
+
+describe('Logger', () => {
+    it('should bind the group id on socket logs', async () => {
+        MockedWebSocket.mockReturnValue({ on: vi.fn(), removeAllListeners: vi.fn() } as any);
+        const entries: LogEntry[] = [];
+        const group: WebSocketGroup = {
+            groupId: 'group1',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const limiter = { schedule: vi.fn().mockImplementation(async (opts, fn) => fn()) } as unknown as Bottleneck;
+        const socket = new GroupSocket(group, limiter, new OrderBookCache(), {}, true, {
+            logger: createRecordingLogger(entries, { managerId: 'manager1' }),
+        });
+
+        await socket.connect();
+
+        expect(entries).toContainEqual({
+            managerId: 'manager1',
+            groupId: 'group1',
+            message: 'Connecting to CLOB WebSocket',
+            assetIdsLength: 1,
+        });
+    });
+
+    it('should log registry changes to the given logger', async () => {
+        const entries: LogEntry[] = [];
+        const registry = new GroupRegistry(createRecordingLogger(entries));
+
+        await registry.addAssets(['asset1', 'asset2'], 10);
+
+        expect(entries).toEqual([{ message: 'Added 2 new asset(s)' }]);
+    });
+
+    it('should bind a manager id per manager', async () => {
+        const entries: LogEntry[] = [];
+        const logger = createRecordingLogger(entries);
+        const options = { auth: { key: 'key', secret: 'secret', passphrase: 'passphrase' }, autoStart: false, logger };
+        const first = new UserWSSubscriptionManager({}, options);
+        const second = new UserWSSubscriptionManager({}, options);
+
+        await first.addSubscriptions(['market1']);
+        await second.addSubscriptions(['market1']);
+
+        const managerIds = entries
+            .filter(entry => entry.message === 'Added user market subscriptions')
+            .map(entry => entry.managerId);
+        expect(managerIds).toHaveLength(2);
+        expect(managerIds[0]).toEqual(expect.any(String));
+        expect(managerIds[0]).not.toBe(managerIds[1]);
+
+        await first.dispose();
+        await second.dispose();
+    });
+
+    it('should adapt winston child loggers', () => {
+        const written: any[] = [];
+        const winstonLogger = winston.createLogger({
+            level: 'debug',
+            transports: [new winston.transports.Stream({
+                stream: new Writable({
+                    objectMode: true,
+                    write: (info: any, _encoding: string, callback: () => void) => { written.push(info); callback(); },
+                }),
+            })],
+        });
+
+        fromWinston(winstonLogger).child({ managerId: 'manager1' }).warn({ message: 'Stale connection', reason: 'no pong' });
+
+        expect(written).toHaveLength(1);
+        expect(written[0]).toMatchObject({ level: 'warn', message: 'Stale connection', managerId: 'manager1', reason: 'no pong' });
+    });
+});
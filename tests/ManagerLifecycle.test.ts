@@ -0,0 +1,74 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ManagerLifecycle, ManagerLifecycleHooks } from '../src/modules/ManagerLifecycle';
+
+describe('ManagerLifecycle', () => {
+    let hooks: { [K in keyof ManagerLifecycleHooks]: ReturnType<typeof vi.fn> };
+    let lifecycle: ManagerLifecycle;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        hooks = {
+            tick: vi.fn().mockResolvedValue(undefined),
+            cancel: vi.fn(),
+            closeAll: vi.fn().mockResolvedValue(undefined),
+            clearState: vi.fn().mockResolvedValue(undefined),
+            release: vi.fn().mockResolvedValue(undefined),
+        };
+        lifecycle = new ManagerLifecycle('TestManager', 1000, hooks);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should run the loop between start and stop', async () => {
+        lifecycle.start();
+        lifecycle.start();
+        vi.advanceTimersByTime(2000);
+        expect(hooks.tick).toHaveBeenCalledTimes(2);
+        expect(lifecycle.running).toBe(true);
+
+        await lifecycle.stop();
+        vi.advanceTimersByTime(2000);
+
+        expect(hooks.tick).toHaveBeenCalledTimes(2);
+        expect(lifecycle.running).toBe(false);
+        expect(hooks.cancel).toHaveBeenCalledTimes(1);
+        expect(hooks.closeAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for tracked calls on stop', async () => {
+        let resolveCall!: () => void;
+        lifecycle.track(() => new Promise<void>(resolve => { resolveCall = resolve; }));
+
+        let stopped = false;
+        const stop = lifecycle.stop().then(() => { stopped = true; });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(stopped).toBe(false);
+
+        resolveCall();
+        await stop;
+        expect(stopped).toBe(true);
+    });
+
+    it('should not wait for the tracked calls stop was called from', async () => {
+        const handler = lifecycle.tracked(async () => {
+            await lifecycle.track(() => lifecycle.stop());
+        })!;
+
+        await handler();
+
+        expect(hooks.closeAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dispose once and reject a later start', async () => {
+        await lifecycle.dispose();
+        await lifecycle.dispose();
+
+        expect(hooks.clearState).toHaveBeenCalledTimes(1);
+        expect(hooks.release).toHaveBeenCalledTimes(1);
+        expect(lifecycle.disposed).toBe(true);
+        expect(() => lifecycle.start()).toThrow('TestManager has been disposed');
+    });
+});
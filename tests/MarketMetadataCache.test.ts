@@ -0,0 +1,65 @@
+/// <reference types="vitest" />
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MarketMetadataCache, isEmptyQuery } from '../src/modules/MarketMetadataCache';
+import { MarketMetadata } from '../src/types/MarketMetadata';
+
+describe('MarketMetadataCache', () => {
+    let cache: MarketMetadataCache;
+
+    const market = (conditionId: string, eventSlug: string | null = 'event1'): MarketMetadata => ({
+        conditionId,
+        question: `Question ${conditionId}?`,
+        slug: `slug-${conditionId}`,
+        eventSlug,
+        outcomes: [{ assetId: `${conditionId}-yes`, name: 'Yes' }, { assetId: `${conditionId}-no`, name: 'No' }],
+        tickSize: '0.01',
+        endDate: null,
+        negRisk: false,
+    });
+
+    beforeEach(() => {
+        cache = new MarketMetadataCache();
+    });
+
+    it('should resolve cached markets by condition id and slug, once each', () => {
+        cache.add([market('0x1'), market('0x2')]);
+
+        const { markets, missing } = cache.resolve({
+            conditionIds: ['0x1', '0x3'],
+            marketSlugs: ['slug-0x1', 'slug-0x2', 'slug-0x4'],
+        });
+
+        expect(markets.map(m => m.conditionId)).toEqual(['0x1', '0x2']);
+        expect(missing).toEqual({ conditionIds: ['0x3'], marketSlugs: ['slug-0x4'], eventSlugs: [] });
+    });
+
+    it('should only index the event slugs that were queried', () => {
+        cache.add([market('0x1')]);
+        expect(cache.resolve({ eventSlugs: ['event1'] }).missing.eventSlugs).toEqual(['event1']);
+
+        cache.add([market('0x1'), market('0x2'), market('0x3', 'event2')], ['event1', 'unknown']);
+
+        const { markets, missing } = cache.resolve({ eventSlugs: ['event1', 'unknown'] });
+        expect(markets.map(m => m.conditionId)).toEqual(['0x1', '0x2']);
+        expect(missing.eventSlugs).toEqual(['unknown']);
+    });
+
+    it('should map tokens to their market and outcome', () => {
+        const yesNo = market('0x1');
+        cache.add([yesNo]);
+
+        expect(cache.getMarket('0x1')).toBe(yesNo);
+        expect(cache.getAsset('0x1-no')).toEqual({ market: yesNo, outcome: { assetId: '0x1-no', name: 'No' } });
+        expect(cache.getAsset('unknown')).toBeNull();
+
+        cache.clear();
+        expect(cache.getMarket('0x1')).toBeNull();
+        expect(cache.getAsset('0x1-no')).toBeNull();
+    });
+
+    it('should detect empty queries', () => {
+        expect(isEmptyQuery({})).toBe(true);
+        expect(isEmptyQuery({ conditionIds: [], marketSlugs: [], eventSlugs: [] })).toBe(true);
+        expect(isEmptyQuery({ eventSlugs: ['event1'] })).toBe(false);
+    });
+});
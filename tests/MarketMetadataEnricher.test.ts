@@ -0,0 +1,169 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MarketMetadataEnricher } from '../src/modules/MarketMetadataEnricher';
+import { MarketMetadataCache } from '../src/modules/MarketMetadataCache';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { MarketMetadata } from '../src/types/MarketMetadata';
+import { BookEvent, LastTradePriceEvent, PolymarketPriceUpdateEvent, PriceChangeEvent, Side, TickSizeChangeEvent, WebSocketHandlers } from '../src/types/PolymarketWebSocket';
+
+describe('MarketMetadataEnricher', () => {
+    let metadataCache: MarketMetadataCache;
+    let bookCache: OrderBookCache;
+    let provider: { getMarkets: ReturnType<typeof vi.fn> };
+    let handlers: Pick<WebSocketHandlers, 'onError'>;
+    let enricher: MarketMetadataEnricher;
+
+    const market: MarketMetadata = {
+        conditionId: 'market1',
+        question: 'Will it happen?',
+        slug: 'will-it-happen',
+        eventSlug: 'event1',
+        outcomes: [{ assetId: 'asset1', name: 'Yes' }, { assetId: 'asset2', name: 'No' }],
+        tickSize: '0.01',
+        endDate: '2026-12-31T12:00:00Z',
+        negRisk: false,
+    };
+
+    const metadata = (outcome: string, tickSize = '0.01') => ({
+        question: 'Will it happen?',
+        outcome,
+        slug: 'will-it-happen',
+        endDate: '2026-12-31T12:00:00Z',
+        negRisk: false,
+        tickSize,
+    });
+
+    const book: BookEvent = {
+        event_type: 'book',
+        asset_id: 'asset1',
+        market: 'market1',
+        timestamp: '1',
+        hash: 'hash',
+        bids: [{ price: '0.4', size: '10' }],
+        asks: [{ price: '0.5', size: '10' }],
+    };
+
+    const trade: LastTradePriceEvent = {
+        event_type: 'last_trade_price',
+        asset_id: 'asset2',
+        market: 'market1',
+        fee_rate_bps: '0',
+        price: '0.6',
+        side: Side.BUY,
+        size: '5',
+        timestamp: '2',
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        metadataCache = new MarketMetadataCache();
+        bookCache = new OrderBookCache();
+        provider = { getMarkets: vi.fn().mockResolvedValue([market]) };
+        handlers = { onError: vi.fn() };
+        enricher = new MarketMetadataEnricher(metadataCache, provider, bookCache, handlers, { ttlMs: 60_000 });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should attach the market and outcome of the token', () => {
+        metadataCache.add([market]);
+        const priceChange: PriceChangeEvent = {
+            event_type: 'price_change',
+            market: 'market1',
+            timestamp: '3',
+            price_changes: [
+                { asset_id: 'asset1', price: '0.4', size: '20', side: Side.BUY, hash: 'h1', best_bid: '0.4', best_ask: '0.5' },
+                { asset_id: 'asset2', price: '0.6', size: '20', side: Side.SELL, hash: 'h2', best_bid: '0.5', best_ask: '0.6' },
+            ],
+        };
+        const priceUpdate = { event_type: 'price_update', asset_id: 'asset1', triggeringEvent: trade } as PolymarketPriceUpdateEvent;
+
+        const [enrichedBook, enrichedTrade, enrichedChange, enrichedUpdate] = enricher.enrich([book, trade, priceChange, priceUpdate]);
+
+        expect(enrichedBook).toEqual({ ...book, metadata: metadata('Yes') });
+        expect(enrichedTrade).toEqual({ ...trade, metadata: metadata('No') });
+        expect((enrichedChange as PriceChangeEvent).price_changes.map(item => item.metadata)).toEqual([metadata('Yes'), metadata('No')]);
+        expect(enrichedUpdate).toEqual({ ...priceUpdate, metadata: metadata('Yes') });
+        expect(book).not.toHaveProperty('metadata');
+    });
+
+    it('should prefer the tick size of the cached book', () => {
+        metadataCache.add([market]);
+        bookCache.replaceBook({ ...book, tick_size: '0.001' });
+
+        expect(enricher.enrich([book])[0].metadata).toEqual(metadata('Yes', '0.001'));
+    });
+
+    it('should leave other events and unknown tokens as is', () => {
+        const tickSizeChange = { event_type: 'tick_size_change', asset_id: 'asset1', market: 'market1' } as TickSizeChangeEvent;
+
+        const events = enricher.enrich([book, tickSizeChange]);
+
+        expect(events[0]).toBe(book);
+        expect(events[1]).toBe(tickSizeChange);
+    });
+
+    it('should fetch unknown markets in one batch, once', async () => {
+        const unknown = { ...book, asset_id: 'asset3', market: 'market2' };
+        enricher.enrich([book, trade, unknown]);
+        enricher.enrich([book]);
+        await enricher.refreshQueued();
+
+        expect(provider.getMarkets).toHaveBeenCalledTimes(1);
+        expect(provider.getMarkets).toHaveBeenCalledWith({ conditionIds: ['market1', 'market2'] });
+        expect(enricher.enrich([book])[0].metadata).toEqual(metadata('Yes'));
+
+        // market2 was not found, it is retried after the retry interval
+        enricher.enrich([unknown]);
+        await enricher.refreshQueued();
+        expect(provider.getMarkets).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(60_000);
+        enricher.enrich([unknown]);
+        await enricher.refreshQueued();
+        expect(provider.getMarkets).toHaveBeenLastCalledWith({ conditionIds: ['market2'] });
+    });
+
+    it('should refresh expired markets in the background', async () => {
+        metadataCache.add([market]);
+        enricher.enrich([book]);
+        await enricher.refreshQueued();
+        expect(provider.getMarkets).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(60_000);
+        provider.getMarkets.mockResolvedValue([{ ...market, question: 'Will it happen soon?' }]);
+
+        // The expired metadata annotates events until it is replaced
+        expect(enricher.enrich([book])[0].metadata?.question).toBe('Will it happen?');
+        await enricher.refreshQueued();
+        expect(enricher.enrich([book])[0].metadata?.question).toBe('Will it happen soon?');
+    });
+
+    it('should report refresh errors', async () => {
+        provider.getMarkets.mockRejectedValue(new Error('Gamma /markets responded with status 500'));
+
+        enricher.enrich([book]);
+        await enricher.refreshQueued();
+
+        expect(handlers.onError).toHaveBeenCalledWith(
+            new Error('Error refreshing market metadata: Gamma /markets responded with status 500')
+        );
+    });
+
+    it('should refresh in batches that fail independently', async () => {
+        enricher = new MarketMetadataEnricher(metadataCache, provider, bookCache, handlers, { ttlMs: 60_000, batchSize: 1 });
+        const unknown = { ...book, asset_id: 'asset3', market: 'market2' };
+        provider.getMarkets.mockRejectedValueOnce(new Error('Gamma /markets responded with status 500'));
+
+        enricher.enrich([unknown, book]);
+        await enricher.refreshQueued();
+
+        expect(provider.getMarkets).toHaveBeenCalledTimes(2);
+        expect(provider.getMarkets).toHaveBeenNthCalledWith(1, { conditionIds: ['market2'] });
+        expect(provider.getMarkets).toHaveBeenNthCalledWith(2, { conditionIds: ['market1'] });
+        expect(handlers.onError).toHaveBeenCalledTimes(1);
+        expect(enricher.enrich([book])[0].metadata).toEqual(metadata('Yes'));
+    });
+});
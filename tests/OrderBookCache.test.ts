@@ -1,8 +1,9 @@
 /// <reference types="vitest" />
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OrderBookCache } from '../src/modules/OrderBookCache';
 import {
     BookEvent,
+    BookLevelDelta,
     PriceChangeEvent,
     PriceLevel,
     Side,
@@ -234,4 +235,698 @@ describe('OrderBookCache', () => {
 
         expect(() => bookCache.spreadOver(ASSET_ID, 0.1)).toThrow("Spread is NaN: lowestAsk 'A' highestBid '0.02'");
     });
-}); 
\ No newline at end of file
+
+    describe('book maintenance', () => {
+        function book(bids: PriceLevel[], asks: PriceLevel[]): BookEvent {
+            return {
+                asset_id: ASSET_ID,
+                market: 'm',
+                timestamp: '0',
+                hash: 'h',
+                event_type: 'book',
+                bids,
+                asks,
+            };
+        }
+
+        function priceChange(side: Side, price: string, size: string): PriceChangeEvent {
+            return {
+                market: 'm',
+                timestamp: '1',
+                event_type: 'price_change',
+                price_changes: [{ asset_id: ASSET_ID, price, side, size, hash: 'x', best_bid: '', best_ask: '' }],
+            };
+        }
+
+        function assertInvariants(): void {
+            const entry = bookCache.getBookEntry(ASSET_ID)!;
+            assertAscending(entry.bids);
+            assertDescending(entry.asks);
+            for (const level of [...entry.bids, ...entry.asks]) {
+                expect(parseFloat(level.size)).toBeGreaterThan(0);
+            }
+        }
+
+        beforeEach(() => {
+            bookCache.replaceBook(book(
+                [{ price: '0.48', size: '100' }, { price: '0.49', size: '50' }, { price: '0.5', size: '20' }],
+                [{ price: '0.54', size: '80' }, { price: '0.53', size: '40' }, { price: '0.52', size: '10' }],
+            ));
+        });
+
+        it('should remove a level when its size drops to zero', () => {
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.5', '0'));
+            bookCache.upsertPriceChange(priceChange(Side.SELL, '0.52', '0'));
+
+            assertInvariants();
+            expect(bookCache.bestBid(ASSET_ID)).toEqual({ price: '0.49', size: '50' });
+            expect(bookCache.bestAsk(ASSET_ID)).toEqual({ price: '0.53', size: '40' });
+            expect(bookCache.midpoint(ASSET_ID)).toBe('0.51');
+            expect(bookCache.spreadOver(ASSET_ID, 0.03)).toBe(true);
+        });
+
+        it('should apply the changes of cached books and skip the others', () => {
+            const event = priceChange(Side.BUY, '0.5', '0');
+            const item = event.price_changes[0];
+            event.price_changes = [{ ...item, asset_id: 'uncached' }, item, { ...item, asset_id: 'uncached', price: '0.49' }, { ...item, price: '0.49', size: '7' }];
+
+            expect(() => bookCache.upsertPriceChange(event)).not.toThrow();
+
+            expect(bookCache.bestBid(ASSET_ID)).toEqual({ price: '0.49', size: '7' });
+            expect(bookCache.getBookEntry('uncached')).toBeNull();
+        });
+
+        it('should ignore a zero size for a level that is not in the book', () => {
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.3', '0'));
+
+            expect(bookCache.depth(ASSET_ID, Side.BUY, 10)).toHaveLength(3);
+        });
+
+        it('should drop zero-size levels of a book snapshot', () => {
+            bookCache.replaceBook(book(
+                [{ price: '0.4', size: '10' }, { price: '0.45', size: '0' }],
+                [{ price: '0.6', size: '0.00' }, { price: '0.55', size: '5' }],
+            ));
+
+            expect(bookCache.bestBid(ASSET_ID)).toEqual({ price: '0.4', size: '10' });
+            expect(bookCache.bestAsk(ASSET_ID)).toEqual({ price: '0.55', size: '5' });
+        });
+
+        it('should compare prices numerically', () => {
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.50', '25'));
+
+            assertInvariants();
+            expect(bookCache.depth(ASSET_ID, Side.BUY, 10)).toHaveLength(3);
+            expect(bookCache.bestBid(ASSET_ID)).toEqual({ price: '0.5', size: '25' });
+
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.500', '0'));
+            expect(bookCache.bestBid(ASSET_ID)!.price).toBe('0.49');
+        });
+
+        it('should not modify the book event', () => {
+            const event = book([{ price: '0.4', size: '10' }], [{ price: '0.6', size: '10' }]);
+            bookCache.replaceBook(event);
+
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.4', '3'));
+
+            expect(event.bids).toEqual([{ price: '0.4', size: '10' }]);
+        });
+
+        it('should keep a consistent book while replaying price changes', () => {
+            const changes: [Side, string, string][] = [
+                [Side.BUY, '0.51', '15'],   // new best bid
+                [Side.SELL, '0.52', '0'],   // best ask taken
+                [Side.SELL, '0.526', '30'], // new best ask inside the spread
+                [Side.BUY, '0.51', '0'],    // best bid cancelled
+                [Side.BUY, '0.47', '200'],  // new level deep in the book
+                [Side.SELL, '0.54', '60'],  // size reduced
+                [Side.BUY, '0.5', '0'],
+                [Side.BUY, '0.49', '0'],
+            ];
+
+            for (const [side, price, size] of changes) {
+                bookCache.upsertPriceChange(priceChange(side, price, size));
+                assertInvariants();
+            }
+
+            expect(bookCache.depth(ASSET_ID, Side.BUY, 5)).toEqual([
+                { price: '0.48', size: '100' },
+                { price: '0.47', size: '200' },
+            ]);
+            expect(bookCache.depth(ASSET_ID, Side.SELL, 2)).toEqual([
+                { price: '0.526', size: '30' },
+                { price: '0.53', size: '40' },
+            ]);
+            expect(bookCache.midpoint(ASSET_ID)).toBe('0.503');
+        });
+
+        it('should leave the book without bids once every bid is removed', () => {
+            for (const price of ['0.48', '0.49', '0.5']) {
+                bookCache.upsertPriceChange(priceChange(Side.BUY, price, '0'));
+            }
+
+            expect(bookCache.bestBid(ASSET_ID)).toBeNull();
+            expect(() => bookCache.midpoint(ASSET_ID)).toThrow('No bids in book');
+        });
+
+        it('should return no levels for an unknown book', () => {
+            expect(bookCache.bestBid('unknown')).toBeNull();
+            expect(bookCache.bestAsk('unknown')).toBeNull();
+            expect(bookCache.depth('unknown', Side.SELL, 3)).toEqual([]);
+            expect(bookCache.depth(ASSET_ID, Side.SELL, 0)).toEqual([]);
+        });
+
+        it('should return frozen snapshots that do not follow later updates', () => {
+            const snapshot = bookCache.snapshot(ASSET_ID)!;
+
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.5', '0'));
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.49', '7'));
+
+            expect(snapshot).toEqual({
+                assetId: ASSET_ID,
+                market: 'm',
+                timestamp: '0',
+                bids: [{ price: '0.48', size: '100' }, { price: '0.49', size: '50' }, { price: '0.5', size: '20' }],
+                asks: [{ price: '0.54', size: '80' }, { price: '0.53', size: '40' }, { price: '0.52', size: '10' }],
+                price: null,
+                tickSize: null,
+                offGridLevels: [],
+                stale: false,
+            });
+            expect(Object.isFrozen(snapshot)).toBe(true);
+            expect(Object.isFrozen(snapshot.bids)).toBe(true);
+            expect(Object.isFrozen(snapshot.bids[0])).toBe(true);
+
+            expect(bookCache.snapshot(ASSET_ID)!.timestamp).toBe('1');
+            expect(bookCache.snapshot(ASSET_ID)!.bids).toHaveLength(2);
+            expect(bookCache.snapshot('unknown')).toBeNull();
+        });
+
+        it('should return the best bid and ask with the last event timestamp', () => {
+            bookCache.upsertPriceChange(priceChange(Side.SELL, '0.52', '0'));
+
+            const top = bookCache.bestBidAsk(ASSET_ID)!;
+            expect(top).toEqual({
+                assetId: ASSET_ID,
+                timestamp: '1',
+                bestBid: { price: '0.5', size: '20' },
+                bestAsk: { price: '0.53', size: '40' },
+                stale: false,
+            });
+            expect(Object.isFrozen(top.bestBid)).toBe(true);
+            expect(bookCache.bestBidAsk('unknown')).toBeNull();
+        });
+
+        it('should convert snapshots to numbers or fixed-point values', () => {
+            const units = (value: string) => BigInt(Math.round(parseFloat(value) * 1000)) * BigInt(10) ** BigInt(15);
+
+            expect(bookCache.snapshot(ASSET_ID, 'number')!.bids[2]).toEqual({ price: 0.5, size: 20 });
+            expect(bookCache.snapshot(ASSET_ID, 'bigint')!.asks[2]).toEqual({ price: units('0.52'), size: units('10') });
+            expect(bookCache.snapshot(ASSET_ID, 'bigint')!.price).toBeNull();
+            expect(bookCache.bestBidAsk(ASSET_ID, 'bigint')!.bestBid).toEqual({ price: units('0.5'), size: units('20') });
+            expect(bookCache.bestBidAsk(ASSET_ID, 'number')!.bestAsk).toEqual({ price: 0.52, size: 10 });
+        });
+
+        it('should report the top of the book when it changes', () => {
+            expect(bookCache.topChange(ASSET_ID)).toEqual({
+                bestBid: { price: '0.5', size: '20' },
+                bestAsk: { price: '0.52', size: '10' },
+            });
+            expect(bookCache.topChange(ASSET_ID)).toBeNull();
+
+            // Below the top
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.48', '70'));
+            expect(bookCache.topChange(ASSET_ID)).toBeNull();
+
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.5', '25'));
+            expect(bookCache.topChange(ASSET_ID)!.bestBid).toEqual({ price: '0.5', size: '25' });
+
+            bookCache.upsertPriceChange(priceChange(Side.SELL, '0.52', '0'));
+            expect(bookCache.topChange(ASSET_ID)!.bestAsk).toEqual({ price: '0.53', size: '40' });
+            expect(bookCache.topChange('unknown')).toBeNull();
+        });
+
+        it('should only report the top of a new snapshot if it differs', () => {
+            bookCache.topChange(ASSET_ID);
+
+            bookCache.replaceBook(book(
+                [{ price: '0.3', size: '1' }, { price: '0.5', size: '20' }],
+                [{ price: '0.52', size: '10' }],
+            ));
+            expect(bookCache.topChange(ASSET_ID)).toBeNull();
+
+            bookCache.replaceBook(book([], [{ price: '0.52', size: '10' }]));
+            expect(bookCache.topChange(ASSET_ID)).toEqual({ bestBid: null, bestAsk: { price: '0.52', size: '10' } });
+        });
+
+        it('should report the levels added, resized and removed by price changes', () => {
+            const onDelta = vi.fn();
+
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.47', '30'), onDelta);
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.50', '25'), onDelta);
+            bookCache.upsertPriceChange(priceChange(Side.SELL, '0.52', '0'), onDelta);
+
+            expect(onDelta.mock.calls).toEqual([
+                [ASSET_ID, { side: Side.BUY, price: '0.47', action: 'add', old_size: null, new_size: '30' }],
+                [ASSET_ID, { side: Side.BUY, price: '0.5', action: 'update', old_size: '20', new_size: '25' }],
+                [ASSET_ID, { side: Side.SELL, price: '0.52', action: 'remove', old_size: '10', new_size: null }],
+            ]);
+
+            // Same size, and a removal of a missing level
+            onDelta.mockClear();
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.47', '30'), onDelta);
+            bookCache.upsertPriceChange(priceChange(Side.BUY, '0.3', '0'), onDelta);
+            expect(onDelta).not.toHaveBeenCalled();
+        });
+
+        it('should diff a snapshot against the book it replaces', () => {
+            const onDelta = vi.fn();
+
+            bookCache.replaceBook(book(
+                [{ price: '0.47', size: '5' }, { price: '0.48', size: '100' }, { price: '0.5', size: '21' }],
+                [{ price: '0.54', size: '80' }, { price: '0.53', size: '40' }, { price: '0.52', size: '10' }],
+            ), onDelta);
+
+            expect(onDelta.mock.calls.map(([, delta]) => delta)).toEqual([
+                { side: Side.BUY, price: '0.47', action: 'add', old_size: null, new_size: '5' },
+                { side: Side.BUY, price: '0.49', action: 'remove', old_size: '50', new_size: null },
+                { side: Side.BUY, price: '0.5', action: 'update', old_size: '20', new_size: '21' },
+            ]);
+
+            onDelta.mockClear();
+            bookCache.replaceBook({ ...book([{ price: '0.4', size: '1' }], []), asset_id: 'other' }, onDelta);
+            expect(onDelta).toHaveBeenCalledWith('other', { side: Side.BUY, price: '0.4', action: 'add', old_size: null, new_size: '1' });
+        });
+
+        it('should reproduce the cached book by applying the deltas', () => {
+            const replica = { [Side.BUY]: new Map<string, string>(), [Side.SELL]: new Map<string, string>() };
+            const onDelta = (_: string, delta: BookLevelDelta) => {
+                const key = String(parseFloat(delta.price));
+                if (delta.new_size === null) {
+                    replica[delta.side].delete(key);
+                } else {
+                    replica[delta.side].set(key, delta.new_size);
+                }
+            };
+            const levels = (side: Side) => bookCache.depth(ASSET_ID, side, 100)
+                .map(level => [String(parseFloat(level.price)), level.size])
+                .sort();
+
+            bookCache.clear(ASSET_ID);
+            bookCache.replaceBook(book([{ price: '0.49', size: '50' }], [{ price: '0.53', size: '40' }]), onDelta);
+            let seed = 7;
+            for (let i = 0; i < 500; i++) {
+                seed = (seed * 1664525 + 1013904223) % 4294967296;
+                const side = seed % 2 === 0 ? Side.BUY : Side.SELL;
+                const price = ((side === Side.BUY ? 30 : 51) + (seed >>> 8) % 20) / 100;
+                const size = (seed >>> 16) % 4 === 0 ? '0' : String((seed >>> 16) % 50);
+                if (i % 100 === 99) {
+                    bookCache.replaceBook(book([{ price: '0.45', size: '3' }], [{ price: '0.55', size: String(i) }]), onDelta);
+                } else {
+                    bookCache.upsertPriceChange(priceChange(side, price.toFixed(2), size), onDelta);
+                }
+                expect([...replica[Side.BUY]].sort()).toEqual(levels(Side.BUY));
+                expect([...replica[Side.SELL]].sort()).toEqual(levels(Side.SELL));
+            }
+        });
+
+        it('should estimate fills by size and by notional', () => {
+            expect(bookCache.estimateFill(ASSET_ID, Side.BUY, { size: 30 })).toEqual({
+                assetId: ASSET_ID,
+                side: Side.BUY,
+                size: '30',
+                notional: '15.8',
+                averagePrice: '0.526666666666666667',
+                worstPrice: '0.53',
+                levelsConsumed: 2,
+                slippage: '0.016666666666666667',
+                complete: true,
+                stale: false,
+            });
+
+            const byNotional = bookCache.estimateFill(ASSET_ID, Side.BUY, { notional: '10' })!;
+            expect(byNotional.notional).toBe('10');
+            expect(byNotional.size).toBe('19.05660377358490566');
+            expect(byNotional.levelsConsumed).toBe(2);
+            expect(Object.isFrozen(byNotional)).toBe(true);
+
+            expect(bookCache.estimateFill(ASSET_ID, Side.SELL, { size: '20' }, 'number')).toMatchObject({
+                size: 20,
+                averagePrice: 0.5,
+                slippage: 0.01,
+                levelsConsumed: 1,
+            });
+        });
+
+        it('should report a partial fill when the book is too thin', () => {
+            expect(bookCache.estimateFill(ASSET_ID, Side.SELL, { size: 200 })).toMatchObject({
+                size: '170',
+                notional: '82.5',
+                averagePrice: '0.485294117647058824',
+                worstPrice: '0.48',
+                levelsConsumed: 3,
+                complete: false,
+            });
+
+            for (const price of ['0.48', '0.49', '0.5']) {
+                bookCache.upsertPriceChange(priceChange(Side.BUY, price, '0'));
+            }
+            expect(bookCache.estimateFill(ASSET_ID, Side.SELL, { size: 1 })).toMatchObject({
+                size: '0',
+                averagePrice: null,
+                worstPrice: null,
+                slippage: null,
+                complete: false,
+            });
+            expect(bookCache.estimateFill(ASSET_ID, Side.BUY, { size: 1 })!.slippage).toBeNull();
+        });
+
+        it('should reject invalid fill amounts', () => {
+            expect(() => bookCache.estimateFill(ASSET_ID, Side.BUY, { size: 0 })).toThrow("Invalid fill amount: '0'");
+            expect(() => bookCache.estimateFill(ASSET_ID, Side.BUY, { notional: 'abc' })).toThrow("Invalid fill amount: 'abc'");
+            expect(bookCache.estimateFill('unknown', Side.BUY, { size: 1 })).toBeNull();
+        });
+
+        it('should return the cumulative depth within a price band', () => {
+            expect(bookCache.cumulativeDepth(ASSET_ID, Side.SELL, '0.01')).toEqual([
+                { price: '0.52', size: '10', cumulativeSize: '10', cumulativeNotional: '5.2' },
+                { price: '0.53', size: '40', cumulativeSize: '50', cumulativeNotional: '26.4' },
+            ]);
+            expect(bookCache.cumulativeDepth(ASSET_ID, Side.BUY, 0)).toHaveLength(1);
+            expect(bookCache.cumulativeDepth(ASSET_ID, Side.BUY, 1, 'number')![2]).toEqual({
+                price: 0.48,
+                size: 100,
+                cumulativeSize: 170,
+                cumulativeNotional: 82.5,
+            });
+
+            expect(bookCache.cumulativeDepth('unknown', Side.BUY, 1)).toBeNull();
+            expect(() => bookCache.cumulativeDepth(ASSET_ID, Side.BUY, -1)).toThrow("Invalid price band: '-1'");
+        });
+
+        it('should compute the imbalance, liquidity and weighted prices of a book', () => {
+            expect(bookCache.bookMetrics(ASSET_ID)).toEqual({
+                assetId: ASSET_ID,
+                market: 'm',
+                timestamp: '0',
+                imbalance: '0.133333333333333333',
+                bidLiquidity: '170',
+                askLiquidity: '130',
+                midpoint: '0.51',
+                microprice: '0.513333333333333333',
+                weightedMidpoint: '0.513678733031674209',
+                bidLevels: 3,
+                askLevels: 3,
+                stale: false,
+            });
+
+            const top = bookCache.bookMetrics(ASSET_ID, { depthLevels: 1, liquidityBand: 0.02 })!;
+            expect(top.imbalance).toBe('0.333333333333333333');
+            expect(top.weightedMidpoint).toBe(top.microprice);
+            expect(top.bidLiquidity).toBe('70');
+            expect(top.askLiquidity).toBe('50');
+            expect(bookCache.bookMetrics(ASSET_ID, {}, 'number')!.midpoint).toBe(0.51);
+        });
+
+        it('should compute the metrics of a one-sided book', () => {
+            for (const price of ['0.48', '0.49', '0.5']) {
+                bookCache.upsertPriceChange(priceChange(Side.BUY, price, '0'));
+            }
+
+            expect(bookCache.bookMetrics(ASSET_ID)).toMatchObject({
+                imbalance: '-1',
+                bidLiquidity: null,
+                askLiquidity: null,
+                midpoint: null,
+                microprice: null,
+                weightedMidpoint: null,
+                bidLevels: 0,
+            });
+            expect(bookCache.bookMetrics('unknown')).toBeNull();
+            expect(() => bookCache.bookMetrics(ASSET_ID, { liquidityBand: 'x' })).toThrow("Invalid liquidity band: 'x'");
+        });
+
+        it('should compute the midpoint and spread without updating the book', () => {
+            expect(bookCache.currentMidpoint(ASSET_ID)).toBe('0.51');
+            expect(bookCache.currentSpread(ASSET_ID)).toBe('0.02');
+            expect(bookCache.getBookEntry(ASSET_ID)!.midpoint).toBeNull();
+            expect(bookCache.getBookEntry(ASSET_ID)!.spread).toBeNull();
+
+            for (const price of ['0.48', '0.49', '0.5']) {
+                bookCache.upsertPriceChange(priceChange(Side.BUY, price, '0'));
+            }
+            expect(bookCache.currentMidpoint(ASSET_ID)).toBeNull();
+            expect(bookCache.currentSpread(ASSET_ID)).toBeNull();
+            expect(bookCache.currentMidpoint('unknown')).toBeNull();
+        });
+    });
+
+    describe('market books', () => {
+        const book = (assetId: string, bids: PriceLevel[], asks: PriceLevel[], timestamp = '1'): BookEvent => ({
+            asset_id: assetId,
+            market: 'market1',
+            timestamp,
+            hash: 'h',
+            event_type: 'book',
+            bids,
+            asks,
+        });
+
+        beforeEach(() => {
+            bookCache.replaceBook(book('token-a', [{ price: '0.4', size: '10' }, { price: '0.45', size: '5' }], [{ price: '0.55', size: '10' }]));
+            bookCache.replaceBook(book(
+                'token-b',
+                [{ price: '0.44', size: '20' }, { price: '0.5', size: '3' }],
+                [{ price: '0.6', size: '7' }, { price: '0.54', size: '2' }],
+                '2',
+            ));
+        });
+
+        it('should merge the mirrored levels of the complementary token', () => {
+            expect(bookCache.marketBook('market1')).toEqual({
+                market: 'market1',
+                assetId: 'token-a',
+                complementAssetId: 'token-b',
+                timestamp: '2',
+                bids: [{ price: '0.4', size: '10' }, { price: '0.45', size: '5' }, { price: '0.46', size: '2' }],
+                asks: [{ price: '0.56', size: '20' }, { price: '0.55', size: '10' }, { price: '0.5', size: '3' }],
+                bestBid: { price: '0.46', size: '2' },
+                bestAsk: { price: '0.5', size: '3' },
+                midpoint: '0.48',
+                spread: '0.04',
+                tickSize: null,
+                stale: false,
+            });
+        });
+
+        it('should count the liquidity of exactly mirrored books once', () => {
+            bookCache.replaceBook(book('token-a', [{ price: '0.4', size: '100' }, { price: '0.38', size: '50' }], [{ price: '0.45', size: '30' }]));
+            bookCache.replaceBook(book('token-b', [{ price: '0.55', size: '30' }], [{ price: '0.6', size: '100' }, { price: '0.62', size: '50' }], '2'));
+
+            const merged = bookCache.marketBook('market1')!;
+
+            expect(merged.bids).toEqual([{ price: '0.38', size: '50' }, { price: '0.4', size: '100' }]);
+            expect(merged.asks).toEqual([{ price: '0.45', size: '30' }]);
+            expect(merged.bids).toEqual(bookCache.snapshot('token-a')!.bids);
+        });
+
+        it('should mirror the effective best prices of the other outcome', () => {
+            const complement = bookCache.marketBook('market1', 'token-b')!;
+
+            expect(complement.assetId).toBe('token-b');
+            expect(complement.bestBid).toEqual({ price: '0.5', size: '3' });
+            expect(complement.bestAsk).toEqual({ price: '0.54', size: '2' });
+            expect(complement.asks[0]).toEqual({ price: '0.6', size: '10' });
+            expect(complement.midpoint).toBe('0.52');
+            expect(bookCache.marketBook('market1', 'token-a', 'number')!.bestBid).toEqual({ price: 0.46, size: 2 });
+        });
+
+        it('should only merge the books of two cached tokens', () => {
+            expect(bookCache.marketBook('unknown')).toBeNull();
+            expect(bookCache.marketBook('market1', 'token-c')).toBeNull();
+
+            bookCache.markStale(['token-b']);
+            expect(bookCache.marketBook('market1')!.stale).toBe(true);
+
+            bookCache.clear('token-b');
+            expect(bookCache.marketBook('market1')).toBeNull();
+        });
+
+        it('should forget the last market price of a cleared book', () => {
+            bookCache.setMarketPrice('market1', '0.48');
+            expect(bookCache.marketPrice('market1')).toBe('0.48');
+
+            bookCache.clear('token-a');
+            expect(bookCache.marketPrice('market1')).toBeNull();
+        });
+    });
+
+    describe('tick size', () => {
+        const book = (tickSize?: string, bids: PriceLevel[] = [{ price: '0.011', size: '10' }]): BookEvent => ({
+            asset_id: ASSET_ID,
+            market: 'm',
+            timestamp: '0',
+            hash: 'h',
+            event_type: 'book',
+            bids,
+            asks: [{ price: '0.012', size: '10' }],
+            tick_size: tickSize,
+        });
+
+        const logger = () => {
+            const mock: any = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+            mock.child = () => mock;
+            return mock;
+        };
+
+        it('should seed the tick size from book events and keep it across snapshots without one', () => {
+            bookCache.replaceBook(book('0.001'));
+            expect(bookCache.getBookEntry(ASSET_ID)!.tickSize).toBe('0.001');
+
+            bookCache.replaceBook(book());
+            expect(bookCache.getBookEntry(ASSET_ID)!.tickSize).toBe('0.001');
+
+            bookCache.setTickSize(ASSET_ID, '0.01');
+            expect(bookCache.snapshot(ASSET_ID)!.tickSize).toBe('0.01');
+
+            bookCache.setTickSize('unknown', '0.01');
+            expect(bookCache.getBookEntry('unknown')).toBeNull();
+        });
+
+        it('should round midpoints and spreads to the tick size grid', () => {
+            bookCache.replaceBook(book());
+            expect(bookCache.currentMidpoint(ASSET_ID)).toBe('0.012');
+
+            bookCache.setTickSize(ASSET_ID, '0.001');
+            expect(bookCache.currentMidpoint(ASSET_ID)).toBe('0.0115');
+            expect(bookCache.midpoint(ASSET_ID)).toBe('0.0115');
+            expect(bookCache.currentSpread(ASSET_ID)).toBe('0.001');
+        });
+
+        it('should flag levels that are off the grid', () => {
+            const cacheLogger = logger();
+            const cache = new OrderBookCache(cacheLogger);
+            cache.replaceBook(book('0.001'));
+            expect(cache.offGridLevels(ASSET_ID)).toEqual([]);
+
+            cache.setTickSize(ASSET_ID, '0.01');
+            expect(cache.offGridLevels(ASSET_ID)).toEqual([{ price: '0.011', size: '10' }, { price: '0.012', size: '10' }]);
+            expect(cache.snapshot(ASSET_ID)!.offGridLevels).toHaveLength(2);
+            expect(cacheLogger.warn).toHaveBeenCalledWith(expect.objectContaining({
+                message: 'Book has levels off the tick size grid',
+                tick_size: '0.01',
+                prices: ['0.011', '0.012'],
+            }));
+        });
+
+        it('should warn about price changes off the grid', () => {
+            const cacheLogger = logger();
+            const cache = new OrderBookCache(cacheLogger);
+            cache.replaceBook(book('0.01', [{ price: '0.01', size: '10' }]));
+
+            cache.upsertPriceChange({
+                market: 'm',
+                timestamp: '1',
+                event_type: 'price_change',
+                price_changes: [{ asset_id: ASSET_ID, price: '0.005', side: Side.BUY, size: '10', hash: 'x', best_bid: '', best_ask: '' }],
+            });
+
+            expect(cacheLogger.warn).toHaveBeenCalledWith(expect.objectContaining({
+                message: 'Price change off the tick size grid',
+                price: '0.005',
+            }));
+            expect(cache.offGridLevels(ASSET_ID)).toContainEqual({ price: '0.005', size: '10' });
+        });
+
+        it('should report no off-grid levels while the tick size is unknown', () => {
+            bookCache.replaceBook(book());
+
+            expect(bookCache.offGridLevels(ASSET_ID)).toEqual([]);
+            expect(bookCache.offGridLevels('unknown')).toEqual([]);
+        });
+    });
+
+    describe('integrity', () => {
+        const priceChange = (item: Partial<PriceChangeEvent['price_changes'][number]>): PriceChangeEvent => ({
+            market: 'm',
+            timestamp: '1',
+            event_type: 'price_change',
+            price_changes: [{
+                asset_id: ASSET_ID,
+                price: '0.45',
+                side: Side.BUY,
+                size: '10',
+                hash: 'x',
+                best_bid: '0.45',
+                best_ask: '0.55',
+                ...item,
+            }],
+        });
+
+        const seed = (cache: OrderBookCache) => {
+            cache.replaceBook({
+                asset_id: ASSET_ID,
+                market: 'm',
+                timestamp: '0',
+                hash: 'h',
+                event_type: 'book',
+                bids: [{ price: '0.4', size: '10' }],
+                asks: [{ price: '0.55', size: '10' }],
+            });
+        };
+
+        beforeEach(() => {
+            seed(bookCache);
+        });
+
+        it('should accept changes that match the server best bid and ask', () => {
+            expect(bookCache.upsertPriceChange(priceChange({}))).toEqual([]);
+            expect(bookCache.upsertPriceChange(priceChange({ price: '0.5', best_bid: '0.50' }))).toEqual([]);
+        });
+
+        it('should report a diverged best bid or ask', () => {
+            const bidEvent = priceChange({ best_bid: '0.46' });
+            expect(bookCache.upsertPriceChange(bidEvent)).toEqual([{
+                assetId: ASSET_ID,
+                market: 'm',
+                field: 'best_bid',
+                expected: '0.46',
+                actual: '0.45',
+                triggeringEvent: bidEvent,
+            }]);
+
+            const askEvent = priceChange({ price: '0.3', best_bid: '0.45', best_ask: '0.54' });
+            expect(bookCache.upsertPriceChange(askEvent)).toMatchObject([{ field: 'best_ask', expected: '0.54', actual: '0.55' }]);
+        });
+
+        it('should report a book once per event', () => {
+            const event = priceChange({ best_bid: '0.46' });
+            event.price_changes.push({ ...event.price_changes[0], price: '0.44' });
+
+            expect(bookCache.upsertPriceChange(event)).toHaveLength(1);
+        });
+
+        it('should accept the price bound for an empty side', () => {
+            expect(bookCache.upsertPriceChange(priceChange({ price: '0.4', size: '0', best_bid: '0' }))).toEqual([]);
+            expect(bookCache.upsertPriceChange(priceChange({ price: '0.55', side: Side.SELL, size: '0', best_bid: '0', best_ask: '1' }))).toEqual([]);
+            expect(bookCache.upsertPriceChange(priceChange({ price: '0.3', size: '0', best_bid: '0.4', best_ask: '0' }))).toMatchObject([{ field: 'best_bid', actual: null }]);
+        });
+
+        it('should skip values that are not sent or when disabled', () => {
+            expect(bookCache.upsertPriceChange(priceChange({ best_bid: '', best_ask: '' }))).toEqual([]);
+
+            const unverified = new OrderBookCache(undefined, { verifyBestBidAsk: false });
+            seed(unverified);
+            expect(unverified.upsertPriceChange(priceChange({ best_bid: '0.9' }))).toEqual([]);
+        });
+
+        it('should check the hash of the book when a hash function is given', () => {
+            const bookHash = vi.fn().mockReturnValue('expected');
+            const hashed = new OrderBookCache(undefined, { bookHash });
+            seed(hashed);
+
+            expect(hashed.upsertPriceChange(priceChange({ hash: 'expected' }))).toEqual([]);
+            expect(bookHash).toHaveBeenCalledWith({
+                market: 'm',
+                asset_id: ASSET_ID,
+                timestamp: '1',
+                bids: [{ price: '0.4', size: '10' }, { price: '0.45', size: '10' }],
+                asks: [{ price: '0.55', size: '10' }],
+            });
+
+            expect(hashed.upsertPriceChange(priceChange({ hash: 'other' }))).toMatchObject([{ field: 'hash', expected: 'other', actual: 'expected' }]);
+        });
+
+        it('should not verify stale books until they are replaced', () => {
+            bookCache.markStale([ASSET_ID, 'unknown']);
+            expect(bookCache.getBookEntry(ASSET_ID)!.stale).toBe(true);
+            expect(bookCache.getBookEntry('unknown')).toBeNull();
+
+            expect(bookCache.upsertPriceChange(priceChange({ best_bid: '0.46' }))).toEqual([]);
+
+            seed(bookCache);
+            expect(bookCache.getBookEntry(ASSET_ID)!.stale).toBe(false);
+            expect(bookCache.upsertPriceChange(priceChange({ best_bid: '0.46' }))).toHaveLength(1);
+        });
+    });
+});
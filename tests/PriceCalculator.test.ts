@@ -0,0 +1,98 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from 'vitest';
+import { PolymarketPriceCalculator } from '../src/modules/PriceCalculator';
+import { PriceCalculatorInput } from '../src/types/PriceCalculator';
+import { LastTradePriceEvent, PriceChangeEvent, PriceLevel, Side } from '../src/types/PolymarketWebSocket';
+
+const priceChange: PriceChangeEvent = {
+    event_type: 'price_change',
+    market: 'market1',
+    timestamp: '1',
+    price_changes: [],
+};
+
+const trade = (price: string): LastTradePriceEvent => ({
+    event_type: 'last_trade_price',
+    asset_id: 'asset1',
+    market: 'market1',
+    fee_rate_bps: '0',
+    price,
+    side: Side.BUY,
+    size: '10',
+    timestamp: '2',
+});
+
+const input = (bid: PriceLevel | null, ask: PriceLevel | null, overrides: Partial<PriceCalculatorInput> = {}): PriceCalculatorInput => ({
+    assetId: 'asset1',
+    bids: bid ? [{ price: '0.01', size: '100' }, bid] : [],
+    asks: ask ? [{ price: '0.99', size: '100' }, ask] : [],
+    lastTradePrice: null,
+    tickSize: null,
+    triggeringEvent: priceChange,
+    ...overrides,
+});
+
+describe('PolymarketPriceCalculator', () => {
+    const calculator = new PolymarketPriceCalculator();
+
+    it('should derive the midpoint from price changes within a 10 cent spread', () => {
+        expect(calculator.price(input({ price: '0.45', size: '10' }, { price: '0.52', size: '10' }))).toBe('0.485');
+        expect(calculator.price(input({ price: '0.45', size: '10' }, { price: '0.55', size: '10' }))).toBe('0.5');
+        expect(calculator.price(input({ price: '0.4', size: '10' }, { price: '0.6', size: '10' }))).toBeNull();
+    });
+
+    it('should derive the last trade price from trades above a 10 cent spread', () => {
+        const wide = input({ price: '0.4', size: '10' }, { price: '0.6', size: '10' }, { triggeringEvent: trade('0.520') });
+        const tight = input({ price: '0.45', size: '10' }, { price: '0.5', size: '10' }, { triggeringEvent: trade('0.52') });
+
+        expect(calculator.price(wide)).toBe('0.52');
+        expect(calculator.price(tight)).toBeNull();
+    });
+
+    it('should derive nothing from a book with an empty or invalid side', () => {
+        expect(calculator.price(input(null, { price: '0.5', size: '10' }))).toBeNull();
+        expect(calculator.price(input({ price: '0.5', size: '10' }, null, { triggeringEvent: trade('0.5') }))).toBeNull();
+        expect(calculator.price(input({ price: '0.5', size: '10' }, { price: 'A', size: '10' }))).toBeNull();
+    });
+
+    it('should apply the spread threshold and precision options', () => {
+        const custom = new PolymarketPriceCalculator({ spreadThreshold: 0.25, precision: 2 });
+
+        expect(custom.price(input({ price: '0.4', size: '10' }, { price: '0.61', size: '10' }))).toBe('0.51');
+        expect(custom.price(input({ price: '0.3', size: '10' }, { price: '0.6', size: '10' }))).toBeNull();
+    });
+
+    it('should weight the microprice by the size on the opposite side', () => {
+        const micro = new PolymarketPriceCalculator({ fairValue: 'microprice' });
+
+        expect(micro.price(input({ price: '0.4', size: '30' }, { price: '0.5', size: '10' }))).toBe('0.475');
+    });
+
+    it('should use the last trade price as fair value', () => {
+        const lastTrade = new PolymarketPriceCalculator({ fairValue: 'last_trade' });
+        const bid = { price: '0.45', size: '10' };
+        const ask = { price: '0.5', size: '10' };
+
+        expect(lastTrade.price(input(bid, ask))).toBeNull();
+        expect(lastTrade.price(input(bid, ask, { lastTradePrice: '0.47' }))).toBe('0.47');
+    });
+
+    it('should keep the precision of midpoints on the tick size grid', () => {
+        const bid = { price: '0.011', size: '10' };
+        const ask = { price: '0.012', size: '10' };
+
+        expect(calculator.price(input(bid, ask))).toBe('0.012');
+        expect(calculator.price(input(bid, ask, { tickSize: '0.001' }))).toBe('0.0115');
+        expect(new PolymarketPriceCalculator({ precision: 3 }).price(input(bid, ask, { tickSize: '0.001' }))).toHaveLength(5);
+    });
+
+    it('should round to the tick size when it is known', () => {
+        const ticked = new PolymarketPriceCalculator({ roundToTickSize: true });
+        const bid = { price: '0.45', size: '10' };
+        const ask = { price: '0.52', size: '10' };
+
+        expect(ticked.price(input(bid, ask, { tickSize: '0.01' }))).toBe('0.49');
+        expect(ticked.price(input(bid, ask, { tickSize: '0.05' }))).toBe('0.5');
+        expect(ticked.price(input(bid, ask))).toBe('0.485');
+    });
+});
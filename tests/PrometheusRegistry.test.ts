@@ -0,0 +1,80 @@
+/// <reference types="vitest" />
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PrometheusRegistry } from '../src/modules/PrometheusRegistry';
+
+describe('PrometheusRegistry', () => {
+    let registry: PrometheusRegistry;
+
+    beforeEach(() => {
+        registry = new PrometheusRegistry();
+    });
+
+    it('should render nothing when no metric is registered', () => {
+        expect(registry.metrics()).toBe('');
+    });
+
+    it('should render counters per label set', () => {
+        const counter = registry.counter('test_total', 'A test counter', ['channel', 'code']);
+        counter.inc({ channel: 'market', code: 1000 });
+        counter.inc({ channel: 'market', code: 1000 }, 2);
+        counter.inc({ channel: 'user', code: 1006 });
+
+        expect(registry.metrics()).toBe([
+            '# HELP test_total A test counter',
+            '# TYPE test_total counter',
+            'test_total{channel="market",code="1000"} 3',
+            'test_total{channel="user",code="1006"} 1',
+            '',
+        ].join('\n'));
+    });
+
+    it('should render gauges with the last value set', () => {
+        const gauge = registry.gauge('test_size', 'A test gauge', ['channel']);
+        gauge.set({ channel: 'market' }, 5);
+        gauge.set({ channel: 'market' }, 2);
+
+        expect(registry.metrics()).toContain('# TYPE test_size gauge\ntest_size{channel="market"} 2\n');
+    });
+
+    it('should render histograms with cumulative buckets, sum and count', () => {
+        const histogram = registry.histogram('test_seconds', 'A test histogram', ['handler'], [1, 0.1]);
+        histogram.observe({ handler: 'onBook' }, 0.05);
+        histogram.observe({ handler: 'onBook' }, 0.5);
+        histogram.observe({ handler: 'onBook' }, 2);
+
+        expect(registry.metrics()).toBe([
+            '# HELP test_seconds A test histogram',
+            '# TYPE test_seconds histogram',
+            'test_seconds_bucket{handler="onBook",le="0.1"} 1',
+            'test_seconds_bucket{handler="onBook",le="1"} 2',
+            'test_seconds_bucket{handler="onBook",le="+Inf"} 3',
+            'test_seconds_sum{handler="onBook"} 2.55',
+            'test_seconds_count{handler="onBook"} 3',
+            '',
+        ].join('\n'));
+    });
+
+    it('should escape label values and help text', () => {
+        registry.counter('test_total', 'Line one\nback\\slash', ['reason']).inc({ reason: 'say "hi"\n' });
+
+        expect(registry.metrics()).toBe([
+            '# HELP test_total Line one\\nback\\\\slash',
+            '# TYPE test_total counter',
+            'test_total{reason="say \\"hi\\"\\n"} 1',
+            '',
+        ].join('\n'));
+    });
+
+    it('should return the registered metric when registering the same name again', () => {
+        registry.counter('test_total', 'A test counter', []).inc();
+        registry.counter('test_total', 'A test counter', []).inc();
+
+        expect(registry.metrics()).toContain('test_total 2');
+    });
+
+    it('should reject a name registered with another type', () => {
+        registry.counter('test_total', 'A test counter', []);
+
+        expect(() => registry.gauge('test_total', 'A test gauge', [])).toThrow('Metric test_total is already registered as a counter');
+    });
+});
@@ -0,0 +1,155 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ExponentialBackoffPolicy, ReconnectScheduler, markGroupOpened } from '../src/modules/ReconnectPolicy';
+import { ReconnectPolicy, ReconnectState } from '../src/types/WebSocketSubscriptions';
+
+describe('ExponentialBackoffPolicy', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should double the upper bound of the delay on each attempt up to the max', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        const policy = new ExponentialBackoffPolicy({ baseDelayMs: 1000, maxDelayMs: 5000 });
+
+        expect(policy.nextDelayMs(1)).toBe(999);
+        expect(policy.nextDelayMs(2)).toBe(1999);
+        expect(policy.nextDelayMs(3)).toBe(3999);
+        expect(policy.nextDelayMs(4)).toBe(4999);
+        expect(policy.nextDelayMs(50)).toBe(4999);
+    });
+
+    it('should pick the delay uniformly between zero and the upper bound', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const policy = new ExponentialBackoffPolicy();
+
+        expect(policy.nextDelayMs(10)).toBe(0);
+    });
+
+    it('should keep delays within bounds with the default options', () => {
+        const policy = new ExponentialBackoffPolicy();
+
+        for (let attempt = 1; attempt <= 100; attempt++) {
+            const delay = policy.nextDelayMs(attempt)!;
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThan(60000);
+        }
+    });
+
+    it('should give up after maxAttempts', () => {
+        const policy = new ExponentialBackoffPolicy({ maxAttempts: 3 });
+
+        expect(policy.nextDelayMs(3)).not.toBeNull();
+        expect(policy.nextDelayMs(4)).toBeNull();
+    });
+
+    it('should cool down after maxAttempts and start over when a cool-down is set', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        const policy = new ExponentialBackoffPolicy({ baseDelayMs: 1000, maxAttempts: 2, cooldownMs: 30000 });
+
+        expect(policy.nextDelayMs(1)).toBe(500);
+        expect(policy.nextDelayMs(2)).toBe(1000);
+        expect(policy.nextDelayMs(3)).toBe(30000);
+        expect(policy.nextDelayMs(4)).toBe(500);
+        expect(policy.nextDelayMs(5)).toBe(1000);
+        expect(policy.nextDelayMs(6)).toBe(30000);
+    });
+});
+
+describe('ReconnectScheduler', () => {
+    let policy: ReconnectPolicy;
+    let onScheduled: ReturnType<typeof vi.fn>;
+    let onGaveUp: ReturnType<typeof vi.fn>;
+    let onDue: ReturnType<typeof vi.fn>;
+    let scheduler: ReconnectScheduler;
+    let group: { groupId: string, reconnect?: ReconnectState };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        policy = { nextDelayMs: vi.fn().mockReturnValue(1000) };
+        onScheduled = vi.fn();
+        onGaveUp = vi.fn();
+        onDue = vi.fn();
+        scheduler = new ReconnectScheduler(policy, onScheduled, onGaveUp, onDue);
+        group = { groupId: 'group1' };
+    });
+
+    afterEach(() => {
+        scheduler.cancelAll();
+        vi.useRealTimers();
+    });
+
+    it('should schedule an attempt and report it due once the delay has passed', () => {
+        expect(scheduler.isDue(group)).toBe(false);
+        expect(onScheduled).toHaveBeenCalledWith('group1', 1, 1000);
+
+        vi.advanceTimersByTime(999);
+        expect(onDue).not.toHaveBeenCalled();
+        expect(scheduler.isDue(group)).toBe(false);
+
+        vi.advanceTimersByTime(1);
+        expect(onDue).toHaveBeenCalledWith('group1');
+        expect(scheduler.isDue(group)).toBe(true);
+    });
+
+    it('should be due immediately for a zero delay', () => {
+        vi.mocked(policy.nextDelayMs).mockReturnValue(0);
+
+        expect(scheduler.isDue(group)).toBe(true);
+        expect(onDue).not.toHaveBeenCalled();
+    });
+
+    it('should increase the attempt on each failed connection', () => {
+        scheduler.isDue(group);
+        vi.advanceTimersByTime(1000);
+        scheduler.isDue(group);
+
+        // The connection failed, the group is dead again
+        scheduler.isDue(group);
+
+        expect(policy.nextDelayMs).toHaveBeenLastCalledWith(2);
+        expect(onScheduled).toHaveBeenLastCalledWith('group1', 2, 1000);
+    });
+
+    it('should keep counting attempts when a connection drops quickly', () => {
+        group.reconnect = { attempts: 3, nextAttemptAt: null, openedAt: null };
+        markGroupOpened(group);
+        vi.advanceTimersByTime(1000);
+
+        scheduler.isDue(group);
+
+        expect(policy.nextDelayMs).toHaveBeenCalledWith(4);
+    });
+
+    it('should reset attempts once a connection has been stable', () => {
+        group.reconnect = { attempts: 3, nextAttemptAt: null, openedAt: null };
+        markGroupOpened(group);
+        vi.advanceTimersByTime(60000);
+
+        scheduler.isDue(group);
+
+        expect(policy.nextDelayMs).toHaveBeenCalledWith(1);
+    });
+
+    it('should give up when the policy returns null', () => {
+        group.reconnect = { attempts: 5, nextAttemptAt: null, openedAt: null };
+        vi.mocked(policy.nextDelayMs).mockReturnValue(null);
+
+        expect(scheduler.isDue(group)).toBe(false);
+        expect(onGaveUp).toHaveBeenCalledWith('group1', 5);
+
+        vi.advanceTimersByTime(3600000);
+        expect(scheduler.isDue(group)).toBe(false);
+        expect(onGaveUp).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still report a scheduled attempt due after the timers are cancelled', () => {
+        scheduler.isDue(group);
+        scheduler.cancelAll();
+
+        vi.advanceTimersByTime(1000);
+        expect(onDue).not.toHaveBeenCalled();
+        expect(scheduler.isDue(group)).toBe(true);
+    });
+});
@@ -0,0 +1,124 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSubscriptionMetrics, SubscriptionMetrics } from '../src/modules/SubscriptionMetrics';
+import { PrometheusRegistry } from '../src/modules/PrometheusRegistry';
+import { GroupSocket } from '../src/modules/GroupSocket';
+import { OrderBookCache } from '../src/modules/OrderBookCache';
+import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import Bottleneck from 'bottleneck';
+import WebSocket from 'ws';
+
+// Mock WebSocket
+vi.mock('ws');
+const MockedWebSocket = vi.mocked(WebSocket);
+
+describe('SubscriptionMetrics', () => {
+    let registry: PrometheusRegistry;
+    let metrics: SubscriptionMetrics;
+
+    beforeEach(() => {
+        registry = new PrometheusRegistry();
+        metrics = new SubscriptionMetrics(registry, 'market');
+    });
+
+    it('should label every metric with the channel', () => {
+        metrics.connectionOpened();
+        metrics.connectionClosed(1006);
+        metrics.eventReceived('book');
+        metrics.eventReceived(undefined);
+
+        const text = registry.metrics();
+        expect(text).toContain('polymarket_ws_connections_opened_total{channel="market"} 1');
+        expect(text).toContain('polymarket_ws_connections_closed_total{channel="market",code="1006"} 1');
+        expect(text).toContain('polymarket_ws_events_received_total{channel="market",event_type="book"} 1');
+        expect(text).toContain('polymarket_ws_events_received_total{channel="market",event_type="unknown"} 1');
+    });
+
+    it('should share a registry between managers', () => {
+        const userMetrics = new SubscriptionMetrics(registry, 'user');
+        metrics.messageReceived();
+        userMetrics.messageReceived();
+
+        const text = registry.metrics();
+        expect(text).toContain('polymarket_ws_messages_received_total{channel="market"} 1');
+        expect(text).toContain('polymarket_ws_messages_received_total{channel="user"} 1');
+    });
+
+    it('should publish the total book cache size of the managers sharing a registry', () => {
+        const otherMetrics = new SubscriptionMetrics(registry, 'market');
+
+        metrics.setBookCacheSize(3);
+        otherMetrics.setBookCacheSize(2);
+        expect(registry.metrics()).toContain('polymarket_ws_book_cache_size{channel="market"} 5');
+
+        metrics.setBookCacheSize(1);
+        otherMetrics.setBookCacheSize(0);
+        expect(registry.metrics()).toContain('polymarket_ws_book_cache_size{channel="market"} 1');
+    });
+
+    it('should record handler latency and rethrow handler errors', async () => {
+        const error = new Error('handler failed');
+        const handlers = metrics.instrumentHandlers({
+            onBook: vi.fn().mockResolvedValue(undefined),
+            onPriceChange: vi.fn().mockRejectedValue(error),
+        });
+
+        await handlers.onBook!();
+        await expect(handlers.onPriceChange!()).rejects.toBe(error);
+
+        const text = registry.metrics();
+        expect(text).toContain('polymarket_ws_handler_duration_seconds_count{channel="market",handler="onBook"} 1');
+        expect(text).toContain('polymarket_ws_handler_duration_seconds_count{channel="market",handler="onPriceChange"} 1');
+        expect(text).toContain('polymarket_ws_handler_errors_total{channel="market",handler="onPriceChange"} 1');
+        expect(text).not.toContain('polymarket_ws_handler_errors_total{channel="market",handler="onBook"}');
+    });
+
+    it('should only be created when enabled', () => {
+        const custom = new PrometheusRegistry();
+
+        expect(createSubscriptionMetrics(undefined, 'market')).toBeUndefined();
+        expect(createSubscriptionMetrics(false, 'market')).toBeUndefined();
+        expect(createSubscriptionMetrics(true, 'market')?.registry).toBeInstanceOf(PrometheusRegistry);
+        expect(createSubscriptionMetrics(custom, 'market')?.registry).toBe(custom);
+    });
+
+    it('should count messages, events and parse failures of a socket', async () => {
+        const mockWS: any = {
+            on: vi.fn(),
+            removeAllListeners: vi.fn(),
+            send: vi.fn(),
+            readyState: (WebSocket as any).OPEN ?? 1
+        };
+        MockedWebSocket.mockReturnValue(mockWS);
+        const getHandler = (event: string) => mockWS.on.mock.calls.filter((call: [string, any]) => call[0] === event).pop()?.[1];
+
+        const group: WebSocketGroup = {
+            groupId: 'group1',
+            assetIds: new Set(['asset1']),
+            wsClient: null,
+            status: WebSocketStatus.PENDING
+        };
+        const limiter = { schedule: vi.fn().mockImplementation(async (opts, fn) => fn()) } as unknown as Bottleneck;
+        const socket = new GroupSocket(group, limiter, new OrderBookCache(), { onError: vi.fn() }, true, { metrics });
+
+        await socket.connect();
+        await getHandler('message')(Buffer.from(JSON.stringify([{
+            event_type: 'book',
+            asset_id: 'asset1',
+            market: 'market1',
+            timestamp: '1',
+            hash: 'hash',
+            bids: [{ price: '0.4', size: '10' }],
+            asks: [{ price: '0.6', size: '10' }],
+        }])));
+        await getHandler('message')(Buffer.from('not json'));
+        await getHandler('close')(1006, Buffer.from(''));
+
+        const text = registry.metrics();
+        expect(text).toContain('polymarket_ws_messages_received_total{channel="market"} 2');
+        expect(text).toContain('polymarket_ws_events_received_total{channel="market",event_type="book"} 1');
+        expect(text).toContain('polymarket_ws_parse_failures_total{channel="market"} 1');
+        expect(text).toContain('polymarket_ws_book_cache_size{channel="market"} 1');
+        expect(text).toContain('polymarket_ws_connections_closed_total{channel="market",code="1006"} 1');
+    });
+});
@@ -174,6 +174,60 @@ describe('UserGroupRegistry', () => {
         });
     });
 
+    describe('getGroupStatuses', () => {
+        it('should describe market and subscribe-to-all groups', async () => {
+            await registry.addMarkets(['market1', 'market2'], 100, mockAuth);
+            await registry.addMarkets([], 100, mockAuth);
+
+            const statuses = registry.getGroupStatuses();
+
+            expect(statuses).toHaveLength(2);
+            expect(statuses).toEqual(expect.arrayContaining([
+                expect.objectContaining({ status: WebSocketStatus.PENDING, marketCount: 2, subscribeToAll: false, connectedSince: null }),
+                expect.objectContaining({ status: WebSocketStatus.PENDING, marketCount: 0, subscribeToAll: true, reconnectAttempts: 0 }),
+            ]));
+        });
+    });
+
+    describe('failed groups', () => {
+        const failGroup = async (groupId: string) => {
+            await registry.mutate(groups => {
+                const group = groups.find(g => g.groupId === groupId);
+                if (group) group.status = WebSocketStatus.FAILED;
+            });
+        };
+
+        it('should not reconnect failed groups', async () => {
+            const groupIds = await registry.addMarkets(['market1'], 100, mockAuth);
+            await failGroup(groupIds[0]);
+
+            const reconnectIds = await registry.getGroupsToReconnectAndCleanup();
+            expect(reconnectIds).toEqual([]);
+        });
+
+        it('should retry failed groups with the new credentials', async () => {
+            const groupIds = await registry.addMarkets(['market1'], 100, mockAuth);
+            await failGroup(groupIds[0]);
+
+            const newAuth = { apiKey: 'new-key', secret: 'new-secret', passphrase: 'new-pass' };
+            const groupIdsToConnect = await registry.updateAuth(newAuth);
+
+            expect(groupIdsToConnect).toEqual(groupIds);
+            const group = registry.findGroupById(groupIds[0]);
+            expect(group?.status).toBe(WebSocketStatus.PENDING);
+            expect(group?.auth).toEqual(newAuth);
+        });
+
+        it('should retry a failed group once its markets change', async () => {
+            const groupIds = await registry.addMarkets(['market1', 'market2'], 100, mockAuth);
+            await failGroup(groupIds[0]);
+
+            await registry.removeMarkets(['market1']);
+
+            expect(registry.findGroupById(groupIds[0])?.status).toBe(WebSocketStatus.PENDING);
+        });
+    });
+
     describe('concurrent access', () => {
         it('should handle concurrent mutations safely', async () => {
             const promises = [
@@ -207,4 +261,21 @@ describe('UserGroupRegistry', () => {
             });
         });
     });
-});
\ No newline at end of file
+
+    describe('instance isolation', () => {
+        it('should keep groups separate between registry instances', async () => {
+            const other = new UserGroupRegistry();
+
+            await registry.addMarkets(['market1'], 100, mockAuth);
+            await other.addMarkets([], 100, mockAuth);
+
+            expect(registry.hasMarket('market1')).toBe(true);
+            expect(registry.hasSubscribeToAll()).toBe(false);
+            expect(other.hasSubscribeToAll()).toBe(true);
+
+            await other.clearAllGroups();
+            expect(other.snapshot()).toHaveLength(0);
+            expect(registry.snapshot()).toHaveLength(1);
+        });
+    });
+});
@@ -9,7 +9,7 @@ import {
     OrderType, 
     TradeStatus 
 } from '../src/types/PolymarketWebSocket';
-import { UserSubscriptionManagerOptions } from '../src/types/WebSocketSubscriptions';
+import { UserSubscriptionManagerOptions, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
 import Bottleneck from 'bottleneck';
 
 // Mock dependencies
@@ -18,10 +18,13 @@ vi.mock('../src/modules/UserGroupRegistry', () => ({
         addMarkets: vi.fn().mockResolvedValue([]),
         removeMarkets: vi.fn().mockResolvedValue([]),
         clearAllGroups: vi.fn().mockResolvedValue([]),
+        closeAllGroups: vi.fn().mockResolvedValue(undefined),
         getGroupsToReconnectAndCleanup: vi.fn().mockResolvedValue([]),
         findGroupById: vi.fn().mockReturnValue(undefined),
         hasMarket: vi.fn().mockReturnValue(false),
-        hasSubscribeToAll: vi.fn().mockReturnValue(false)
+        hasSubscribeToAll: vi.fn().mockReturnValue(false),
+        updateAuth: vi.fn().mockResolvedValue([]),
+        getGroupStatuses: vi.fn().mockReturnValue([])
     }))
 }));
 
@@ -34,7 +37,8 @@ vi.mock('../src/modules/UserGroupSocket', () => ({
 vi.mock('bottleneck', () => ({
     default: vi.fn().mockImplementation(() => ({
         schedule: vi.fn().mockResolvedValue(undefined),
-        on: vi.fn()
+        on: vi.fn(),
+        stop: vi.fn().mockResolvedValue(undefined)
     }))
 }));
 
@@ -259,4 +263,87 @@ describe('UserWSSubscriptionManager', () => {
             expect(bottleneckInstance.on).toHaveBeenCalledWith('error', expect.any(Function));
         });
     });
+
+    describe('status', () => {
+        it('should report a failed group as unhealthy', async () => {
+            const registry = (manager as any).groupRegistry;
+            expect(manager.getStatus()).toEqual({ running: true, groups: [] });
+            expect(manager.isHealthy()).toBe(true);
+
+            registry.getGroupStatuses.mockReturnValue([{
+                groupId: 'group1',
+                status: WebSocketStatus.FAILED,
+                marketCount: 1,
+                subscribeToAll: false,
+                connectedSince: null,
+                lastMessageAt: null,
+                reconnectAttempts: 0,
+                pingRttMs: null,
+                messagesPerSecond: 0,
+            }]);
+            expect(manager.isHealthy()).toBe(false);
+        });
+    });
+
+    describe('updateAuth', () => {
+        it('should pass the new credentials to the registry and keep the caller options untouched', async () => {
+            const options: UserSubscriptionManagerOptions = { auth: mockAuth };
+            const testManager = new UserWSSubscriptionManager(mockHandlers, options);
+            const newAuth = { apiKey: 'new-key', secret: 'new-secret', passphrase: 'new-pass' };
+
+            await testManager.updateAuth(newAuth);
+
+            expect((testManager as any).groupRegistry.updateAuth).toHaveBeenCalledWith(newAuth);
+            expect((testManager as any).options.auth).toEqual(newAuth);
+            expect(options.auth).toBe(mockAuth);
+        });
+
+        it('should report registry errors', async () => {
+            (manager as any).groupRegistry.updateAuth.mockRejectedValue(new Error('Update failed'));
+
+            await manager.updateAuth(mockAuth);
+
+            expect(mockHandlers.onError).toHaveBeenCalledWith(new Error('Error updating user credentials: Update failed'));
+        });
+    });
+
+    describe('lifecycle', () => {
+        it('should not start the reconnect loop when autoStart is false', () => {
+            vi.clearAllTimers();
+            new UserWSSubscriptionManager(mockHandlers, { auth: mockAuth, autoStart: false });
+
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('should cancel the reconnect loop and close groups on stop', async () => {
+            await manager.stop();
+
+            expect(vi.getTimerCount()).toBe(0);
+            expect((manager as any).groupRegistry.closeAllGroups).toHaveBeenCalledTimes(1);
+
+            manager.start();
+            expect(vi.getTimerCount()).toBe(1);
+        });
+
+        it('should not wait for the handler call it is stopped from', async () => {
+            mockHandlers.onWSOpen = vi.fn().mockImplementation(() => testManager.stop());
+            const testManager = new UserWSSubscriptionManager(mockHandlers, { auth: mockAuth });
+
+            await (testManager as any).handlers.onWSOpen('group1', ['market1']);
+
+            expect((testManager as any).groupRegistry.closeAllGroups).toHaveBeenCalledTimes(1);
+        });
+
+        it('should clear state and stop the internal limiter on dispose', async () => {
+            const registry = (manager as any).groupRegistry;
+            const limiter = (manager as any).burstLimiter;
+
+            await manager[Symbol.asyncDispose]();
+
+            expect(vi.getTimerCount()).toBe(0);
+            expect(registry.clearAllGroups).toHaveBeenCalled();
+            expect(limiter.stop).toHaveBeenCalledWith({ dropWaitingJobs: true });
+            expect(() => manager.start()).toThrow('UserWSSubscriptionManager has been disposed');
+        });
+    });
 });
\ No newline at end of file
@@ -6,7 +6,10 @@ import { OrderBookCache } from '../src/modules/OrderBookCache';
 import { GroupSocket } from '../src/modules/GroupSocket';
 import Bottleneck from 'bottleneck';
 import {
+    BestBidAskEvent,
+    BookDeltaEvent,
     BookEvent,
+    BookMetricsEvent,
     LastTradePriceEvent,
     PriceChangeEvent,
     TickSizeChangeEvent,
@@ -14,6 +17,7 @@ import {
     Side
 } from '../src/types/PolymarketWebSocket';
 import { WebSocketGroup, WebSocketStatus } from '../src/types/WebSocketSubscriptions';
+import { ConnectionError } from '../src/errors';
 
 // Mock all dependencies
 vi.mock('../src/modules/GroupRegistry');
@@ -85,12 +89,16 @@ describe('WSSubscriptionManager', () => {
         // Setup GroupRegistry mock
         mockGroupRegistry = {
             addAssets: vi.fn().mockResolvedValue([]),
+            addAssetsToLiveGroup: vi.fn().mockResolvedValue(null),
             removeAssets: vi.fn().mockResolvedValue(undefined),
+            getAssetIdsByGroup: vi.fn().mockReturnValue(new Map()),
             getGroupsToReconnectAndCleanup: vi.fn().mockResolvedValue([]),
             findGroupById: vi.fn().mockReturnValue(undefined),
             getGroupIndicesForAsset: vi.fn().mockReturnValue([]),
             clearAllGroups: vi.fn().mockResolvedValue([]),
-            disconnectGroup: vi.fn()
+            closeAllGroups: vi.fn().mockResolvedValue(undefined),
+            disconnectGroup: vi.fn(),
+            getGroupStatuses: vi.fn().mockReturnValue([])
         } as any;
 
         MockedGroupRegistry.mockImplementation(() => mockGroupRegistry);
@@ -105,7 +113,8 @@ describe('WSSubscriptionManager', () => {
         // Setup Bottleneck mock
         mockBottleneck = {
             schedule: vi.fn().mockResolvedValue(undefined),
-            on: vi.fn()
+            on: vi.fn(),
+            stop: vi.fn().mockResolvedValue(undefined)
         } as any;
 
         MockedBottleneck.mockImplementation(() => mockBottleneck);
@@ -113,6 +122,8 @@ describe('WSSubscriptionManager', () => {
         // Setup GroupSocket mock
         mockGroupSocket = {
             connect: vi.fn().mockResolvedValue(undefined),
+            subscribe: vi.fn().mockResolvedValue(true),
+            unsubscribe: vi.fn().mockResolvedValue(true),
         } as any;
 
         MockedGroupSocket.mockImplementation(() => mockGroupSocket);
@@ -166,7 +177,8 @@ describe('WSSubscriptionManager', () => {
                 mockBottleneck,
                 mockBookCache,
                 expect.any(Object),
-                true
+                true,
+                expect.any(Object)
             );
             expect(mockGroupSocket.connect).toHaveBeenCalledTimes(1);
         });
@@ -230,6 +242,56 @@ describe('WSSubscriptionManager', () => {
         });
     });
 
+    describe('addMarketSubscriptions', () => {
+        const market = {
+            conditionId: '0x1',
+            question: 'Will it happen?',
+            slug: 'will-it-happen',
+            eventSlug: 'event1',
+            outcomes: [{ assetId: 'asset1', name: 'Yes' }, { assetId: 'asset2', name: 'No' }],
+            tickSize: '0.01',
+            endDate: null,
+            negRisk: false,
+        };
+
+        it('should subscribe to the tokens of resolved markets and cache them', async () => {
+            const marketMetadata = { getMarkets: vi.fn().mockResolvedValue([market]) };
+            const testManager = new WSSubscriptionManager(mockHandlers, { marketMetadata });
+
+            await expect(testManager.addMarketSubscriptions({ marketSlugs: ['will-it-happen'] })).resolves.toEqual([market]);
+            await expect(testManager.addMarketSubscriptions({ conditionIds: ['0x1'] })).resolves.toEqual([market]);
+
+            expect(marketMetadata.getMarkets).toHaveBeenCalledTimes(1);
+            expect(marketMetadata.getMarkets).toHaveBeenCalledWith({ conditionIds: [], marketSlugs: ['will-it-happen'], eventSlugs: [] });
+            expect(mockGroupRegistry.addAssets).toHaveBeenCalledWith(['asset1', 'asset2'], Number.MAX_SAFE_INTEGER);
+            expect(testManager.getMarketMetadata('0x1')).toBe(market);
+            expect(testManager.getAssetMetadata('asset2')).toEqual({ market, outcome: { assetId: 'asset2', name: 'No' } });
+        });
+
+        it('should report identifiers that are not found', async () => {
+            const marketMetadata = { getMarkets: vi.fn().mockResolvedValue([market]) };
+            const testManager = new WSSubscriptionManager(mockHandlers, { marketMetadata });
+
+            const markets = await testManager.addMarketSubscriptions({ conditionIds: ['0x1', '0x2'], eventSlugs: ['event2'] });
+
+            expect(markets).toEqual([market]);
+            expect(mockHandlers.onError).toHaveBeenCalledWith(new Error('Markets not found: 0x2, event2'));
+            expect(mockGroupRegistry.addAssets).toHaveBeenCalledWith(['asset1', 'asset2'], Number.MAX_SAFE_INTEGER);
+        });
+
+        it('should handle provider errors', async () => {
+            const marketMetadata = { getMarkets: vi.fn().mockRejectedValue(new Error('Gamma /markets responded with status 500')) };
+            const testManager = new WSSubscriptionManager(mockHandlers, { marketMetadata });
+
+            await expect(testManager.addMarketSubscriptions({ conditionIds: ['0x1'] })).resolves.toEqual([]);
+
+            expect(mockHandlers.onError).toHaveBeenCalledWith(
+                new Error('Error adding market subscriptions: Gamma /markets responded with status 500')
+            );
+            expect(mockGroupRegistry.addAssets).not.toHaveBeenCalled();
+        });
+    });
+
     describe('removeSubscriptions', () => {
         it('should remove assets and clear cache', async () => {
             const assetIds = ['asset1', 'asset2'];
@@ -319,6 +381,95 @@ describe('WSSubscriptionManager', () => {
 
                 expect(mockHandlers.onBook).toHaveBeenCalledWith([]);
             });
+
+            it('should filter derived top of book events', async () => {
+                const event = (assetId: string): BestBidAskEvent => ({
+                    event_type: 'best_bid_ask',
+                    asset_id: assetId,
+                    market: 'test-market',
+                    timestamp: '1234567890',
+                    triggeringEvent: createMockBookEvent(assetId),
+                    best_bid: '0.45',
+                    best_bid_size: '100',
+                    best_ask: '0.55',
+                    best_ask_size: '50',
+                    spread: '0.1',
+                });
+                const onBestBidAsk = vi.fn();
+                mockGroupRegistry.getGroupIndicesForAsset.mockImplementation((assetId) => assetId === 'asset1' ? [0] : []);
+
+                const testManager = new WSSubscriptionManager({ ...mockHandlers, onBestBidAsk });
+                await (testManager as any).handlers.onBestBidAsk([event('asset1'), event('asset2')]);
+
+                expect(onBestBidAsk).toHaveBeenCalledWith([event('asset1')]);
+            });
+
+            it('should filter book deltas and only request them with a handler', async () => {
+                const event = (assetId: string): BookDeltaEvent => ({
+                    event_type: 'book_delta',
+                    asset_id: assetId,
+                    market: 'test-market',
+                    timestamp: '1234567890',
+                    triggeringEvent: createMockBookEvent(assetId),
+                    deltas: [{ side: Side.BUY, price: '0.45', action: 'add', old_size: null, new_size: '100' }],
+                });
+                const onBookDelta = vi.fn();
+                mockGroupRegistry.getGroupIndicesForAsset.mockImplementation((assetId) => assetId === 'asset1' ? [0] : []);
+
+                const testManager = new WSSubscriptionManager({ ...mockHandlers, onBookDelta });
+                await (testManager as any).handlers.onBookDelta([event('asset1'), event('asset2')]);
+
+                expect(onBookDelta).toHaveBeenCalledWith([event('asset1')]);
+                expect((new WSSubscriptionManager(mockHandlers) as any).handlers.onBookDelta).toBeUndefined();
+            });
+
+            it('should filter book metrics and only compute them with a handler', async () => {
+                const event = (assetId: string) => ({
+                    event_type: 'book_metrics',
+                    asset_id: assetId,
+                    market: 'test-market',
+                    timestamp: '1234567890',
+                    metrics: {},
+                } as BookMetricsEvent);
+                const onBookMetrics = vi.fn();
+                mockGroupRegistry.getGroupIndicesForAsset.mockImplementation((assetId) => assetId === 'asset1' ? [0] : []);
+
+                const testManager = new WSSubscriptionManager({ ...mockHandlers, onBookMetrics });
+                await (testManager as any).handlers.onBookMetrics([event('asset1'), event('asset2')]);
+
+                expect(onBookMetrics).toHaveBeenCalledWith([event('asset1')]);
+                expect((testManager as any).bookMetricsStream).toBeDefined();
+                expect((new WSSubscriptionManager(mockHandlers) as any).bookMetricsStream).toBeUndefined();
+            });
+
+            it('should annotate events with market metadata when enabled', async () => {
+                const market = {
+                    conditionId: 'test-market',
+                    question: 'Will it happen?',
+                    slug: 'will-it-happen',
+                    eventSlug: null,
+                    outcomes: [{ assetId: 'asset1', name: 'Yes' }],
+                    tickSize: '0.01',
+                    endDate: null,
+                    negRisk: false,
+                };
+                const marketMetadata = { getMarkets: vi.fn().mockResolvedValue([market]) };
+                mockBookCache.getBookEntry = vi.fn(() => null);
+                mockGroupRegistry.getGroupIndicesForAsset.mockReturnValue([0]);
+
+                const testManager = new WSSubscriptionManager(mockHandlers, { marketMetadata, metadataEnrichment: true });
+                await testManager.addMarketSubscriptions({ conditionIds: ['test-market'] });
+                await (testManager as any).handlers.onBook([createMockBookEvent('asset1')]);
+
+                expect(mockHandlers.onBook).toHaveBeenCalledWith([{
+                    ...createMockBookEvent('asset1'),
+                    metadata: { question: 'Will it happen?', outcome: 'Yes', slug: 'will-it-happen', endDate: null, negRisk: false, tickSize: '0.01' },
+                }]);
+
+                await manager.addMarketSubscriptions({ conditionIds: ['test-market'] });
+                await (manager as any).handlers.onBook([createMockBookEvent('asset1')]);
+                expect(mockHandlers.onBook).toHaveBeenLastCalledWith([createMockBookEvent('asset1')]);
+            });
         });
 
         it('should handle all event types correctly', async () => {
@@ -430,6 +581,98 @@ describe('WSSubscriptionManager', () => {
         });
     });
 
+    describe('reconnect policy', () => {
+        let reconnectPolicy: { nextDelayMs: ReturnType<typeof vi.fn> };
+        let testManager: WSSubscriptionManager;
+        let deadGroup: WebSocketGroup;
+
+        beforeEach(async () => {
+            // Only the manager under test should act on the dead group
+            await manager.stop();
+
+            reconnectPolicy = { nextDelayMs: vi.fn().mockReturnValue(5000) };
+            testManager = new WSSubscriptionManager(mockHandlers, { reconnectPolicy });
+
+            deadGroup = createMockGroup('group1', ['asset1']);
+            deadGroup.status = WebSocketStatus.DEAD;
+            mockGroupRegistry.getGroupsToReconnectAndCleanup.mockResolvedValue(['group1']);
+            mockGroupRegistry.findGroupById.mockReturnValue(deadGroup);
+        });
+
+        afterEach(async () => {
+            await testManager.dispose();
+        });
+
+        it('should reconnect a dead group only once the backoff delay has passed', async () => {
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(MockedGroupSocket).not.toHaveBeenCalled();
+            expect(reconnectPolicy.nextDelayMs).toHaveBeenCalledWith(1);
+
+            await vi.advanceTimersByTimeAsync(5000);
+
+            expect(MockedGroupSocket).toHaveBeenCalledTimes(1);
+            expect(mockGroupSocket.connect).toHaveBeenCalledTimes(1);
+        });
+
+        it('should schedule the reconnect when the socket closes, not on the next loop tick', async () => {
+            mockGroupRegistry.getGroupsToReconnectAndCleanup.mockResolvedValue([]);
+            reconnectPolicy.nextDelayMs.mockReturnValue(1000);
+
+            await (testManager as any).handlers.onWSClose('group1', 1006, '');
+            expect(mockHandlers.onWSClose).toHaveBeenCalledWith('group1', 1006, '');
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(MockedGroupSocket).toHaveBeenCalledTimes(1);
+        });
+
+        it('should notify the handler when a reconnect is scheduled', async () => {
+            const onReconnectScheduled = vi.fn();
+            await testManager.dispose();
+            testManager = new WSSubscriptionManager({ onReconnectScheduled }, { reconnectPolicy });
+
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(onReconnectScheduled).toHaveBeenCalledWith('group1', 1, 5000);
+        });
+
+        it.each([
+            ['onReconnectScheduled', 5000],
+            ['onError', null],
+        ])('should log a failing %s handler of the reconnect scheduler', async (handler, delayMs) => {
+            const cause = new Error('handler boom');
+            const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger };
+            await testManager.dispose();
+            testManager = new WSSubscriptionManager({ [handler]: vi.fn().mockRejectedValue(cause) }, { reconnectPolicy, logger });
+            reconnectPolicy.nextDelayMs.mockReturnValue(delayMs);
+
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(logger.error).toHaveBeenCalledWith({ message: `${handler} handler failed`, error: cause });
+        });
+
+        it('should connect pending groups without waiting', async () => {
+            deadGroup.status = WebSocketStatus.PENDING;
+
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(reconnectPolicy.nextDelayMs).not.toHaveBeenCalled();
+            expect(mockGroupSocket.connect).toHaveBeenCalled();
+        });
+
+        it('should report an error when the policy gives up', async () => {
+            reconnectPolicy.nextDelayMs.mockReturnValue(null);
+
+            await vi.advanceTimersByTimeAsync(10000);
+
+            expect(mockHandlers.onError).toHaveBeenCalledWith(
+                new ConnectionError('Gave up reconnecting group group1 after 0 attempt(s)', { groupId: 'group1', retryable: false })
+            );
+            expect(MockedGroupSocket).not.toHaveBeenCalled();
+            expect(mockGroupRegistry.findGroupById('group1').status).toBe(WebSocketStatus.FAILED);
+        });
+    });
+
     describe('handler delegation', () => {
         it('should delegate onWSClose to user handlers', async () => {
             const testManager = new WSSubscriptionManager(mockHandlers);
@@ -524,7 +767,8 @@ describe('WSSubscriptionManager', () => {
                 expect.any(Object),
                 expect.any(Object),
                 expect.any(Object),
-                true
+                true,
+                expect.any(Object)
             );
         });
 
@@ -543,7 +787,8 @@ describe('WSSubscriptionManager', () => {
                 expect.any(Object),
                 expect.any(Object),
                 expect.any(Object),
-                true
+                true,
+                expect.any(Object)
             );
         });
 
@@ -562,7 +807,8 @@ describe('WSSubscriptionManager', () => {
                 expect.any(Object),
                 expect.any(Object),
                 expect.any(Object),
-                false
+                false,
+                expect.any(Object)
             );
         });
 
@@ -581,8 +827,351 @@ describe('WSSubscriptionManager', () => {
                 expect.any(Object),
                 expect.any(Object),
                 expect.any(Object),
-                true
+                true,
+                expect.any(Object)
+            );
+        });
+    });
+
+    describe('lifecycle', () => {
+        it('should not start the reconnect loop when autoStart is false', () => {
+            vi.clearAllTimers();
+            new WSSubscriptionManager(mockHandlers, { autoStart: false });
+
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('should not start a second reconnect loop when already started', () => {
+            manager.start();
+
+            expect(vi.getTimerCount()).toBe(1);
+        });
+
+        it('should cancel the reconnect loop and close groups on stop', async () => {
+            await manager.stop();
+
+            expect(vi.getTimerCount()).toBe(0);
+            expect(mockGroupRegistry.closeAllGroups).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(30000);
+            expect(mockGroupRegistry.getGroupsToReconnectAndCleanup).not.toHaveBeenCalled();
+        });
+
+        it('should resume the reconnect loop on start after stop', async () => {
+            await manager.stop();
+            manager.start();
+
+            expect(vi.getTimerCount()).toBe(1);
+        });
+
+        it('should wait for in-flight handler calls on stop', async () => {
+            let resolveHandler!: () => void;
+            mockHandlers.onBook = vi.fn().mockImplementation(() => new Promise<void>(resolve => { resolveHandler = resolve; }));
+            mockGroupRegistry.getGroupIndicesForAsset.mockReturnValue([0]);
+
+            const testManager = new WSSubscriptionManager(mockHandlers);
+            const handlerCall = (testManager as any).handlers.onBook([createMockBookEvent('asset1')]);
+
+            let stopped = false;
+            const stopCall = testManager.stop().then(() => { stopped = true; });
+
+            await Promise.resolve();
+            expect(stopped).toBe(false);
+
+            resolveHandler();
+            await handlerCall;
+            await stopCall;
+            expect(stopped).toBe(true);
+        });
+
+        it('should not wait for the handler call it is disposed from', async () => {
+            let resolveHandler!: () => void;
+            mockHandlers.onBook = vi.fn().mockImplementation((events: BookEvent[]) => events[0].asset_id === 'asset1'
+                ? new Promise<void>(resolve => { resolveHandler = resolve; })
+                : testManager.dispose());
+            mockGroupRegistry.getGroupIndicesForAsset.mockReturnValue([0]);
+
+            const testManager = new WSSubscriptionManager(mockHandlers);
+            const otherCall = (testManager as any).handlers.onBook([createMockBookEvent('asset1')]);
+
+            let disposed = false;
+            const disposingCall = (testManager as any).handlers.onBook([createMockBookEvent('asset2')]).then(() => { disposed = true; });
+
+            // Other handler calls are still waited for
+            await vi.advanceTimersByTimeAsync(0);
+            expect(disposed).toBe(false);
+
+            resolveHandler();
+            await otherCall;
+            await disposingCall;
+            expect(disposed).toBe(true);
+            expect(mockBottleneck.stop).toHaveBeenCalledTimes(1);
+        });
+
+        it('should cancel the book metrics scheduled by handlers that settle during stop', async () => {
+            let resolveHandler!: () => void;
+            mockHandlers.onBook = vi.fn().mockImplementation(() => new Promise<void>(resolve => { resolveHandler = resolve; }));
+            mockHandlers.onBookMetrics = vi.fn();
+            mockBookCache.bookMetrics = vi.fn().mockReturnValue({ market: 'test-market', timestamp: '1', stale: false });
+            mockGroupRegistry.getGroupIndicesForAsset.mockReturnValue([0]);
+
+            const testManager = new WSSubscriptionManager(mockHandlers);
+            const stream = (testManager as any).bookMetricsStream;
+            const handlerCall = (testManager as any).handlers.onBook([createMockBookEvent('asset1')]);
+            const stopCall = testManager.stop();
+            await vi.advanceTimersByTimeAsync(0);
+
+            // The socket still handles the books of the events in flight
+            await stream.bookChanged('asset1');
+            await stream.bookChanged('asset1');
+            resolveHandler();
+            await handlerCall;
+            await stopCall;
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(mockHandlers.onBookMetrics).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not connect new groups while stopped', async () => {
+            mockGroupRegistry.addAssets.mockResolvedValue(['group1']);
+            mockGroupRegistry.findGroupById.mockReturnValue(createMockGroup('group1', ['asset1']));
+
+            await manager.stop();
+            await manager.addSubscriptions(['asset1']);
+
+            expect(mockGroupRegistry.addAssets).toHaveBeenCalled();
+            expect(MockedGroupSocket).not.toHaveBeenCalled();
+        });
+
+        it('should clear state and stop the internal limiter on dispose', async () => {
+            await manager.dispose();
+
+            expect(vi.getTimerCount()).toBe(0);
+            expect(mockGroupRegistry.closeAllGroups).toHaveBeenCalled();
+            expect(mockGroupRegistry.clearAllGroups).toHaveBeenCalled();
+            expect(mockBookCache.clear).toHaveBeenCalled();
+            expect(mockBottleneck.stop).toHaveBeenCalledWith({ dropWaitingJobs: true });
+        });
+
+        it('should leave a user provided limiter running on dispose', async () => {
+            const customLimiter = { on: vi.fn(), stop: vi.fn() } as any;
+            const testManager = new WSSubscriptionManager(mockHandlers, { burstLimiter: customLimiter });
+
+            await testManager.dispose();
+
+            expect(customLimiter.stop).not.toHaveBeenCalled();
+        });
+
+        it('should reject further use after dispose', async () => {
+            await manager.dispose();
+            await manager.dispose();
+
+            expect(mockBottleneck.stop).toHaveBeenCalledTimes(1);
+            expect(() => manager.start()).toThrow('WSSubscriptionManager has been disposed');
+
+            await manager.addSubscriptions(['asset1']);
+            expect(mockHandlers.onError).toHaveBeenCalledWith(
+                new Error('Error adding subscriptions: WSSubscriptionManager has been disposed')
+            );
+        });
+
+        it('should support Symbol.asyncDispose', async () => {
+            await manager[Symbol.asyncDispose]();
+
+            expect(mockBottleneck.stop).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('status', () => {
+        const groupStatus = (groupId: string, status: WebSocketStatus) => ({
+            groupId,
+            status,
+            assetCount: 1,
+            connectedSince: null,
+            lastMessageAt: null,
+            reconnectAttempts: 0,
+            pingRttMs: null,
+            messagesPerSecond: 0,
+        });
+
+        it('should report the running state and the group statuses', async () => {
+            const groups = [groupStatus('group1', WebSocketStatus.ALIVE)];
+            mockGroupRegistry.getGroupStatuses.mockReturnValue(groups);
+
+            expect(manager.getStatus()).toEqual({ running: true, groups });
+
+            await manager.stop();
+            expect(manager.getStatus().running).toBe(false);
+        });
+
+        it('should be healthy only while running with every group alive', async () => {
+            expect(manager.isHealthy()).toBe(true);
+
+            mockGroupRegistry.getGroupStatuses.mockReturnValue([
+                groupStatus('group1', WebSocketStatus.ALIVE),
+                groupStatus('group2', WebSocketStatus.DEAD),
+            ]);
+            expect(manager.isHealthy()).toBe(false);
+
+            mockGroupRegistry.getGroupStatuses.mockReturnValue([groupStatus('group1', WebSocketStatus.ALIVE)]);
+            expect(manager.isHealthy()).toBe(true);
+
+            await manager.stop();
+            expect(manager.isHealthy()).toBe(false);
+        });
+    });
+
+    describe('book read API', () => {
+        it('should read books from the cache', () => {
+            const book = { assetId: 'asset1', market: 'm', timestamp: '1', bids: [], asks: [], price: '0.5', tickSize: '0.01', offGridLevels: [], stale: false };
+            const top = { assetId: 'asset1', timestamp: '1', bestBid: null, bestAsk: null, stale: false };
+            mockBookCache.snapshot = vi.fn((assetId: string) => assetId === 'asset1' ? book : null);
+            mockBookCache.assetIds = vi.fn(() => ['asset1']);
+            mockBookCache.bestBidAsk = vi.fn(() => top);
+            mockBookCache.currentMidpoint = vi.fn(() => '0.5');
+            mockBookCache.currentSpread = vi.fn(() => '0.02');
+            mockBookCache.getBookEntry = vi.fn(() => ({ price: '0.51' }));
+
+            expect(manager.getBook('asset1')).toBe(book);
+            expect(manager.getBook('asset2')).toBeNull();
+            expect(manager.listBooks()).toEqual([book]);
+            expect(manager.getBestBidAsk('asset1')).toBe(top);
+            expect(manager.getMidpoint('asset1')).toBe('0.5');
+            expect(manager.getSpread('asset1')).toBe('0.02');
+            expect(manager.getPrice('asset1')).toBe('0.51');
+            expect(mockBookCache.currentMidpoint).toHaveBeenCalledWith('asset1');
+        });
+
+        it('should estimate fills and depth on the cache', () => {
+            mockBookCache.estimateFill = vi.fn(() => null);
+            mockBookCache.cumulativeDepth = vi.fn(() => []);
+
+            expect(manager.estimateFill('asset1', Side.BUY, { notional: 500 })).toBeNull();
+            expect(manager.cumulativeDepth('asset1', Side.SELL, '0.05', 'number')).toEqual([]);
+            expect(mockBookCache.estimateFill).toHaveBeenCalledWith('asset1', Side.BUY, { notional: 500 }, undefined);
+            expect(mockBookCache.cumulativeDepth).toHaveBeenCalledWith('asset1', Side.SELL, '0.05', 'number');
+        });
+
+        it('should read merged market books from the cache', () => {
+            const marketBook = { market: 'market1' };
+            mockBookCache.marketBook = vi.fn(() => marketBook);
+
+            expect(manager.getMarketBook('market1', 'asset2')).toBe(marketBook);
+            expect(mockBookCache.marketBook).toHaveBeenCalledWith('market1', 'asset2', undefined);
+        });
+
+        it('should compute book metrics with the manager options', () => {
+            const metrics = { assetId: 'asset1' };
+            const bookMetrics = { depthLevels: 3, liquidityBand: '0.02' };
+            mockBookCache.bookMetrics = vi.fn(() => metrics);
+            const testManager = new WSSubscriptionManager(mockHandlers, { bookMetrics });
+
+            expect(testManager.getBookMetrics('asset1', 'number')).toBe(metrics);
+            expect(mockBookCache.bookMetrics).toHaveBeenCalledWith('asset1', bookMetrics, 'number');
+        });
+
+        it('should return no price for an unknown book', () => {
+            mockBookCache.getBookEntry = vi.fn(() => null);
+
+            expect(manager.getPrice('asset1')).toBeNull();
+        });
+    });
+
+    describe('metrics', () => {
+        it('should return no metrics when disabled', async () => {
+            await expect(manager.getMetricsText()).resolves.toBe('');
+        });
+
+        it('should expose handler metrics when enabled', async () => {
+            const testManager = new WSSubscriptionManager(mockHandlers, { metrics: true });
+            mockGroupRegistry.getGroupIndicesForAsset.mockReturnValue([0]);
+
+            await (testManager as any).handlers.onBook([createMockBookEvent('asset1')]);
+
+            const text = await testManager.getMetricsText();
+            expect(text).toContain('polymarket_ws_handler_duration_seconds_count{channel="market",handler="onBook"} 1');
+            await testManager.dispose();
+        });
+    });
+
+    describe('live subscription updates', () => {
+        beforeEach(async () => {
+            // Connect group1 so that the manager holds its socket
+            mockGroupRegistry.addAssets.mockResolvedValueOnce(['group1']);
+            mockGroupRegistry.findGroupById.mockReturnValue(createMockGroup('group1', ['asset1']));
+            await manager.addSubscriptions(['asset1']);
+            mockGroupRegistry.addAssets.mockClear();
+        });
+
+        it('should subscribe on a connected group without creating a new one', async () => {
+            mockGroupRegistry.addAssetsToLiveGroup.mockResolvedValue({ groupId: 'group1', assetIds: ['asset2'] });
+
+            await manager.addSubscriptions(['asset2']);
+
+            expect(mockGroupSocket.subscribe).toHaveBeenCalledWith(['asset2']);
+            expect(mockGroupRegistry.addAssets).toHaveBeenCalledWith([], Number.MAX_SAFE_INTEGER);
+            expect(MockedGroupSocket).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fall back to a new group when the server rejects the subscribe operation', async () => {
+            mockGroupRegistry.addAssetsToLiveGroup.mockResolvedValue({ groupId: 'group1', assetIds: ['asset2'] });
+            mockGroupSocket.subscribe.mockResolvedValue(false);
+            mockGroupRegistry.addAssets.mockResolvedValue(['group2']);
+
+            await manager.addSubscriptions(['asset2']);
+
+            expect(mockGroupRegistry.removeAssets).toHaveBeenCalledWith(['asset2'], mockBookCache);
+            expect(mockGroupRegistry.addAssets).toHaveBeenCalledWith(['asset2'], Number.MAX_SAFE_INTEGER);
+            expect(MockedGroupSocket).toHaveBeenCalledTimes(2);
+        });
+
+        it('should send unsubscribe operations to the groups holding the assets', async () => {
+            mockGroupRegistry.getAssetIdsByGroup.mockReturnValue(new Map([['group1', ['asset1']]]));
+
+            await manager.removeSubscriptions(['asset1']);
+
+            expect(mockGroupRegistry.removeAssets).toHaveBeenCalledWith(['asset1'], mockBookCache);
+            expect(mockGroupSocket.unsubscribe).toHaveBeenCalledWith(['asset1']);
+        });
+
+        it('should not use live updates when disabled', async () => {
+            const testManager = new WSSubscriptionManager(mockHandlers, { liveSubscriptionUpdates: false });
+            mockGroupRegistry.addAssetsToLiveGroup.mockClear();
+            mockGroupRegistry.getAssetIdsByGroup.mockReturnValue(new Map([['group1', ['asset1']]]));
+
+            await testManager.addSubscriptions(['asset2']);
+            await testManager.removeSubscriptions(['asset1']);
+
+            expect(mockGroupRegistry.addAssetsToLiveGroup).not.toHaveBeenCalled();
+            expect(mockGroupSocket.unsubscribe).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('endpoint options', () => {
+        it('should pass the endpoint and ws client options to the group socket', async () => {
+            const agent = {} as any;
+            const testManager = new WSSubscriptionManager(mockHandlers, {
+                wsUrl: 'ws://localhost:8080/ws/market',
+                wsClientOptions: { headers: { 'x-test': '1' }, agent, handshakeTimeout: 5000 }
+            });
+
+            mockGroupRegistry.addAssets.mockResolvedValue(['group1']);
+            mockGroupRegistry.findGroupById.mockReturnValue(createMockGroup('group1', ['asset1']));
+
+            await testManager.addSubscriptions(['asset1']);
+
+            expect(MockedGroupSocket).toHaveBeenCalledWith(
+                expect.any(Object),
+                expect.any(Object),
+                expect.any(Object),
+                expect.any(Object),
+                true,
+                {
+                    url: 'ws://localhost:8080/ws/market',
+                    wsClientOptions: { headers: { 'x-test': '1' }, agent, handshakeTimeout: 5000 },
+                    logger: expect.any(Object)
+                }
             );
         });
     });
-}); 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,157 @@
+/// <reference types="vitest" />
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WSSubscriptionManager, WebSocketHandlers } from '../src/WSSubscriptionManager';
+import { UserWSSubscriptionManager } from '../src/UserWSSubscriptionManager';
+import { GroupSocket } from '../src/modules/GroupSocket';
+import { UserGroupSocket } from '../src/modules/UserGroupSocket';
+import { BookEvent, OrderEvent, OrderType, Side, UserWebSocketHandlers } from '../src/types/PolymarketWebSocket';
+import Bottleneck from 'bottleneck';
+
+// Only the sockets are mocked, registries and book caches are real
+vi.mock('../src/modules/GroupSocket');
+vi.mock('../src/modules/UserGroupSocket');
+
+const MockedGroupSocket = vi.mocked(GroupSocket);
+const MockedUserGroupSocket = vi.mocked(UserGroupSocket);
+
+const createBookEvent = (assetId: string): BookEvent => ({
+    asset_id: assetId,
+    market: 'test-market',
+    timestamp: '1234567890',
+    hash: 'test-hash',
+    event_type: 'book',
+    bids: [{ price: '0.45', size: '100' }],
+    asks: [{ price: '0.55', size: '50' }]
+});
+
+const createOrderEvent = (market: string): OrderEvent => ({
+    asset_id: 'asset',
+    associate_trades: null,
+    event_type: 'order',
+    id: 'order-id',
+    market,
+    order_owner: 'owner',
+    original_size: '10',
+    outcome: 'YES',
+    owner: 'owner',
+    price: '0.5',
+    side: Side.BUY,
+    size_matched: '0',
+    timestamp: '1234567890',
+    type: OrderType.PLACEMENT
+});
+
+describe('Subscription manager isolation', () => {
+    let limiter: Bottleneck;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+
+        limiter = {
+            schedule: vi.fn(),
+            on: vi.fn()
+        } as any;
+
+        MockedGroupSocket.mockImplementation(() => ({ connect: vi.fn().mockResolvedValue(undefined) }) as any);
+        MockedUserGroupSocket.mockImplementation(() => ({ connect: vi.fn().mockResolvedValue(undefined) }) as any);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('WSSubscriptionManager', () => {
+        let handlersA: WebSocketHandlers;
+        let handlersB: WebSocketHandlers;
+        let managerA: WSSubscriptionManager;
+        let managerB: WSSubscriptionManager;
+
+        beforeEach(() => {
+            handlersA = { onBook: vi.fn(), onError: vi.fn() };
+            handlersB = { onBook: vi.fn(), onError: vi.fn() };
+            managerA = new WSSubscriptionManager(handlersA, { burstLimiter: limiter });
+            managerB = new WSSubscriptionManager(handlersB, { burstLimiter: limiter });
+        });
+
+        it('should subscribe independently', async () => {
+            await managerA.addSubscriptions(['asset1']);
+            await managerB.addSubscriptions(['asset2']);
+
+            const events = [createBookEvent('asset1'), createBookEvent('asset2')];
+            await (managerA as any).handlers.onBook(events);
+            await (managerB as any).handlers.onBook(events);
+
+            expect(handlersA.onBook).toHaveBeenCalledWith([events[0]]);
+            expect(handlersB.onBook).toHaveBeenCalledWith([events[1]]);
+        });
+
+        it('should open a connection in each manager for the same asset', async () => {
+            await managerA.addSubscriptions(['asset1']);
+            await managerB.addSubscriptions(['asset1']);
+
+            expect(MockedGroupSocket).toHaveBeenCalledTimes(2);
+        });
+
+        it('should unsubscribe without affecting the other manager', async () => {
+            await managerA.addSubscriptions(['asset1']);
+            await managerB.addSubscriptions(['asset1']);
+
+            await managerA.removeSubscriptions(['asset1']);
+
+            const events = [createBookEvent('asset1')];
+            await (managerA as any).handlers.onBook(events);
+            await (managerB as any).handlers.onBook(events);
+
+            expect(handlersA.onBook).toHaveBeenCalledWith([]);
+            expect(handlersB.onBook).toHaveBeenCalledWith(events);
+        });
+
+        it('should clear state without affecting the other manager', async () => {
+            await managerA.addSubscriptions(['asset1']);
+            await managerB.addSubscriptions(['asset2']);
+
+            await managerA.clearState();
+
+            const events = [createBookEvent('asset1'), createBookEvent('asset2')];
+            await (managerA as any).handlers.onBook(events);
+            await (managerB as any).handlers.onBook(events);
+
+            expect(handlersA.onBook).toHaveBeenCalledWith([]);
+            expect(handlersB.onBook).toHaveBeenCalledWith([events[1]]);
+        });
+    });
+
+    describe('UserWSSubscriptionManager', () => {
+        const auth = { apiKey: 'key', secret: 'secret', passphrase: 'pass' };
+
+        let handlersA: UserWebSocketHandlers;
+        let handlersB: UserWebSocketHandlers;
+        let managerA: UserWSSubscriptionManager;
+        let managerB: UserWSSubscriptionManager;
+
+        beforeEach(() => {
+            handlersA = { onOrder: vi.fn(), onError: vi.fn() };
+            handlersB = { onOrder: vi.fn(), onError: vi.fn() };
+            managerA = new UserWSSubscriptionManager(handlersA, { auth, burstLimiter: limiter });
+            managerB = new UserWSSubscriptionManager(handlersB, { auth, burstLimiter: limiter });
+        });
+
+        it('should subscribe and clear independently', async () => {
+            await managerA.addSubscriptions(['market1']);
+            await managerB.addSubscriptions(['market2']);
+
+            const events = [createOrderEvent('market1'), createOrderEvent('market2')];
+            await (managerA as any).handlers.onOrder(events);
+            await (managerB as any).handlers.onOrder(events);
+
+            expect(handlersA.onOrder).toHaveBeenCalledWith([events[0]]);
+            expect(handlersB.onOrder).toHaveBeenCalledWith([events[1]]);
+
+            await managerB.clearState();
+            await (managerA as any).handlers.onOrder(events);
+
+            expect(handlersA.onOrder).toHaveBeenLastCalledWith([events[0]]);
+        });
+    });
+});
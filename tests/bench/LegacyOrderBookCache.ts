@@ -0,0 +1,268 @@
+import _ from 'lodash';
+import {
+    BookEvent,
+    PriceChangeEvent,
+    PriceLevel,
+    Side,
+} from '../../src/types/PolymarketWebSocket';
+import { Logger } from '../../src/types/Logger';
+import { defaultLogger } from '../../src/logger';
+
+/*
+ * The array based OrderBookCache as it was before the sorted BookSide store,
+ * kept as the baseline of the benchmarks.
+ */
+interface BookEntry {
+    bids: PriceLevel[];
+    asks: PriceLevel[];
+    price: string | null;
+    midpoint: string | null;
+    spread: string | null;
+}
+
+function sortDescendingInPlace(bookSide: PriceLevel[]): void {
+    bookSide.sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
+}
+
+function sortAscendingInPlace(bookSide: PriceLevel[]): void {
+    bookSide.sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
+}
+
+function isEmptyLevel(level: PriceLevel): boolean {
+    return parseFloat(level.size) === 0;
+}
+
+/*
+ * Set the size of a price level, removing the level when the size is zero.
+ * Prices are compared numerically, so '0.5' and '0.50' are the same level.
+ */
+function setLevel(bookSide: PriceLevel[], level: PriceLevel, sortInPlace: (bookSide: PriceLevel[]) => void): void {
+    const price = parseFloat(level.price);
+    const i = bookSide.findIndex(existing => parseFloat(existing.price) === price);
+
+    if (isEmptyLevel(level)) {
+        if (i !== -1) {
+            bookSide.splice(i, 1);
+        }
+        return;
+    }
+
+    if (i !== -1) {
+        bookSide[i].size = level.size;
+    } else {
+        bookSide.push({ price: level.price, size: level.size });
+        sortInPlace(bookSide);
+    }
+}
+
+export class LegacyOrderBookCache {
+    private bookCache: { 
+        [assetId: string]: BookEntry 
+    } = {};
+
+    constructor(private logger: Logger = defaultLogger) {}
+
+    /**
+     * Replace full book (after a `book` event)
+     */
+    public replaceBook(event: BookEvent): void {
+        let lastPrice = null;
+        let lastMidpoint = null;
+        let lastSpread = null;
+        if (this.bookCache[event.asset_id]) {
+            lastPrice = this.bookCache[event.asset_id].price;
+            lastMidpoint = this.bookCache[event.asset_id].midpoint;
+            lastSpread = this.bookCache[event.asset_id].spread;
+        }
+
+        // Levels are copied, updates must not modify the event passed to the handlers
+        this.bookCache[event.asset_id] = {
+            bids: event.bids.filter(level => !isEmptyLevel(level)).map(level => ({ ...level })),
+            asks: event.asks.filter(level => !isEmptyLevel(level)).map(level => ({ ...level })),
+            price: lastPrice,
+            midpoint: lastMidpoint,
+            spread: lastSpread,
+        };
+
+        /* Polymarket book events are currently sorted as such:
+         * - bids (buys) ascending
+         * - asks (sells) descending
+         * 
+         * So we maintain this order in the cache.
+         */
+        sortAscendingInPlace(this.bookCache[event.asset_id].bids);
+        sortDescendingInPlace(this.bookCache[event.asset_id].asks);
+
+        this.logger.debug({
+            message: 'Replaced book',
+            asset_id: event.asset_id,
+            bids: event.bids.length,
+            asks: event.asks.length,
+        });
+    }
+
+    /**
+     * Update a cached book from a `price_change` event.
+     * 
+     * A level whose size drops to zero is removed from the book.
+     * Throws if the book is not found.
+     */
+    public upsertPriceChange(event: PriceChangeEvent): void {
+        // Iterate through price_changes array
+        for (const priceChange of event.price_changes) {
+            const book = this.bookCache[priceChange.asset_id];
+            if (!book) {
+                throw new Error(`Book not found for asset ${priceChange.asset_id}`);
+            }
+
+            const { price, size, side } = priceChange;
+            if (side === Side.BUY) {
+                // Bids are kept ascending
+                setLevel(book.bids, { price, size }, sortAscendingInPlace);
+            } else {
+                // Asks are kept descending
+                setLevel(book.asks, { price, size }, sortDescendingInPlace);
+            }
+        }
+    }
+
+    /**
+     * Return `true` if best-bid/best-ask spread exceeds `cents`.
+     * 
+     * Side effect: updates the book's spread
+     * 
+     * Throws if either side of the book is empty.
+     */
+    public spreadOver(assetId: string, cents = 0.1): boolean {
+        const book = this.bookCache[assetId];
+        if (!book) throw new Error(`Book for ${assetId} not cached`);
+        if (book.asks.length === 0) throw new Error(`No asks in book for ${assetId}`);
+        if (book.bids.length === 0) throw new Error(`No bids in book for ${assetId}`);
+
+        const highestBid = this.bestBid(assetId)!.price;
+        const lowestAsk = this.bestAsk(assetId)!.price;
+        
+        const highestBidNum = parseFloat(highestBid);
+        const lowestAskNum = parseFloat(lowestAsk);
+
+        const spread = lowestAskNum - highestBidNum;
+
+        if (isNaN(spread)) {
+            throw new Error(`Spread is NaN: lowestAsk '${lowestAsk}' highestBid '${highestBid}'`);
+        }
+
+        /*
+        *   Update spead, 3 precision decimal places, trim trailing zeros
+        */
+        book.spread = parseFloat(spread.toFixed(3)).toString();
+
+        // Should be safe for 0.### - precision values
+        return spread > cents;
+    }
+
+    /** 
+     * Calculate the midpoint of the book, rounded to 3dp, no trailing zeros 
+     * 
+     * Side effect: updates the book's midpoint
+     * 
+     * Throws if
+     * - the book is not found or missing either bid or ask
+     * - the midpoint is NaN.
+    */
+    public midpoint(assetId: string): string {
+        const book = this.bookCache[assetId];
+        if (!book) throw new Error(`Book for ${assetId} not cached`);
+        if (book.asks.length === 0) throw new Error(`No asks in book for ${assetId}`);
+        if (book.bids.length === 0) throw new Error(`No bids in book for ${assetId}`);
+
+        const highestBid = this.bestBid(assetId)!.price;
+        const lowestAsk = this.bestAsk(assetId)!.price;
+
+        const highestBidNum = parseFloat(highestBid);
+        const lowestAskNum = parseFloat(lowestAsk);
+
+        const midpoint = (highestBidNum + lowestAskNum) / 2;
+
+        if (isNaN(midpoint)) {
+            throw new Error(`Midpoint is NaN: lowestAsk '${lowestAsk}' highestBid '${highestBid}'`);
+        }
+
+        /*
+        *   Update midpoint, 3 precision decimal places, trim trailing zeros
+        */
+        book.midpoint = parseFloat(midpoint.toFixed(3)).toString();
+
+        return parseFloat(midpoint.toFixed(3)).toString();
+    }
+
+    public clear(assetId?: string): void {
+        if (assetId) {
+            delete this.bookCache[assetId];
+        } else {
+            for (const k of Object.keys(this.bookCache)) {
+                delete this.bookCache[k];
+            }
+        }
+        this.logger.debug({
+            message: assetId ? 'Cleared book' : 'Cleared all books',
+            asset_id: assetId,
+        });
+    }
+
+    /**
+     * Number of cached books.
+     */
+    public size(): number {
+        return Object.keys(this.bookCache).length;
+    }
+
+    /**
+     * Get a book entry by asset id.
+     * 
+     * Return null if the book is not found.
+     */
+    public getBookEntry(assetId: string): BookEntry | null {
+        if (!this.bookCache[assetId]) {
+            return null;
+        }
+        return this.bookCache[assetId];
+    }
+
+    /**
+     * Highest bid of a book.
+     * 
+     * Returns null if the book is not found or has no bids.
+     */
+    public bestBid(assetId: string): PriceLevel | null {
+        return _.last(this.bookCache[assetId]?.bids) ?? null;
+    }
+
+    /**
+     * Lowest ask of a book.
+     * 
+     * Returns null if the book is not found or has no asks.
+     */
+    public bestAsk(assetId: string): PriceLevel | null {
+        return _.last(this.bookCache[assetId]?.asks) ?? null;
+    }
+
+    /**
+     * The best `n` levels of one side of a book, best price first.
+     * 
+     * Returns an empty array if the book is not found.
+     */
+    public depth(assetId: string, side: Side, n: number): PriceLevel[] {
+        const book = this.bookCache[assetId];
+        if (!book || n <= 0) {
+            return [];
+        }
+
+        /*
+         * Best prices are at the end of both sides:
+         * - bids ascending
+         * - asks descending
+         */
+        const bookSide = side === Side.BUY ? book.bids : book.asks;
+        return bookSide.slice(-n).reverse();
+    }
+} 
\ No newline at end of file
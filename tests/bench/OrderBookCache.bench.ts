@@ -0,0 +1,65 @@
+/// <reference types="vitest" />
+import { bench, describe } from 'vitest';
+import { OrderBookCache } from '../../src/modules/OrderBookCache';
+import { Logger } from '../../src/types/Logger';
+import { LegacyOrderBookCache } from './LegacyOrderBookCache';
+import { BookStreamEvent, generateBookStream, loadBookStream } from './bookStream';
+
+/*
+    Replays market channel streams through the book cache, including the
+    spread and midpoint reads of the derived price calculation.
+
+    Run with `npm run bench`. Set BOOK_STREAM_FILE to the path of a recorded
+    stream (one raw message per line) to replay it in addition to the generated ones.
+*/
+
+const silentLogger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => silentLogger,
+};
+
+type BookCache = Pick<OrderBookCache, 'replaceBook' | 'upsertPriceChange' | 'spreadOver' | 'midpoint'>;
+
+function replay(cache: BookCache, stream: BookStreamEvent[]): void {
+    for (const event of stream) {
+        if (event.event_type === 'book') {
+            cache.replaceBook(event);
+            continue;
+        }
+
+        cache.upsertPriceChange(event);
+        for (const { asset_id } of event.price_changes) {
+            try {
+                if (!cache.spreadOver(asset_id, 0.1)) {
+                    cache.midpoint(asset_id);
+                }
+            } catch {
+                // One side of the book is empty
+            }
+        }
+    }
+}
+
+const streams: [string, BookStreamEvent[]][] = [
+    ['1000 assets, 20 levels per side, 100k price changes', generateBookStream({ assets: 1000, levelsPerSide: 20, priceChanges: 100_000 })],
+    ['20 assets, 400 levels per side, 20k price changes', generateBookStream({ assets: 20, levelsPerSide: 400, priceChanges: 20_000 })],
+];
+
+if (process.env.BOOK_STREAM_FILE) {
+    streams.push([`recorded stream ${process.env.BOOK_STREAM_FILE}`, loadBookStream(process.env.BOOK_STREAM_FILE)]);
+}
+
+for (const [name, stream] of streams) {
+    describe(name, () => {
+        bench('OrderBookCache', () => {
+            replay(new OrderBookCache(silentLogger), stream);
+        });
+
+        bench('LegacyOrderBookCache', () => {
+            replay(new LegacyOrderBookCache(silentLogger), stream);
+        });
+    });
+}
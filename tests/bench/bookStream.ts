@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import {
+    BookEvent,
+    PriceChangeEvent,
+    PriceLevel,
+    Side,
+    isBookEvent,
+    isPriceChangeEvent,
+} from '../../src/types/PolymarketWebSocket';
+
+export type BookStreamEvent = BookEvent | PriceChangeEvent;
+
+export type GeneratedStreamOptions = {
+    assets: number;
+    levelsPerSide: number;
+    priceChanges: number;
+    seed?: number;
+};
+
+/*
+    Deterministic PRNG (mulberry32), so that every run replays the same stream.
+*/
+function createRandom(seed: number): () => number {
+    return () => {
+        seed |= 0;
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generate a market channel stream: one `book` snapshot per asset followed by
+ * `price_change` events spread over the assets.
+ *
+ * Like live traffic, most changes hit the few levels at the top of the book,
+ * about a third empty a level, and prices sit on a 0.01 or 0.001 tick grid.
+ */
+export function generateBookStream(options: GeneratedStreamOptions): BookStreamEvent[] {
+    const random = createRandom(options.seed ?? 1);
+    const events: BookStreamEvent[] = [];
+    const assets: { assetId: string, tick: number, decimals: number, midTick: number }[] = [];
+
+    for (let a = 0; a < options.assets; a++) {
+        const decimals = random() < 0.5 ? 2 : 3;
+        const ticks = 10 ** decimals;
+        const tick = 1 / ticks;
+        const midTick = Math.floor(ticks * (0.1 + random() * 0.8));
+        const assetId = `asset-${a}`;
+        assets.push({ assetId, tick, decimals, midTick });
+
+        const level = (t: number): PriceLevel => ({
+            price: (t * tick).toFixed(decimals),
+            size: String(Math.floor(random() * 5000) + 1),
+        });
+
+        // Polymarket sends bids ascending and asks descending
+        const bids: PriceLevel[] = [];
+        const asks: PriceLevel[] = [];
+        for (let i = options.levelsPerSide; i >= 1; i--) {
+            if (midTick - i > 0) bids.push(level(midTick - i));
+            if (midTick + i < ticks) asks.push(level(midTick + i));
+        }
+
+        events.push({
+            event_type: 'book',
+            asset_id: assetId,
+            market: `market-${a}`,
+            timestamp: '0',
+            hash: 'hash',
+            bids,
+            asks,
+        });
+    }
+
+    for (let i = 0; i < options.priceChanges; i++) {
+        const asset = assets[Math.floor(random() * assets.length)];
+        const side = random() < 0.5 ? Side.BUY : Side.SELL;
+
+        // Distance from the mid, geometric so that the top of the book gets most updates
+        const distance = 1 + Math.floor(-Math.log(1 - random()) * options.levelsPerSide / 8);
+        const priceTick = side === Side.BUY ? asset.midTick - distance : asset.midTick + distance;
+        if (priceTick <= 0 || priceTick * asset.tick >= 1) {
+            continue;
+        }
+
+        events.push({
+            event_type: 'price_change',
+            market: 'market',
+            timestamp: String(i),
+            price_changes: [{
+                asset_id: asset.assetId,
+                price: (priceTick * asset.tick).toFixed(asset.decimals),
+                side,
+                size: random() < 0.35 ? '0' : String(Math.floor(random() * 5000) + 1),
+                hash: 'hash',
+                best_bid: '',
+                best_ask: '',
+            }],
+        });
+    }
+
+    return events;
+}
+
+/**
+ * Load a recorded stream: one raw market channel message (an event or an
+ * array of events) per line. Events other than `book` and `price_change` are skipped.
+ */
+export function loadBookStream(path: string): BookStreamEvent[] {
+    return readFileSync(path, 'utf8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            const message = JSON.parse(line);
+            return Array.isArray(message) ? message : [message];
+        })
+        .filter((event): event is BookStreamEvent => isBookEvent(event) || isPriceChangeEvent(event));
+}
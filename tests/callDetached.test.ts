@@ -0,0 +1,35 @@
+/// <reference types="vitest" />
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { callDetached } from '../src/modules/callDetached';
+import { Logger } from '../src/types/Logger';
+
+describe('callDetached', () => {
+    let logger: Logger;
+
+    beforeEach(() => {
+        logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: () => logger };
+    });
+
+    it('should call the handler with the arguments', () => {
+        const handler = vi.fn();
+
+        callDetached(logger, 'onPingLatency', handler, 'group1', 120);
+
+        expect(handler).toHaveBeenCalledWith('group1', 120);
+    });
+
+    it.each([
+        ['rejects', (cause: Error) => vi.fn().mockRejectedValue(cause)],
+        ['throws', (cause: Error) => vi.fn().mockImplementation(() => { throw cause; })],
+    ])('should log a handler that %s', async (_failure, createHandler) => {
+        const cause = new Error('handler boom');
+
+        expect(() => callDetached(logger, 'onError', createHandler(cause), new Error('reported'))).not.toThrow();
+
+        await vi.waitFor(() => expect(logger.error).toHaveBeenCalledWith({ message: 'onError handler failed', error: cause }));
+    });
+
+    it('should skip a missing handler', () => {
+        expect(() => callDetached(logger, 'onError', undefined)).not.toThrow();
+    });
+});
@@ -0,0 +1,76 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from 'vitest';
+import { classifyClose, classifySocketError } from '../src/modules/classifyClose';
+import { AuthError, ConnectionError, HandlerError, ParseError, PolyWebSocketError, ProtocolError } from '../src/errors';
+
+describe('classifyClose', () => {
+    it.each([1000, 1001, 1005, 1006, 1011, 1012, 1013, 4000])('should retry close code %i', (code) => {
+        const error = classifyClose('group1', code, '', 'market');
+
+        expect(error).toBeInstanceOf(ConnectionError);
+        expect(error).not.toBeInstanceOf(AuthError);
+        expect(error.retryable).toBe(true);
+        expect(error.code).toBe(code);
+    });
+
+    it.each([1002, 1003, 1007, 1008, 1010])('should not retry close code %i', (code) => {
+        const error = classifyClose('group1', code, 'bad', 'market');
+
+        expect(error.retryable).toBe(false);
+        expect(error.message).toBe(`WebSocket for group group1 closed with code ${code}: bad`);
+    });
+
+    it.each(['Unauthorized', 'invalid api key', 'auth failed', 'Forbidden', 'Invalid credentials'])('should not retry auth failures of the user channel: %s', (reason) => {
+        const error = classifyClose('group1', 4001, reason, 'user');
+
+        expect(error).toBeInstanceOf(AuthError);
+        expect(error.retryable).toBe(false);
+        expect(error.reason).toBe(reason);
+        expect(error.groupId).toBe('group1');
+    });
+
+    it.each([
+        ['market', 'Unauthorized'],
+        ['user', 'reauth scheduled'],
+        ['user', 'api key rotation in progress'],
+    ] as const)('should not classify the %s channel close reason as an auth failure: %s', (channel, reason) => {
+        const error = classifyClose('group1', 4001, reason, channel);
+
+        expect(error).not.toBeInstanceOf(AuthError);
+        expect(error.retryable).toBe(true);
+    });
+});
+
+describe('classifySocketError', () => {
+    it.each(['401', '403'])('should not retry a handshake rejected with %s', (status) => {
+        const cause = new Error(`Unexpected server response: ${status}`);
+        const error = classifySocketError('group1', cause);
+
+        expect(error).toBeInstanceOf(AuthError);
+        expect(error.retryable).toBe(false);
+        expect(error.cause).toBe(cause);
+        expect(error.message).toBe(`WebSocket error for group group1: Unexpected server response: ${status}`);
+    });
+
+    it('should retry other socket errors', () => {
+        const error = classifySocketError('group1', new Error('Unexpected server response: 502'));
+
+        expect(error).not.toBeInstanceOf(AuthError);
+        expect(error.retryable).toBe(true);
+    });
+});
+
+describe('error classes', () => {
+    it('should share the base class and keep their names', () => {
+        const errors = [
+            new ConnectionError('a'),
+            new AuthError('b'),
+            new ProtocolError('c'),
+            new ParseError('d'),
+            new HandlerError('e'),
+        ];
+
+        expect(errors.every(error => error instanceof PolyWebSocketError && error instanceof Error)).toBe(true);
+        expect(errors.map(error => error.name)).toEqual(['ConnectionError', 'AuthError', 'ProtocolError', 'ParseError', 'HandlerError']);
+    });
+});
@@ -0,0 +1,26 @@
+/// <reference types="vitest" />
+import { describe, it, expect } from 'vitest';
+import { isOnTickGrid, midpointDecimals, tickDecimals } from '../src/modules/tickSize';
+
+describe('tickSize', () => {
+    it('should count the decimals of a tick size', () => {
+        expect(tickDecimals('0.01')).toBe(2);
+        expect(tickDecimals('0.0001')).toBe(4);
+        expect(tickDecimals('1')).toBe(0);
+        expect(midpointDecimals('0.001')).toBe(4);
+    });
+
+    it('should check prices against the tick size grid', () => {
+        expect(isOnTickGrid('0.29', '0.01')).toBe(true);
+        expect(isOnTickGrid('0.57', '0.01')).toBe(true);
+        expect(isOnTickGrid('0.295', '0.01')).toBe(false);
+        expect(isOnTickGrid('0.295', '0.001')).toBe(true);
+        expect(isOnTickGrid('0.0001', '0.001')).toBe(false);
+    });
+
+    it('should treat an unknown grid as valid', () => {
+        expect(isOnTickGrid('0.295', '0')).toBe(true);
+        expect(isOnTickGrid('0.295', 'x')).toBe(true);
+        expect(isOnTickGrid('x', '0.01')).toBe(true);
+    });
+});